@@ -1,5 +1,5 @@
 import { useCallback, useEffect } from 'react';
-import type { World } from '@splat-and-treat/skeleton';
+import type { SceneSummary, World } from '@splat-and-treat/skeleton';
 import { WorldSelector } from './components/WorldSelector';
 import { SPECIAL_WORLD_IDS } from './config';
 
@@ -76,7 +76,12 @@ function App() {
     }
   }, []);
 
-  return <WorldSelector onWorldSelect={handleWorldSelect} />;
+  const handleSceneSelect = useCallback((scene: SceneSummary) => {
+    // Same redirect as a shared scene link
+    window.location.href = `/viewer.html?scene=${encodeURIComponent(scene.sceneId)}&name=${encodeURIComponent(scene.title)}`;
+  }, []);
+
+  return <WorldSelector onWorldSelect={handleWorldSelect} onSceneSelect={handleSceneSelect} />;
 }
 
 export default App;
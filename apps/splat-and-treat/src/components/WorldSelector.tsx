@@ -4,8 +4,13 @@
  * Requirements: 1.1, 1.2, 1.8
  */
 
-import { useState, useCallback, type MouseEvent } from 'react';
-import type { World } from '@splat-and-treat/skeleton';
+import { useState, useCallback, useEffect, type MouseEvent } from 'react';
+import {
+  createStorageServiceFromEnv,
+  type SceneListPage,
+  type SceneSummary,
+  type World,
+} from '@splat-and-treat/skeleton';
 import { worlds, SPECIAL_WORLD_IDS, SLARTIBARTFAST_EMAIL } from '../config';
 
 interface WorldCardProps {
@@ -134,16 +139,94 @@ function WorldCard({ world, onSelect }: WorldCardProps) {
   );
 }
 
+/** Number of shared scenes shown under "Recent shared scenes" */
+const RECENT_SCENE_COUNT = 6;
+
+interface SceneCardProps {
+  scene: SceneSummary;
+  onSelect: (scene: SceneSummary) => void;
+}
+
+/**
+ * Compact card for a shared scene
+ */
+function SceneCard({ scene, onSelect }: SceneCardProps) {
+  const handleClick = useCallback(() => onSelect(scene), [scene, onSelect]);
+
+  return (
+    <div
+      className="flex cursor-pointer overflow-hidden rounded-xl border-2 border-halloween-orange/30 bg-halloween-black/80 transition-colors duration-200 hover:border-halloween-orange"
+      onClick={handleClick}
+    >
+      <div className="flex h-20 w-28 shrink-0 items-center justify-center bg-gradient-to-br from-halloween-purple/20 to-halloween-black">
+        {scene.thumbnailUrl ? (
+          <img src={scene.thumbnailUrl} alt={scene.title} className="h-full w-full object-cover" />
+        ) : (
+          <span className="text-3xl">🎃</span>
+        )}
+      </div>
+      <div className="min-w-0 p-3">
+        <h3 className="truncate font-bold text-halloween-orange">{scene.title}</h3>
+        <p className="text-sm text-gray-400">
+          {scene.treatCount} treat{scene.treatCount !== 1 ? 's' : ''} •{' '}
+          {new Date(scene.updatedAt).toLocaleDateString()}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Most recently saved scenes from the scene index.
+ * Renders nothing when storage isn't configured or nothing has been shared.
+ */
+function RecentScenes({ onSceneSelect }: { onSceneSelect: (scene: SceneSummary) => void }) {
+  const [scenes, setScenes] = useState<SceneSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    try {
+      createStorageServiceFromEnv()
+        .listScenes({ limit: RECENT_SCENE_COUNT })
+        .then((page: SceneListPage) => {
+          if (!cancelled) setScenes(page.scenes);
+        })
+        .catch((error: unknown) => console.warn('Failed to list shared scenes:', error));
+    } catch (error) {
+      // Storage isn't configured (missing VITE_AWS_* variables)
+      console.warn('Shared scenes unavailable:', error);
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (scenes.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <h2 className="text-2xl font-semibold text-white mb-6">Recent Shared Scenes</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-12">
+        {scenes.map((scene) => (
+          <SceneCard key={scene.sceneId} scene={scene} onSelect={onSceneSelect} />
+        ))}
+      </div>
+    </>
+  );
+}
 
 interface WorldSelectorProps {
   onWorldSelect: (world: World) => void;
+  onSceneSelect: (scene: SceneSummary) => void;
 }
 
 /**
  * World Selection Screen
  * Displays a grid of available worlds with parallax hover effects.
  */
-export function WorldSelector({ onWorldSelect }: WorldSelectorProps) {
+export function WorldSelector({ onWorldSelect, onSceneSelect }: WorldSelectorProps) {
   // Separate regular worlds from special cards
   const regularWorlds = worlds.filter(
     (w) => w.id !== SPECIAL_WORLD_IDS.EMPTY && w.id !== SPECIAL_WORLD_IDS.REQUEST
@@ -177,6 +260,9 @@ export function WorldSelector({ onWorldSelect }: WorldSelectorProps) {
           </>
         )}
 
+        {/* Scenes others have shared */}
+        <RecentScenes onSceneSelect={onSceneSelect} />
+
         {/* Special options */}
         <h2 className="text-2xl font-semibold text-white mb-6">Create Your Own</h2>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
@@ -0,0 +1,66 @@
+/**
+ * purge-scenes - Delete what is left of removed and expired scenes.
+ *
+ * Runs StorageClient.purgeScenes() against the bucket (or a directory laid
+ * out like it): revisions, revision indexes and thumbnails of tombstoned and
+ * expired scenes are deleted, and a tombstone is kept in each scene's place
+ * so old links still say what happened.
+ *
+ * Uses the default AWS credential chain rather than the Cognito pool, since
+ * the app's anonymous role can't delete objects.
+ *
+ * Scenes that can't be read or cleaned up are listed at the end and make
+ * the script exit with status 1; the others are still purged.
+ *
+ * Usage (from packages/core):
+ *   VITE_AWS_S3_BUCKET=splatntreat pnpm purge [--dry-run]
+ *   pnpm purge --directory ./backup [--dry-run]
+ */
+
+import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
+import { S3StorageClient } from '../src/services/S3StorageClient';
+import { FileSystemStorageClient } from '../src/services/FileSystemStorageClient';
+import type { StorageClient } from '../src/services/StorageClient';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const directoryIndex = args.indexOf('--directory');
+const directory = directoryIndex >= 0 ? args[directoryIndex + 1] : undefined;
+
+const region = process.env.VITE_AWS_REGION || 'us-east-1';
+const bucketName = process.env.VITE_AWS_S3_BUCKET;
+const appUrl = process.env.VITE_APP_URL || '';
+
+let storage: StorageClient;
+if (directory) {
+  storage = new FileSystemStorageClient({ directory, appUrl });
+} else if (bucketName) {
+  storage = new S3StorageClient({
+    region,
+    bucketName,
+    appUrl,
+    credentials: fromNodeProviderChain(),
+  });
+} else {
+  console.error('Set VITE_AWS_S3_BUCKET, or pass --directory <path>');
+  process.exit(1);
+}
+
+console.log(
+  `${dryRun ? 'Dry run: scenes that would be purged' : 'Purging scenes'} from ${directory ?? `s3://${bucketName}`}`
+);
+
+const { purged, failed } = await storage.purgeScenes({ dryRun });
+for (const { sceneId, reason } of purged) {
+  console.log(`  ${sceneId} (${reason})`);
+}
+console.log(
+  `${purged.length} scene${purged.length === 1 ? '' : 's'} ${dryRun ? 'to purge' : 'purged'}`
+);
+if (failed.length > 0) {
+  console.error(`${failed.length} scene${failed.length === 1 ? '' : 's'} failed:`);
+  for (const { sceneId, message } of failed) {
+    console.error(`  ${sceneId}: ${message}`);
+  }
+  process.exitCode = 1;
+}
@@ -17,3 +17,6 @@ export * from './persistence';
 
 // Services
 export * from './services';
+
+// World
+export * from './world';
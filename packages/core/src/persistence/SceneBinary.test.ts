@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the binary scene encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encodeSceneBinary,
+  decodeSceneBinary,
+  isSceneBinary,
+  SCENE_BINARY_FORMAT_VERSION,
+} from './SceneBinary';
+import { serializeScene, CURRENT_VERSION } from './SceneSerializer';
+import type { SceneState, Treat } from '../types';
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: CURRENT_VERSION,
+    worldUrl: 'https://example.com/factory-floor.spz',
+    worldName: 'Factory Floor',
+    worldFlipY: false,
+    startPosition: { x: 0, y: -0.1, z: 0.1 },
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-02T00:00:00Z',
+  };
+}
+
+function makeGeomarkers(count: number): Treat[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `treat-${i}`,
+    type: 'geomarker',
+    glbUrl: 'https://s3.amazonaws.com/worldmatica/geomarker_animated.glb',
+    position: { x: Math.sin(i) * 12.345678, y: 0.123456789, z: Math.cos(i) * -7.654321 },
+    rotation: { x: 0, y: (i % 628) / 100, z: 0, order: 'XYZ' },
+    scale: { x: 0.33, y: 0.33, z: 0.33 },
+    createdAt: '2025-01-01T00:00:00Z',
+  }));
+}
+
+describe('encodeSceneBinary / decodeSceneBinary', () => {
+  it('should round-trip scene fields and treats', () => {
+    const original = makeScene([
+      {
+        id: 'treat-1',
+        type: 'bottle',
+        glbUrl: 'https://example.com/bottle.glb',
+        message: 'Hello 👻',
+        position: { x: 1.5, y: -2.25, z: 3 },
+        rotation: { x: 0, y: 1.5708, z: 0, order: 'YXZ' },
+        scale: { x: 2, y: 2, z: 2 },
+        metadata: { objectId: 'door-1' },
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-02T00:00:00Z',
+      },
+    ]);
+
+    const restored = decodeSceneBinary(encodeSceneBinary(original));
+
+    expect(restored).toEqual(original);
+  });
+
+  it('should restore transforms to within half a quantization step', () => {
+    const original = makeScene(makeGeomarkers(50));
+
+    const restored = decodeSceneBinary(encodeSceneBinary(original));
+
+    restored.treats.forEach((treat, i) => {
+      const source = original.treats[i];
+      for (const axis of ['x', 'y', 'z'] as const) {
+        expect(Math.abs(treat.position[axis] - source.position[axis])).toBeLessThanOrEqual(0.00005);
+        expect(Math.abs(treat.rotation[axis] - source.rotation[axis])).toBeLessThanOrEqual(0.00005);
+      }
+    });
+  });
+
+  it('should honour custom precision', () => {
+    const original = makeScene([
+      {
+        id: 'treat-1',
+        type: 'geomarker',
+        glbUrl: 'https://example.com/pin.glb',
+        position: { x: 1.23456, y: 0, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+      },
+    ]);
+
+    const restored = decodeSceneBinary(encodeSceneBinary(original, { positionPrecision: 0.01 }));
+
+    expect(restored.treats[0].position.x).toBe(1.23);
+  });
+
+  it('should handle coordinates beyond the 32-bit integer range', () => {
+    const original = makeScene([
+      {
+        id: 'treat-1',
+        type: 'geomarker',
+        glbUrl: 'https://example.com/pin.glb',
+        position: { x: 1_000_000, y: -250_000.5, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+      },
+    ]);
+
+    const restored = decodeSceneBinary(encodeSceneBinary(original));
+
+    expect(restored.treats[0].position).toEqual({ x: 1_000_000, y: -250_000.5, z: 0 });
+  });
+
+  it('should be much smaller than JSON for many treats with a shared glbUrl', () => {
+    const scene = makeScene(makeGeomarkers(2000));
+
+    const binarySize = encodeSceneBinary(scene).byteLength;
+    const jsonSize = new TextEncoder().encode(serializeScene(scene)).byteLength;
+
+    expect(binarySize).toBeLessThan(jsonSize / 4);
+  });
+
+  it('should preserve unrecognized scene and treat properties', () => {
+    const original = makeScene([
+      {
+        id: 'treat-1',
+        type: 'geomarker',
+        glbUrl: 'https://example.com/pin.glb',
+        position: { x: 0, y: 0, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+        extensions: { color: '#ff6600' },
+      },
+    ]);
+    original.extensions = { ambientSound: 'wind.mp3' };
+
+    const restored = decodeSceneBinary(encodeSceneBinary(original));
+
+    expect(restored.extensions).toEqual({ ambientSound: 'wind.mp3' });
+    expect(restored.treats[0].extensions).toEqual({ color: '#ff6600' });
+  });
+
+  it('should start with the WNSB header', () => {
+    const bytes = encodeSceneBinary(makeScene([]));
+
+    expect(isSceneBinary(bytes)).toBe(true);
+    expect(bytes[4]).toBe(SCENE_BINARY_FORMAT_VERSION);
+    expect(isSceneBinary(new TextEncoder().encode('{"version":2}'))).toBe(false);
+  });
+
+  it('should reject data without the header', () => {
+    expect(() => decodeSceneBinary(new Uint8Array([1, 2, 3, 4, 5]))).toThrow(
+      'Invalid binary scene: missing WNSB header'
+    );
+  });
+
+  it('should reject newer format versions', () => {
+    const bytes = encodeSceneBinary(makeScene([]));
+    bytes[4] = SCENE_BINARY_FORMAT_VERSION + 1;
+
+    expect(() => decodeSceneBinary(bytes)).toThrow('Unsupported binary scene format version');
+  });
+
+  it('should reject truncated data', () => {
+    const bytes = encodeSceneBinary(makeScene(makeGeomarkers(3)));
+
+    expect(() => decodeSceneBinary(bytes.subarray(0, bytes.length - 5))).toThrow(
+      'Invalid binary scene: unexpected end of data'
+    );
+  });
+
+  it('should reject non-positive precision', () => {
+    expect(() => encodeSceneBinary(makeScene([]), { rotationPrecision: 0 })).toThrow(
+      'Invalid quantization step: 0'
+    );
+  });
+});
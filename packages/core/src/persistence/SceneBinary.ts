@@ -0,0 +1,393 @@
+/**
+ * SceneBinary - Compact binary encoding of SceneState for large scenes.
+ *
+ * Layout (all integers are unsigned LEB128 varints unless noted):
+ * - Header: magic "WNSB" (4 bytes), format version (u8), scene schema version,
+ *   position/rotation/scale quantization steps (float64 each)
+ * - String table: count, then UTF-8 byte length + bytes per string.
+ *   Every string (ids, types, glbUrls, messages, timestamps) is interned and
+ *   referenced by index, so repeated glbUrl/type values cost one byte or two.
+ * - Scene fields: index of a JSON string holding everything except treats
+ * - Treats: count, then per treat a flags varint, id/type/glbUrl references,
+ *   quantized position and rotation (zigzag varints) and optional fields
+ *
+ * Decoding goes through deserializeSceneFromObject(), so migration and
+ * unknown-field preservation behave exactly as for JSON.
+ *
+ * @module @worldnotes/core/persistence/SceneBinary
+ */
+
+import type { SceneState } from '../types';
+import type { SerializedSceneState, SerializedTreat } from './SceneSerializer';
+import { serializeSceneToObject } from './SceneSerializer';
+import { deserializeSceneFromObject, type DeserializeOptions } from './SceneDeserializer';
+
+/** Magic bytes identifying a binary scene ("WNSB") */
+export const SCENE_BINARY_MAGIC = new Uint8Array([0x57, 0x4e, 0x53, 0x42]);
+
+/** Current binary format version */
+export const SCENE_BINARY_FORMAT_VERSION = 1;
+
+/**
+ * Quantization options for encodeSceneBinary().
+ * Each value is the step size: decoded values are within step / 2 of the input.
+ */
+export interface SceneBinaryOptions {
+  /** Position step in world units (default: 0.0001, i.e. 0.1 mm) */
+  positionPrecision?: number;
+  /** Rotation step in radians (default: 0.0001) */
+  rotationPrecision?: number;
+  /** Scale step (default: 0.0001) */
+  scalePrecision?: number;
+}
+
+const DEFAULT_PRECISION = 0.0001;
+
+/** Per-treat presence flags */
+const FLAG_MESSAGE = 1 << 0;
+const FLAG_SCALE = 1 << 1;
+const FLAG_ORDER = 1 << 2;
+const FLAG_METADATA = 1 << 3;
+const FLAG_CREATED_AT = 1 << 4;
+const FLAG_UPDATED_AT = 1 << 5;
+const FLAG_EXTRA = 1 << 6;
+
+/** Treat fields with a dedicated binary slot; everything else goes to the extra JSON */
+const ENCODED_TREAT_KEYS = new Set([
+  'id',
+  'type',
+  'glbUrl',
+  'message',
+  'position',
+  'rotation',
+  'scale',
+  'metadata',
+  'createdAt',
+  'updatedAt',
+]);
+
+/**
+ * Growable byte buffer for encoding.
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.bytes.length) {
+      return;
+    }
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) {
+      size *= 2;
+    }
+    const next = new Uint8Array(size);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+  }
+
+  writeByte(value: number): void {
+    this.ensure(1);
+    this.bytes[this.length++] = value;
+  }
+
+  writeBytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.bytes.set(value, this.length);
+    this.length += value.length;
+  }
+
+  /** Unsigned LEB128; uses arithmetic rather than bitwise ops to support values above 2^32 */
+  writeVarUint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.writeByte((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.writeByte(remaining);
+  }
+
+  /** Zigzag-encoded signed varint */
+  writeVarInt(value: number): void {
+    this.writeVarUint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  writeFloat64(value: number): void {
+    this.ensure(8);
+    new DataView(this.bytes.buffer).setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Sequential reader over encoded bytes.
+ */
+class ByteReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Invalid binary scene: unexpected end of data');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Invalid binary scene: unexpected end of data');
+    }
+    const result = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return result;
+  }
+
+  readVarUint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.readByte();
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return result;
+      }
+      multiplier *= 0x80;
+      if (multiplier > Number.MAX_SAFE_INTEGER) {
+        throw new Error('Invalid binary scene: varint too long');
+      }
+    }
+  }
+
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readFloat64(): number {
+    if (this.offset + 8 > this.bytes.length) {
+      throw new Error('Invalid binary scene: unexpected end of data');
+    }
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+}
+
+/**
+ * Interns strings and assigns each distinct value a table index.
+ */
+class StringTable {
+  readonly values: string[] = [];
+  private readonly indices = new Map<string, number>();
+
+  intern(value: string): number {
+    let index = this.indices.get(value);
+    if (index === undefined) {
+      index = this.values.length;
+      this.values.push(value);
+      this.indices.set(value, index);
+    }
+    return index;
+  }
+}
+
+function quantize(value: number, step: number): number {
+  return Math.round(value / step);
+}
+
+function dequantize(value: number, step: number): number {
+  // Round to the step's decimal places to avoid 0.30000000000000004-style noise
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return Number((value * step).toFixed(Math.min(decimals, 15)));
+}
+
+/**
+ * Check whether bytes start with the binary scene magic.
+ *
+ * @param bytes - Data to inspect
+ * @returns True if the data looks like a binary scene
+ */
+export function isSceneBinary(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= SCENE_BINARY_MAGIC.length &&
+    SCENE_BINARY_MAGIC.every((byte, index) => bytes[index] === byte)
+  );
+}
+
+/**
+ * Encode a SceneState to the compact binary format.
+ *
+ * @param state - The SceneState to encode
+ * @param options - Quantization options
+ * @returns Encoded bytes
+ *
+ * @example
+ * const bytes = encodeSceneBinary(state);
+ * const restored = decodeSceneBinary(bytes);
+ */
+export function encodeSceneBinary(state: SceneState, options: SceneBinaryOptions = {}): Uint8Array {
+  const positionStep = options.positionPrecision ?? DEFAULT_PRECISION;
+  const rotationStep = options.rotationPrecision ?? DEFAULT_PRECISION;
+  const scaleStep = options.scalePrecision ?? DEFAULT_PRECISION;
+  for (const step of [positionStep, rotationStep, scaleStep]) {
+    if (!(step > 0) || !Number.isFinite(step)) {
+      throw new Error(`Invalid quantization step: ${step}`);
+    }
+  }
+
+  const serialized = serializeSceneToObject(state);
+  const { treats, ...sceneFields } = serialized;
+  const strings = new StringTable();
+  const body = new ByteWriter();
+
+  const writeVector = (vec: { x: number; y: number; z: number }, step: number): void => {
+    body.writeVarInt(quantize(vec.x, step));
+    body.writeVarInt(quantize(vec.y, step));
+    body.writeVarInt(quantize(vec.z, step));
+  };
+
+  body.writeVarUint(strings.intern(JSON.stringify(sceneFields)));
+  body.writeVarUint(treats.length);
+
+  for (const treat of treats) {
+    const extra: Record<string, unknown> = {};
+    for (const key of Object.keys(treat)) {
+      if (!ENCODED_TREAT_KEYS.has(key)) {
+        extra[key] = treat[key];
+      }
+    }
+    const hasExtra = Object.keys(extra).length > 0;
+
+    let flags = 0;
+    if (treat.message !== undefined) flags |= FLAG_MESSAGE;
+    if (treat.scale !== undefined) flags |= FLAG_SCALE;
+    if (treat.rotation.order !== undefined) flags |= FLAG_ORDER;
+    if (treat.metadata !== undefined) flags |= FLAG_METADATA;
+    if (treat.createdAt !== undefined) flags |= FLAG_CREATED_AT;
+    if (treat.updatedAt !== undefined) flags |= FLAG_UPDATED_AT;
+    if (hasExtra) flags |= FLAG_EXTRA;
+
+    body.writeVarUint(flags);
+    body.writeVarUint(strings.intern(treat.id));
+    body.writeVarUint(strings.intern(treat.type));
+    body.writeVarUint(strings.intern(treat.glbUrl));
+    writeVector(treat.position, positionStep);
+    writeVector(treat.rotation, rotationStep);
+
+    if (treat.message !== undefined) body.writeVarUint(strings.intern(treat.message));
+    if (treat.scale !== undefined) writeVector(treat.scale, scaleStep);
+    if (treat.rotation.order !== undefined) {
+      body.writeVarUint(strings.intern(treat.rotation.order));
+    }
+    if (treat.metadata !== undefined) {
+      body.writeVarUint(strings.intern(JSON.stringify(treat.metadata)));
+    }
+    if (treat.createdAt !== undefined) body.writeVarUint(strings.intern(treat.createdAt));
+    if (treat.updatedAt !== undefined) body.writeVarUint(strings.intern(treat.updatedAt));
+    if (hasExtra) body.writeVarUint(strings.intern(JSON.stringify(extra)));
+  }
+
+  // Header and string table go before the body, which references the table
+  const out = new ByteWriter();
+  out.writeBytes(SCENE_BINARY_MAGIC);
+  out.writeByte(SCENE_BINARY_FORMAT_VERSION);
+  out.writeVarUint(serialized.version);
+  out.writeFloat64(positionStep);
+  out.writeFloat64(rotationStep);
+  out.writeFloat64(scaleStep);
+
+  const encoder = new TextEncoder();
+  out.writeVarUint(strings.values.length);
+  for (const value of strings.values) {
+    const utf8 = encoder.encode(value);
+    out.writeVarUint(utf8.length);
+    out.writeBytes(utf8);
+  }
+
+  out.writeBytes(body.toBytes());
+  return out.toBytes();
+}
+
+/**
+ * Decode bytes produced by encodeSceneBinary() back to a SceneState.
+ * Transforms are restored to within half a quantization step.
+ *
+ * @param bytes - Encoded scene
+ * @param options - Deserialization options (e.g. strict validation)
+ * @returns Decoded SceneState
+ * @throws Error if the data is not a binary scene or uses a newer format version
+ */
+export function decodeSceneBinary(bytes: Uint8Array, options: DeserializeOptions = {}): SceneState {
+  if (!isSceneBinary(bytes)) {
+    throw new Error('Invalid binary scene: missing WNSB header');
+  }
+
+  const reader = new ByteReader(bytes);
+  reader.readBytes(SCENE_BINARY_MAGIC.length);
+
+  const formatVersion = reader.readByte();
+  if (formatVersion > SCENE_BINARY_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported binary scene format version ${formatVersion} (supported: ${SCENE_BINARY_FORMAT_VERSION})`
+    );
+  }
+
+  const version = reader.readVarUint();
+  const positionStep = reader.readFloat64();
+  const rotationStep = reader.readFloat64();
+  const scaleStep = reader.readFloat64();
+
+  const decoder = new TextDecoder();
+  const stringCount = reader.readVarUint();
+  const strings: string[] = [];
+  for (let i = 0; i < stringCount; i++) {
+    strings.push(decoder.decode(reader.readBytes(reader.readVarUint())));
+  }
+
+  const readString = (): string => {
+    const index = reader.readVarUint();
+    if (index >= strings.length) {
+      throw new Error(`Invalid binary scene: string index ${index} out of range`);
+    }
+    return strings[index];
+  };
+  const readVector = (step: number) => ({
+    x: dequantize(reader.readVarInt(), step),
+    y: dequantize(reader.readVarInt(), step),
+    z: dequantize(reader.readVarInt(), step),
+  });
+
+  const sceneFields = JSON.parse(readString()) as SerializedSceneState;
+  const treatCount = reader.readVarUint();
+  const treats: SerializedTreat[] = [];
+
+  for (let i = 0; i < treatCount; i++) {
+    const flags = reader.readVarUint();
+    const id = readString();
+    const type = readString();
+    const glbUrl = readString();
+    const position = readVector(positionStep);
+    const rotation: SerializedTreat['rotation'] = readVector(rotationStep);
+
+    const treat: SerializedTreat = { id, type, glbUrl, position, rotation };
+    if (flags & FLAG_MESSAGE) treat.message = readString();
+    if (flags & FLAG_SCALE) treat.scale = readVector(scaleStep);
+    if (flags & FLAG_ORDER) rotation.order = readString();
+    if (flags & FLAG_METADATA) treat.metadata = JSON.parse(readString());
+    if (flags & FLAG_CREATED_AT) treat.createdAt = readString();
+    if (flags & FLAG_UPDATED_AT) treat.updatedAt = readString();
+    if (flags & FLAG_EXTRA) Object.assign(treat, JSON.parse(readString()));
+
+    treats.push(treat);
+  }
+
+  return deserializeSceneFromObject({ ...sceneFields, version, treats }, options);
+}
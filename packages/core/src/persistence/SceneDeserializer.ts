@@ -2,8 +2,9 @@
  * SceneDeserializer - Converts JSON data back to SceneState objects.
  *
  * Handles deserialization of:
- * - Vector3 positions and rotations
+ * - Vector3 positions and scales, Euler rotations
  * - Treat metadata
+ * - Waypoints and paths
  * - Scene versioning and migration
  *
  * Includes validation to ensure data integrity.
@@ -11,15 +12,159 @@
  * @module @worldnotes/core/persistence/SceneDeserializer
  */
 
-import type { SceneState, Treat, TreatType, Vector3 } from '../types';
-import type { SerializedSceneState, SerializedVector3, SerializedTreat } from './SceneSerializer';
+import type {
+  Euler,
+  ExtensionFields,
+  SceneState,
+  Treat,
+  TreatMetadata,
+  TreatType,
+  Vector3,
+  Waypoint,
+  WaypointAction,
+  WaypointPath,
+} from '../types';
+import type {
+  SerializedEuler,
+  SerializedSceneState,
+  SerializedVector3,
+  SerializedTreat,
+  SerializedWaypoint,
+  SerializedWaypointPath,
+} from './SceneSerializer';
 import { CURRENT_VERSION } from './SceneSerializer';
+import { SceneValidationError, validateSceneState } from './SceneValidator';
 
 /**
  * Valid treat types for validation
  */
 const VALID_TREAT_TYPES: TreatType[] = ['geomarker', 'bottle', 'custom'];
 
+/**
+ * Valid waypoint action types
+ */
+const VALID_ACTION_TYPES: WaypointAction['type'][] = ['audio', 'text', 'activate'];
+
+/**
+ * Treat properties this build understands; anything else is preserved in
+ * Treat.extensions
+ */
+const KNOWN_TREAT_KEYS = new Set([
+  'id',
+  'type',
+  'glbUrl',
+  'message',
+  'position',
+  'rotation',
+  'scale',
+  'metadata',
+  'createdAt',
+  'updatedAt',
+]);
+
+/**
+ * Treat metadata properties this build understands; anything else is
+ * preserved in TreatMetadata.extensions
+ */
+const KNOWN_METADATA_KEYS = new Set(['behaviorCode', 'objectId']);
+
+/**
+ * Scene properties this build understands; anything else is preserved in
+ * SceneState.extensions
+ */
+const KNOWN_SCENE_KEYS = new Set([
+  'version',
+  'worldUrl',
+  'worldName',
+  'worldFlipY',
+  'startPosition',
+  'startRotation',
+  'thumbnailUrl',
+  'treats',
+  'waypoints',
+  'paths',
+  'createdAt',
+  'updatedAt',
+  'expiresAt',
+  'signature',
+  'editTokenHash',
+]);
+
+/**
+ * Collect properties not in `known` into an extension bag.
+ *
+ * @returns The unrecognized properties, or undefined if there are none
+ */
+function collectExtensions(
+  data: Record<string, unknown>,
+  known: Set<string>
+): ExtensionFields | undefined {
+  const unknownKeys = Object.keys(data).filter((key) => !known.has(key));
+  if (unknownKeys.length === 0) {
+    return undefined;
+  }
+  const extensions: ExtensionFields = {};
+  for (const key of unknownKeys) {
+    extensions[key] = data[key];
+  }
+  return extensions;
+}
+
+/**
+ * Version 1 treat as written by any of the legacy writers:
+ * - @worldnotes/core: top-level `message`, no scale or metadata
+ * - @splat-and-treat/skeleton and viewer.html: `metadata.text`, `scale`
+ */
+export interface LegacySerializedTreat {
+  id: string;
+  type: string;
+  glbUrl: string;
+  message?: string;
+  position: SerializedVector3;
+  rotation: SerializedEuler;
+  scale?: SerializedVector3;
+  metadata?: {
+    text?: string;
+    behaviorCode?: string;
+    objectId?: string;
+  };
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Version 1 scene document in any of the legacy shapes.
+ * viewer.html additionally wrote `worldName`, `startPosition`, `startRotation`,
+ * `thumbnailUrl` and, in early builds, `shouldFlip` instead of `worldFlipY`.
+ */
+export interface LegacySceneDocument {
+  version?: number;
+  worldUrl: string;
+  worldName?: string;
+  worldFlipY?: boolean;
+  shouldFlip?: boolean;
+  startPosition?: SerializedVector3;
+  startRotation?: { x: number; y: number };
+  thumbnailUrl?: string;
+  treats: LegacySerializedTreat[];
+  waypoints?: SerializedWaypoint[];
+  paths?: SerializedWaypointPath[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Options for deserializeScene() and deserializeSceneFromObject().
+ */
+export interface DeserializeOptions {
+  /**
+   * Validate the document with validateSceneState() first and throw a
+   * SceneValidationError if it has errors, instead of coercing bad values
+   * (default: false).
+   */
+  strict?: boolean;
+}
+
 /**
  * Deserialize a plain object to Vector3.
  *
@@ -34,6 +179,24 @@ export function deserializeVector3(data: SerializedVector3): Vector3 {
   };
 }
 
+/**
+ * Deserialize a plain object to Euler.
+ *
+ * @param data - Plain object with x, y, z and optional order properties
+ * @returns Euler object
+ */
+export function deserializeEuler(data: SerializedEuler): Euler {
+  const result: Euler = {
+    x: Number(data.x),
+    y: Number(data.y),
+    z: Number(data.z),
+  };
+  if (data.order !== undefined) {
+    result.order = String(data.order);
+  }
+  return result;
+}
+
 /**
  * Validate and deserialize treat type.
  * Unknown types default to 'custom'.
@@ -49,6 +212,27 @@ function deserializeTreatType(type: string): TreatType {
   return type;
 }
 
+/**
+ * Deserialize treat metadata.
+ *
+ * @param data - Serialized metadata
+ * @returns TreatMetadata object
+ */
+function deserializeTreatMetadata(data: NonNullable<SerializedTreat['metadata']>): TreatMetadata {
+  const result: TreatMetadata = {};
+  if (data.behaviorCode !== undefined) {
+    result.behaviorCode = String(data.behaviorCode);
+  }
+  if (data.objectId !== undefined) {
+    result.objectId = String(data.objectId);
+  }
+  const extensions = collectExtensions(data, KNOWN_METADATA_KEYS);
+  if (extensions !== undefined) {
+    result.extensions = extensions;
+  }
+  return result;
+}
+
 /**
  * Deserialize a plain object to Treat.
  *
@@ -61,13 +245,19 @@ export function deserializeTreat(data: SerializedTreat): Treat {
     type: deserializeTreatType(data.type),
     glbUrl: String(data.glbUrl),
     position: deserializeVector3(data.position),
-    rotation: deserializeVector3(data.rotation),
+    rotation: deserializeEuler(data.rotation),
   };
 
   // Include optional fields only if defined
   if (data.message !== undefined) {
     result.message = String(data.message);
   }
+  if (data.scale !== undefined) {
+    result.scale = deserializeVector3(data.scale);
+  }
+  if (data.metadata !== undefined) {
+    result.metadata = deserializeTreatMetadata(data.metadata);
+  }
   if (data.createdAt !== undefined) {
     result.createdAt = String(data.createdAt);
   }
@@ -75,34 +265,152 @@ export function deserializeTreat(data: SerializedTreat): Treat {
     result.updatedAt = String(data.updatedAt);
   }
 
+  // Keep properties written by newer builds so they survive a re-save
+  const extensions = collectExtensions(data, KNOWN_TREAT_KEYS);
+  if (extensions !== undefined) {
+    result.extensions = extensions;
+  }
+
   return result;
 }
 
+/**
+ * Deserialize waypoint action.
+ * Unknown action types default to 'text'.
+ */
+function deserializeWaypointAction(
+  data: NonNullable<SerializedWaypoint['triggerAction']>
+): WaypointAction {
+  const actionType = VALID_ACTION_TYPES.includes(data.type) ? data.type : 'text';
+  return {
+    type: actionType,
+    payload: String(data.payload),
+  };
+}
+
+/**
+ * Deserialize a plain object to Waypoint.
+ *
+ * @param data - Serialized waypoint data
+ * @returns Waypoint object
+ */
+export function deserializeWaypoint(data: SerializedWaypoint): Waypoint {
+  const result: Waypoint = {
+    id: String(data.id),
+    position: deserializeVector3(data.position),
+  };
+  if (data.pathId !== undefined) {
+    result.pathId = String(data.pathId);
+  }
+  if (data.order !== undefined) {
+    result.order = Number(data.order);
+  }
+  if (data.triggerAction !== undefined) {
+    result.triggerAction = deserializeWaypointAction(data.triggerAction);
+  }
+  return result;
+}
+
+/**
+ * Deserialize a plain object to WaypointPath.
+ *
+ * @param data - Serialized path data
+ * @returns WaypointPath object
+ */
+export function deserializeWaypointPath(data: SerializedWaypointPath): WaypointPath {
+  return {
+    id: String(data.id),
+    name: String(data.name),
+    waypointIds: Array.isArray(data.waypointIds) ? data.waypointIds.map(String) : [],
+  };
+}
+
 /**
  * Deserialize a plain object to SceneState.
  * Useful when you already have the parsed object.
  *
+ * Documents older than CURRENT_VERSION (including legacy skeleton and
+ * viewer.html shapes) are upgraded with migrateScene() first.
+ *
  * @param data - Plain object representation of the scene
+ * @param options - Deserialization options
  * @returns Deserialized SceneState object
  * @throws Error if data is missing required fields
+ * @throws SceneValidationError in strict mode if the document is invalid
  */
-export function deserializeSceneFromObject(data: SerializedSceneState): SceneState {
+export function deserializeSceneFromObject(
+  data: SerializedSceneState | LegacySceneDocument,
+  options: DeserializeOptions = {}
+): SceneState {
+  if (options.strict) {
+    const validation = validateSceneState(data);
+    if (!validation.valid) {
+      throw new SceneValidationError(validation);
+    }
+  }
+
   // Validate required fields
   if (data.worldUrl === undefined || data.worldUrl === null) {
     throw new Error('SceneState missing required field: worldUrl');
   }
 
+  // Documents written before versioning are treated as version 1
+  const version = Number(data.version) || 1;
+  const doc = (
+    version < CURRENT_VERSION ? migrateScene({ ...data, version } as LegacySceneDocument) : data
+  ) as SerializedSceneState;
+
   const result: SceneState = {
-    version: Number(data.version) || CURRENT_VERSION,
-    worldUrl: String(data.worldUrl),
-    treats: Array.isArray(data.treats) ? data.treats.map(deserializeTreat) : [],
-    createdAt: data.createdAt ? String(data.createdAt) : new Date().toISOString(),
-    updatedAt: data.updatedAt ? String(data.updatedAt) : new Date().toISOString(),
+    version: Number(doc.version) || CURRENT_VERSION,
+    worldUrl: String(doc.worldUrl),
+    treats: Array.isArray(doc.treats) ? doc.treats.map(deserializeTreat) : [],
+    createdAt: doc.createdAt ? String(doc.createdAt) : new Date().toISOString(),
+    updatedAt: doc.updatedAt ? String(doc.updatedAt) : new Date().toISOString(),
   };
 
-  // Include worldFlipY only if defined
-  if (data.worldFlipY !== undefined) {
-    result.worldFlipY = Boolean(data.worldFlipY);
+  // Include optional fields only if defined
+  if (doc.worldName !== undefined) {
+    result.worldName = String(doc.worldName);
+  }
+  if (doc.worldFlipY !== undefined) {
+    result.worldFlipY = Boolean(doc.worldFlipY);
+  }
+  if (doc.startPosition !== undefined) {
+    result.startPosition = deserializeVector3(doc.startPosition);
+  }
+  if (doc.startRotation !== undefined) {
+    result.startRotation = {
+      x: Number(doc.startRotation.x),
+      y: Number(doc.startRotation.y),
+    };
+  }
+  if (doc.thumbnailUrl !== undefined) {
+    result.thumbnailUrl = String(doc.thumbnailUrl);
+  }
+  if (Array.isArray(doc.waypoints)) {
+    result.waypoints = doc.waypoints.map(deserializeWaypoint);
+  }
+  if (Array.isArray(doc.paths)) {
+    result.paths = doc.paths.map(deserializeWaypointPath);
+  }
+  if (doc.expiresAt !== undefined) {
+    result.expiresAt = String(doc.expiresAt);
+  }
+  if (doc.signature !== undefined) {
+    result.signature = {
+      alg: String(doc.signature.alg),
+      keyId: String(doc.signature.keyId),
+      value: String(doc.signature.value),
+    };
+  }
+  if (doc.editTokenHash !== undefined) {
+    result.editTokenHash = String(doc.editTokenHash);
+  }
+
+  // Keep properties written by newer builds so they survive a re-save
+  const extensions = collectExtensions(doc, KNOWN_SCENE_KEYS);
+  if (extensions !== undefined) {
+    result.extensions = extensions;
   }
 
   return result;
@@ -112,63 +420,140 @@ export function deserializeSceneFromObject(data: SerializedSceneState): SceneSta
  * Deserialize a JSON string to SceneState.
  *
  * @param json - JSON string representation of the scene
+ * @param options - Deserialization options
  * @returns Deserialized SceneState object
  * @throws Error if JSON is invalid or missing required fields
+ * @throws SceneValidationError in strict mode if the document is invalid
  *
  * @example
- * const json = '{"version":1,"worldUrl":"https://example.com/world.spz",...}';
- * const state = deserializeScene(json);
+ * const json = '{"version":2,"worldUrl":"https://example.com/world.spz",...}';
+ * const state = deserializeScene(json, { strict: true });
  */
-export function deserializeScene(json: string): SceneState {
+export function deserializeScene(json: string, options: DeserializeOptions = {}): SceneState {
   const data = JSON.parse(json) as SerializedSceneState;
-  return deserializeSceneFromObject(data);
+  return deserializeSceneFromObject(data, options);
 }
 
+/**
+ * Upgrade a single legacy treat to the v2 shape.
+ * Moves `metadata.text` to `message` unless a message is already present.
+ */
+function migrateTreatV1ToV2(treat: LegacySerializedTreat): SerializedTreat {
+  const { metadata, ...rest } = treat;
+  const result: SerializedTreat = { ...rest };
+
+  if (result.type === 'message-bottle') {
+    result.type = 'bottle';
+  }
+  if (metadata !== undefined && metadata !== null) {
+    const { text, ...remaining } = metadata;
+    if (result.message === undefined && text !== undefined) {
+      result.message = text;
+    }
+    if (Object.keys(remaining).length > 0) {
+      result.metadata = remaining;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Deserialize a treat from a document of the given version, applying the
+ * treat-level part of each migration first.
+ * @internal Shared with SceneStream, which sees treats one at a time
+ */
+export function deserializeTreatFromVersion(
+  data: SerializedTreat | LegacySerializedTreat,
+  version: number
+): Treat {
+  return deserializeTreat(
+    version < 2 ? migrateTreatV1ToV2(data as LegacySerializedTreat) : (data as SerializedTreat)
+  );
+}
+
+/**
+ * Version 1 -> 2: unify the core, skeleton and viewer.html shapes.
+ * - `shouldFlip` becomes `worldFlipY` (an explicit `worldFlipY` wins)
+ * - `metadata.text` becomes the treat `message`
+ * - The skeleton's `message-bottle` treat type becomes `bottle`
+ * - Empty `waypoints`/`paths` arrays are dropped, non-empty ones are kept
+ */
+function migrateV1ToV2(doc: LegacySceneDocument): LegacySceneDocument {
+  const { shouldFlip, ...rest } = doc;
+  const result: LegacySceneDocument = {
+    ...rest,
+    treats: Array.isArray(doc.treats) ? doc.treats.map(migrateTreatV1ToV2) : [],
+    version: 2,
+  };
+
+  if (result.worldFlipY === undefined && shouldFlip !== undefined) {
+    result.worldFlipY = Boolean(shouldFlip);
+  }
+  if (Array.isArray(result.waypoints) && result.waypoints.length === 0) {
+    delete result.waypoints;
+  }
+  if (Array.isArray(result.paths) && result.paths.length === 0) {
+    delete result.paths;
+  }
+
+  return result;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ */
+const MIGRATIONS: Record<number, (doc: LegacySceneDocument) => LegacySceneDocument> = {
+  1: migrateV1ToV2,
+};
+
 /**
  * Migrate scene state from one version to another.
- * Preserves all treat data during migration.
+ * Accepts current SceneState objects as well as raw legacy documents and
+ * applies each version step in order. Timestamps are preserved, since a
+ * migration is not an edit.
  *
- * @param state - Scene state to migrate
+ * @param state - Scene state or legacy document to migrate
  * @param targetVersion - Target version number (defaults to CURRENT_VERSION)
  * @returns Migrated scene state
  * @throws Error if target version is lower than current version
  *
  * @example
- * const oldState = deserializeScene(json);
- * const migratedState = migrateScene(oldState, CURRENT_VERSION);
+ * const legacy = JSON.parse(json);
+ * const migratedState = migrateScene(legacy, CURRENT_VERSION);
  */
-export function migrateScene(state: SceneState, targetVersion: number = CURRENT_VERSION): SceneState {
+export function migrateScene(
+  state: SceneState | LegacySceneDocument,
+  targetVersion: number = CURRENT_VERSION
+): SceneState {
+  const fromVersion = Number(state.version) || 1;
+
   // Cannot downgrade versions
-  if (targetVersion < state.version) {
+  if (targetVersion < fromVersion) {
     throw new Error(
-      `Cannot migrate scene from version ${state.version} to lower version ${targetVersion}`
+      `Cannot migrate scene from version ${fromVersion} to lower version ${targetVersion}`
     );
   }
 
   // Already at target version
-  if (state.version === targetVersion) {
-    return state;
+  if (fromVersion === targetVersion) {
+    return state as SceneState;
   }
 
   // Clone the state to avoid mutation
-  let migratedState: SceneState = {
+  let migratedState: LegacySceneDocument = {
     ...state,
-    treats: state.treats.map((treat) => ({ ...treat })),
+    treats: Array.isArray(state.treats) ? state.treats.map((treat) => ({ ...treat })) : [],
   };
 
   // Apply migrations sequentially
-  // Version 1 -> 2 migration (placeholder for future)
-  // if (migratedState.version === 1 && targetVersion >= 2) {
-  //   // Apply v1 -> v2 migrations here
-  //   migratedState.version = 2;
-  // }
-
-  // Update version to target
-  migratedState = {
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const migration = MIGRATIONS[version];
+    migratedState = migration ? migration(migratedState) : migratedState;
+  }
+
+  return {
     ...migratedState,
     version: targetVersion,
-    updatedAt: new Date().toISOString(),
-  };
-
-  return migratedState;
+  } as SceneState;
 }
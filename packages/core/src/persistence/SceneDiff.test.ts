@@ -0,0 +1,173 @@
+/**
+ * Unit tests for SceneDiff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffScenes, applyScenePatch } from './SceneDiff';
+import type { SceneState, Treat } from '../types';
+
+function makeTreat(id: string, overrides: Partial<Treat> = {}): Treat {
+  return {
+    id,
+    type: 'bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    ...overrides,
+  };
+}
+
+function makeScene(treats: Treat[], overrides: Partial<SceneState> = {}): SceneState {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    worldFlipY: true,
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('diffScenes', () => {
+  it('should return no operations for identical scenes', () => {
+    const scene = makeScene([makeTreat('a', { message: 'Hi' })]);
+    expect(diffScenes(scene, structuredClone(scene))).toEqual([]);
+  });
+
+  it('should ignore timestamps and version', () => {
+    const a = makeScene([]);
+    const b = makeScene([], { version: 3, updatedAt: '2025-06-01T00:00:00Z' });
+    expect(diffScenes(a, b)).toEqual([]);
+  });
+
+  it('should report added and removed treats', () => {
+    const a = makeScene([makeTreat('a'), makeTreat('b')]);
+    const b = makeScene([makeTreat('b'), makeTreat('c')]);
+
+    expect(diffScenes(a, b)).toEqual([
+      { op: 'treat-removed', id: 'a', treat: makeTreat('a') },
+      { op: 'treat-added', treat: makeTreat('c') },
+    ]);
+  });
+
+  it('should report moved treats outside the tolerance only', () => {
+    const a = makeScene([makeTreat('a'), makeTreat('b')]);
+    const b = makeScene([
+      makeTreat('a', { position: { x: 0.0005, y: 0, z: 0 } }),
+      makeTreat('b', { position: { x: 0.5, y: 0, z: 0 } }),
+    ]);
+
+    const ops = diffScenes(a, b, { tolerance: 0.001 });
+
+    expect(ops).toEqual([
+      {
+        op: 'treat-moved',
+        id: 'b',
+        from: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
+        to: { position: { x: 0.5, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
+      },
+    ]);
+  });
+
+  it('should treat rotation and scale changes as moves', () => {
+    const a = makeScene([makeTreat('a'), makeTreat('b')]);
+    const b = makeScene([
+      makeTreat('a', { rotation: { x: 0, y: Math.PI, z: 0 } }),
+      makeTreat('b', { scale: { x: 2, y: 2, z: 2 } }),
+    ]);
+
+    expect(diffScenes(a, b).map((op) => op.op)).toEqual(['treat-moved', 'treat-moved']);
+  });
+
+  it('should report message changes', () => {
+    const a = makeScene([makeTreat('a', { message: 'Hello' }), makeTreat('b')]);
+    const b = makeScene([makeTreat('a'), makeTreat('b', { message: 'New' })]);
+
+    expect(diffScenes(a, b)).toEqual([
+      { op: 'treat-message-changed', id: 'a', from: 'Hello' },
+      { op: 'treat-message-changed', id: 'b', to: 'New' },
+    ]);
+  });
+
+  it('should report world setting changes', () => {
+    const a = makeScene([]);
+    const b = makeScene([], { worldFlipY: false, startPosition: { x: 0, y: 1, z: 0 } });
+
+    expect(diffScenes(a, b)).toEqual([
+      { op: 'world-setting-changed', key: 'worldFlipY', from: true, to: false },
+      {
+        op: 'world-setting-changed',
+        key: 'startPosition',
+        from: undefined,
+        to: { x: 0, y: 1, z: 0 },
+      },
+    ]);
+  });
+
+  it('should report other treat property changes', () => {
+    const a = makeScene([makeTreat('a', { metadata: { objectId: 'door' } })]);
+    const b = makeScene([makeTreat('a', { glbUrl: 'https://example.com/pin.glb' })]);
+
+    expect(diffScenes(a, b)).toEqual([
+      {
+        op: 'treat-updated',
+        id: 'a',
+        from: { glbUrl: 'https://example.com/bottle.glb', metadata: { objectId: 'door' } },
+        to: { glbUrl: 'https://example.com/pin.glb' },
+      },
+    ]);
+  });
+});
+
+describe('applyScenePatch', () => {
+  it('should reproduce the target scene', () => {
+    const a = makeScene(
+      [
+        makeTreat('a', { message: 'Hello' }),
+        makeTreat('b', { metadata: { objectId: 'door' } }),
+        makeTreat('c'),
+      ],
+      { worldName: 'Old' }
+    );
+    const b = makeScene(
+      [
+        makeTreat('b', { position: { x: 1, y: 2, z: 3 }, scale: { x: 2, y: 2, z: 2 } }),
+        makeTreat('c', { message: 'Added note', extensions: { color: 'red' } }),
+        makeTreat('d'),
+      ],
+      { worldFlipY: false, thumbnailUrl: 'https://example.com/thumb.png' }
+    );
+
+    expect(applyScenePatch(a, diffScenes(a, b))).toEqual(b);
+  });
+
+  it('should not modify the input state', () => {
+    const a = makeScene([makeTreat('a')]);
+    const snapshot = structuredClone(a);
+
+    applyScenePatch(a, [
+      {
+        op: 'treat-moved',
+        id: 'a',
+        from: { position: a.treats[0].position, rotation: a.treats[0].rotation },
+        to: { position: { x: 5, y: 5, z: 5 }, rotation: a.treats[0].rotation },
+      },
+      { op: 'treat-added', treat: makeTreat('b') },
+    ]);
+
+    expect(a).toEqual(snapshot);
+  });
+
+  it('should throw when a treat is missing', () => {
+    expect(() =>
+      applyScenePatch(makeScene([]), [{ op: 'treat-message-changed', id: 'ghost', to: 'Boo' }])
+    ).toThrow('Cannot apply patch: treat "ghost" not found');
+  });
+
+  it('should throw when adding a duplicate id', () => {
+    expect(() =>
+      applyScenePatch(makeScene([makeTreat('a')]), [{ op: 'treat-added', treat: makeTreat('a') }])
+    ).toThrow('Cannot apply patch: treat "a" already exists');
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * SceneDiff - Compute and replay changes between two scene states.
+ *
+ * diffScenes() keys treats on `id` and produces a flat list of operations;
+ * applyScenePatch() replays that list onto a state. Every operation records
+ * both the old and new value, so a patch can be shown to a reviewer
+ * ("what changed since the last share") or reversed later.
+ *
+ * @module @worldnotes/core/persistence/SceneDiff
+ */
+
+import type { SceneState, Treat, Vector3, Euler } from '../types';
+
+/** Default tolerance for transform comparisons (world units / radians) */
+const DEFAULT_TOLERANCE = 1e-6;
+
+/**
+ * Scene-level fields compared as world settings.
+ * Everything except the version, timestamps, signature, edit token hash and treats.
+ */
+export type WorldSettingKey = Exclude<
+  keyof SceneState,
+  'version' | 'treats' | 'createdAt' | 'updatedAt' | 'signature' | 'editTokenHash'
+>;
+
+/** World setting keys in the order diffScenes() reports them */
+export const WORLD_SETTING_KEYS: WorldSettingKey[] = [
+  'worldUrl',
+  'worldName',
+  'worldFlipY',
+  'startPosition',
+  'startRotation',
+  'thumbnailUrl',
+  'expiresAt',
+  'waypoints',
+  'paths',
+  'extensions',
+];
+
+/**
+ * Placement of a treat in the world.
+ */
+export interface TreatTransform {
+  position: Vector3;
+  rotation: Euler;
+  scale?: Vector3;
+}
+
+/**
+ * Treat properties other than transform and message, compared as a group.
+ */
+export type TreatProperties = Partial<Pick<Treat, 'type' | 'glbUrl' | 'metadata' | 'extensions'>>;
+
+/**
+ * A single change between two scene states.
+ */
+export type SceneOperation =
+  | { op: 'treat-added'; treat: Treat }
+  | { op: 'treat-removed'; id: string; treat: Treat }
+  | { op: 'treat-moved'; id: string; from: TreatTransform; to: TreatTransform }
+  | { op: 'treat-message-changed'; id: string; from?: string; to?: string }
+  | { op: 'treat-updated'; id: string; from: TreatProperties; to: TreatProperties }
+  | { op: 'world-setting-changed'; key: WorldSettingKey; from: unknown; to: unknown };
+
+/**
+ * Options for diffScenes().
+ */
+export interface DiffOptions {
+  /**
+   * Maximum per-component difference in position, rotation and scale that
+   * still counts as unchanged (default: 1e-6)
+   */
+  tolerance?: number;
+}
+
+/**
+ * Compute the operations that turn scene `a` into scene `b`.
+ *
+ * World settings come first, then removed treats, then added and changed
+ * treats in the order they appear in `b`. Identical scenes produce an
+ * empty list.
+ *
+ * @param a - Base scene (e.g. the last shared version)
+ * @param b - Updated scene
+ * @param options - Comparison options
+ * @returns Operations to replay with applyScenePatch()
+ *
+ * @example
+ * const ops = diffScenes(lastShared, current, { tolerance: 0.001 });
+ * const moved = ops.filter((op) => op.op === 'treat-moved');
+ */
+export function diffScenes(
+  a: SceneState,
+  b: SceneState,
+  options: DiffOptions = {}
+): SceneOperation[] {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const ops: SceneOperation[] = [];
+
+  for (const key of WORLD_SETTING_KEYS) {
+    if (!isEqual(a[key], b[key])) {
+      ops.push({ op: 'world-setting-changed', key, from: clone(a[key]), to: clone(b[key]) });
+    }
+  }
+
+  const before = new Map(a.treats.map((treat) => [treat.id, treat]));
+  const afterIds = new Set(b.treats.map((treat) => treat.id));
+
+  for (const treat of a.treats) {
+    if (!afterIds.has(treat.id)) {
+      ops.push({ op: 'treat-removed', id: treat.id, treat: clone(treat) });
+    }
+  }
+
+  for (const treat of b.treats) {
+    const previous = before.get(treat.id);
+    if (!previous) {
+      ops.push({ op: 'treat-added', treat: clone(treat) });
+      continue;
+    }
+    ops.push(...diffTreat(previous, treat, tolerance));
+  }
+
+  return ops;
+}
+
+/**
+ * Replay operations onto a scene state. The input is not modified.
+ * Timestamps are left as they are; callers that persist the result
+ * should set `updatedAt` themselves.
+ *
+ * @param state - Scene to patch
+ * @param ops - Operations from diffScenes()
+ * @returns New SceneState with the operations applied
+ * @throws Error if an operation references a missing treat or adds a duplicate id
+ *
+ * @example
+ * const ops = diffScenes(a, b);
+ * const patched = applyScenePatch(a, ops); // equivalent to b
+ */
+export function applyScenePatch(state: SceneState, ops: SceneOperation[]): SceneState {
+  const result = clone(state);
+
+  for (const op of ops) {
+    switch (op.op) {
+      case 'world-setting-changed':
+        setOptional(result as unknown as Record<string, unknown>, op.key, clone(op.to));
+        break;
+
+      case 'treat-added':
+        if (result.treats.some((treat) => treat.id === op.treat.id)) {
+          throw new Error(`Cannot apply patch: treat "${op.treat.id}" already exists`);
+        }
+        result.treats.push(clone(op.treat));
+        break;
+
+      case 'treat-removed':
+        findTreat(result, op.id);
+        result.treats = result.treats.filter((treat) => treat.id !== op.id);
+        break;
+
+      case 'treat-moved': {
+        const treat = findTreat(result, op.id);
+        treat.position = clone(op.to.position);
+        treat.rotation = clone(op.to.rotation);
+        setOptional(treat as unknown as Record<string, unknown>, 'scale', clone(op.to.scale));
+        break;
+      }
+
+      case 'treat-message-changed':
+        setOptional(
+          findTreat(result, op.id) as unknown as Record<string, unknown>,
+          'message',
+          op.to
+        );
+        break;
+
+      case 'treat-updated': {
+        const treat = findTreat(result, op.id) as unknown as Record<string, unknown>;
+        for (const [key, value] of Object.entries(op.to)) {
+          setOptional(treat, key, clone(value));
+        }
+        // Keys present only in `from` were removed
+        for (const key of Object.keys(op.from)) {
+          if (!(key in op.to)) {
+            delete treat[key];
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare two versions of the same treat.
+ */
+function diffTreat(a: Treat, b: Treat, tolerance: number): SceneOperation[] {
+  const ops: SceneOperation[] = [];
+
+  if (
+    !vectorsClose(a.position, b.position, tolerance) ||
+    !vectorsClose(a.rotation, b.rotation, tolerance) ||
+    a.rotation.order !== b.rotation.order ||
+    !scalesClose(a.scale, b.scale, tolerance)
+  ) {
+    ops.push({ op: 'treat-moved', id: b.id, from: transformOf(a), to: transformOf(b) });
+  }
+
+  if (a.message !== b.message) {
+    const op: SceneOperation = { op: 'treat-message-changed', id: b.id };
+    if (a.message !== undefined) op.from = a.message;
+    if (b.message !== undefined) op.to = b.message;
+    ops.push(op);
+  }
+
+  const from: Record<string, unknown> = {};
+  const to: Record<string, unknown> = {};
+  for (const key of ['type', 'glbUrl', 'metadata', 'extensions'] as const) {
+    if (!isEqual(a[key], b[key])) {
+      setOptional(from, key, clone(a[key]));
+      setOptional(to, key, clone(b[key]));
+    }
+  }
+  if (Object.keys(from).length > 0 || Object.keys(to).length > 0) {
+    ops.push({
+      op: 'treat-updated',
+      id: b.id,
+      from: from as TreatProperties,
+      to: to as TreatProperties,
+    });
+  }
+
+  return ops;
+}
+
+function transformOf(treat: Treat): TreatTransform {
+  const transform: TreatTransform = {
+    position: clone(treat.position),
+    rotation: clone(treat.rotation),
+  };
+  if (treat.scale) {
+    transform.scale = clone(treat.scale);
+  }
+  return transform;
+}
+
+/** @internal Shared with SceneMerge */
+export function vectorsClose(a: Vector3, b: Vector3, tolerance: number): boolean {
+  return (
+    Math.abs(a.x - b.x) <= tolerance &&
+    Math.abs(a.y - b.y) <= tolerance &&
+    Math.abs(a.z - b.z) <= tolerance
+  );
+}
+
+function scalesClose(a: Vector3 | undefined, b: Vector3 | undefined, tolerance: number): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return vectorsClose(a, b, tolerance);
+}
+
+function findTreat(state: SceneState, id: string): Treat {
+  const treat = state.treats.find((t) => t.id === id);
+  if (!treat) {
+    throw new Error(`Cannot apply patch: treat "${id}" not found`);
+  }
+  return treat;
+}
+
+/**
+ * Set a property, or delete it when the value is undefined, so optional
+ * fields stay absent rather than present-but-undefined.
+ *
+ * @internal Shared with SceneMerge
+ */
+export function setOptional(target: Record<string, unknown>, key: string, value: unknown): void {
+  if (value === undefined) {
+    delete target[key];
+  } else {
+    target[key] = value;
+  }
+}
+
+/**
+ * Structural equality for JSON-compatible values.
+ *
+ * @internal Shared with SceneMerge
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord).filter((key) => aRecord[key] !== undefined);
+  const bKeys = Object.keys(bRecord).filter((key) => bRecord[key] !== undefined);
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+  return aKeys.every((key) => isEqual(aRecord[key], bRecord[key]));
+}
+
+/** @internal Shared with SceneMerge */
+export function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
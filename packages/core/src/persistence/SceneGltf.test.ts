@@ -0,0 +1,195 @@
+/**
+ * Unit tests for glTF export and import
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportSceneToGltf,
+  exportSceneToGlb,
+  importSceneFromGltf,
+  importSceneFromGlb,
+  type GltfDocument,
+} from './SceneGltf';
+import type { SceneState, Treat } from '../types';
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    worldName: 'Workshop',
+    worldFlipY: true,
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-02T00:00:00Z',
+  };
+}
+
+const bottle: Treat = {
+  id: 'treat-1',
+  type: 'bottle',
+  glbUrl: 'https://example.com/bottle.glb',
+  message: 'Hello',
+  position: { x: 1, y: 2, z: 3 },
+  rotation: { x: 0.3, y: -1.2, z: 0.5, order: 'YXZ' },
+  scale: { x: 2, y: 2, z: 2 },
+  metadata: { objectId: 'door-1' },
+};
+
+function expectTreatClose(actual: Treat, expected: Treat): void {
+  for (const axis of ['x', 'y', 'z'] as const) {
+    expect(actual.position[axis]).toBeCloseTo(expected.position[axis], 6);
+    expect(actual.rotation[axis]).toBeCloseTo(expected.rotation[axis], 6);
+    expect(actual.scale?.[axis]).toBeCloseTo(expected.scale?.[axis] ?? 1, 6);
+  }
+}
+
+describe('exportSceneToGltf', () => {
+  it('should write one node per treat with extras', () => {
+    const gltf = exportSceneToGltf(makeScene([bottle]));
+
+    expect(gltf.asset.version).toBe('2.0');
+    expect(gltf.scenes?.[0].nodes).toEqual([0]);
+    expect(gltf.scenes?.[0].extras?.worldUrl).toBe('https://example.com/world.spz');
+
+    const [node] = gltf.nodes ?? [];
+    expect(node.translation).toEqual([1, 2, 3]);
+    expect(node.scale).toEqual([2, 2, 2]);
+    expect(node.rotation).toHaveLength(4);
+    expect(node.extras).toEqual({
+      id: 'treat-1',
+      type: 'bottle',
+      glbUrl: 'https://example.com/bottle.glb',
+      message: 'Hello',
+      metadata: { objectId: 'door-1' },
+      rotationOrder: 'YXZ',
+    });
+  });
+
+  it('should write unit quaternions', () => {
+    const rotation = exportSceneToGltf(makeScene([bottle])).nodes?.[0].rotation;
+    expect(rotation).toBeDefined();
+    expect(Math.hypot(...rotation!)).toBeCloseTo(1, 10);
+  });
+});
+
+describe('importSceneFromGltf', () => {
+  it('should round-trip an exported scene', () => {
+    const original = makeScene([bottle]);
+
+    const imported = importSceneFromGltf(exportSceneToGltf(original));
+
+    expect(imported.worldUrl).toBe(original.worldUrl);
+    expect(imported.worldName).toBe('Workshop');
+    expect(imported.createdAt).toBe(original.createdAt);
+    expect(imported.treats).toHaveLength(1);
+    expect(imported.treats[0]).toMatchObject({
+      id: 'treat-1',
+      type: 'bottle',
+      glbUrl: 'https://example.com/bottle.glb',
+      message: 'Hello',
+      metadata: { objectId: 'door-1' },
+    });
+    expect(imported.treats[0].rotation.order).toBe('YXZ');
+    expectTreatClose(imported.treats[0], bottle);
+  });
+
+  it('should round-trip every Euler order', () => {
+    for (const order of ['XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY']) {
+      const treat = { ...bottle, rotation: { x: 0.4, y: 0.7, z: -0.2, order } };
+      const [imported] = importSceneFromGltf(exportSceneToGltf(makeScene([treat]))).treats;
+      expectTreatClose(imported, treat);
+    }
+  });
+
+  it('should compose parent transforms for nested nodes', () => {
+    const gltf: GltfDocument = {
+      asset: { version: '2.0' },
+      scenes: [{ nodes: [0] }],
+      nodes: [
+        {
+          name: 'Shelf',
+          translation: [10, 0, 0],
+          // 90 degrees about Y
+          rotation: [0, Math.SQRT1_2, 0, Math.SQRT1_2],
+          children: [1],
+        },
+        { name: 'Pin', translation: [1, 0, 0], extras: { glbUrl: 'https://example.com/pin.glb' } },
+      ],
+    };
+
+    const { treats } = importSceneFromGltf(gltf, { worldUrl: 'https://example.com/w.spz' });
+
+    expect(treats).toHaveLength(1);
+    expect(treats[0].id).toBe('Pin');
+    expect(treats[0].type).toBe('custom');
+    expect(treats[0].position.x).toBeCloseTo(10, 6);
+    expect(treats[0].position.z).toBeCloseTo(-1, 6);
+    expect(treats[0].rotation.y).toBeCloseTo(Math.PI / 2, 6);
+  });
+
+  it('should resolve model URLs for plain nodes and skip groups', () => {
+    const gltf: GltfDocument = {
+      asset: { version: '2.0' },
+      nodes: [
+        { name: 'Props', children: [1, 2] },
+        { name: 'geomarker', translation: [0, 1, 0] },
+        { name: 'Camera' },
+      ],
+    };
+
+    const { treats } = importSceneFromGltf(gltf, {
+      resolveGlbUrl: (node) =>
+        node.name === 'geomarker' ? 'https://example.com/geomarker.glb' : undefined,
+    });
+
+    expect(treats.map((t) => [t.id, t.glbUrl])).toEqual([
+      ['geomarker', 'https://example.com/geomarker.glb'],
+    ]);
+  });
+
+  it('should give duplicated nodes unique ids', () => {
+    const extras = { id: 'treat-1', glbUrl: 'https://example.com/pin.glb' };
+    const gltf: GltfDocument = {
+      asset: { version: '2.0' },
+      nodes: [{ extras }, { extras }],
+    };
+
+    const ids = importSceneFromGltf(gltf).treats.map((t) => t.id);
+
+    expect(ids).toEqual(['treat-1', 'treat-1-2']);
+  });
+
+  it('should keep unknown extras as treat extensions', () => {
+    const gltf: GltfDocument = {
+      asset: { version: '2.0' },
+      nodes: [{ extras: { glbUrl: 'https://example.com/pin.glb', artist: 'Sam' } }],
+    };
+
+    expect(importSceneFromGltf(gltf).treats[0].extensions).toEqual({ artist: 'Sam' });
+  });
+
+  it('should reject non-2.0 documents', () => {
+    expect(() => importSceneFromGltf({ asset: { version: '1.0' } })).toThrow(
+      'Unsupported glTF version: 1.0'
+    );
+  });
+});
+
+describe('GLB', () => {
+  it('should round-trip through a GLB container', () => {
+    const bytes = exportSceneToGlb(makeScene([bottle]));
+
+    expect(bytes.byteLength % 4).toBe(0);
+    expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('glTF');
+
+    const imported = importSceneFromGlb(bytes);
+    expect(imported.treats[0].message).toBe('Hello');
+    expectTreatClose(imported.treats[0], bottle);
+  });
+
+  it('should reject data without a glTF header', () => {
+    expect(() => importSceneFromGlb(new Uint8Array(32))).toThrow(
+      'Invalid GLB: missing glTF header'
+    );
+  });
+});
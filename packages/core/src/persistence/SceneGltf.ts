@@ -0,0 +1,436 @@
+/**
+ * SceneGltf - Export scenes to glTF 2.0 and import glTF node layouts as treats.
+ *
+ * Export writes one node per treat with its translation, rotation (as a
+ * quaternion) and scale. glTF has no standard way to reference an external
+ * model from a node, so the model URL travels in the node's `extras`
+ * together with the message and metadata; Blender shows `extras` as custom
+ * properties and writes them back on export. Scene-level fields go in the
+ * glTF scene's `extras`.
+ *
+ * Import walks the node hierarchy, composing parent transforms, and turns
+ * every node that has a model URL into a treat. Nodes without one are
+ * treated as groups and searched for treats.
+ *
+ * @module @worldnotes/core/persistence/SceneGltf
+ */
+
+import type { SceneState, Vector3, Euler } from '../types';
+import {
+  serializeSceneToObject,
+  CURRENT_VERSION,
+  type SerializedSceneState,
+  type SerializedTreat,
+} from './SceneSerializer';
+import { deserializeSceneFromObject, type DeserializeOptions } from './SceneDeserializer';
+
+/** GLB container magic ("glTF") */
+const GLB_MAGIC = 0x46546c67;
+
+/** GLB chunk type for the JSON document ("JSON") */
+const GLB_CHUNK_JSON = 0x4e4f534a;
+
+/** Euler orders understood by the rotation conversions */
+const EULER_ORDERS = ['XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY'];
+
+/**
+ * A glTF node (only the properties this module reads or writes are typed).
+ */
+export interface GltfNode {
+  name?: string;
+  children?: number[];
+  translation?: [number, number, number];
+  /** Unit quaternion [x, y, z, w] */
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+  /** Column-major 4x4 matrix, used instead of translation/rotation/scale */
+  matrix?: number[];
+  extras?: Record<string, unknown>;
+  [property: string]: unknown;
+}
+
+/**
+ * A glTF 2.0 document (only the properties this module reads or writes are typed).
+ */
+export interface GltfDocument {
+  asset: { version: string; generator?: string; [property: string]: unknown };
+  scene?: number;
+  scenes?: Array<{ name?: string; nodes?: number[]; extras?: Record<string, unknown> }>;
+  nodes?: GltfNode[];
+  [property: string]: unknown;
+}
+
+/**
+ * Options for importSceneFromGltf().
+ */
+export interface GltfImportOptions extends DeserializeOptions {
+  /**
+   * World URL for the imported scene.
+   * Overrides the one stored in the scene extras (default: stored value or '').
+   */
+  worldUrl?: string;
+  /**
+   * Model URL for nodes without an `extras.glbUrl`, e.g. by looking up the
+   * node name in a prop library. Return undefined to treat the node as a group.
+   */
+  resolveGlbUrl?: (node: GltfNode) => string | undefined;
+}
+
+type Quaternion = [number, number, number, number];
+type Matrix4 = number[];
+
+/**
+ * Export a scene as a glTF 2.0 document.
+ *
+ * @param state - Scene to export
+ * @returns glTF JSON document with one node per treat
+ *
+ * @example
+ * const gltf = exportSceneToGltf(state);
+ * download(JSON.stringify(gltf), 'scene.gltf');
+ */
+export function exportSceneToGltf(state: SceneState): GltfDocument {
+  const { treats, ...sceneFields } = serializeSceneToObject(state);
+
+  const nodes: GltfNode[] = treats.map((treat) => {
+    const { position, rotation, scale, ...fields } = treat;
+    const node: GltfNode = {
+      name: treat.id,
+      translation: [position.x, position.y, position.z],
+      rotation: eulerToQuaternion(rotation),
+    };
+    if (scale) {
+      node.scale = [scale.x, scale.y, scale.z];
+    }
+    node.extras = { ...fields };
+    if (rotation.order !== undefined) {
+      node.extras.rotationOrder = rotation.order;
+    }
+    return node;
+  });
+
+  return {
+    asset: { version: '2.0', generator: 'WorldNotes' },
+    scene: 0,
+    scenes: [
+      {
+        name: state.worldName || 'WorldNotes scene',
+        nodes: nodes.map((_, index) => index),
+        extras: { ...sceneFields },
+      },
+    ],
+    nodes,
+  };
+}
+
+/**
+ * Export a scene as a binary glTF (.glb) file.
+ *
+ * @param state - Scene to export
+ * @returns GLB bytes containing the exportSceneToGltf() document
+ */
+export function exportSceneToGlb(state: SceneState): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(exportSceneToGltf(state)));
+  // Chunks are 4-byte aligned; the JSON chunk is padded with spaces
+  const paddedLength = Math.ceil(json.length / 4) * 4;
+  const totalLength = 12 + 8 + paddedLength;
+
+  const bytes = new Uint8Array(totalLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+  view.setUint32(12, paddedLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  bytes.set(json, 20);
+  bytes.fill(0x20, 20 + json.length);
+
+  return bytes;
+}
+
+/**
+ * Import treats from a glTF document.
+ *
+ * Each node with a model URL (`extras.glbUrl`, or options.resolveGlbUrl())
+ * becomes a treat placed at the node's world transform. Other `extras` keys
+ * written by exportSceneToGltf() (id, type, message, metadata, ...) are
+ * restored; unknown ones are kept as treat extensions. Duplicate ids, e.g.
+ * from objects duplicated in Blender, get a numeric suffix.
+ *
+ * @param gltf - Parsed glTF JSON document
+ * @param options - Import and deserialization options
+ * @returns Imported SceneState
+ * @throws Error if the document is not glTF 2.0
+ *
+ * @example
+ * const gltf = JSON.parse(await file.text());
+ * const state = importSceneFromGltf(gltf, { worldUrl: currentWorldUrl });
+ */
+export function importSceneFromGltf(
+  gltf: GltfDocument,
+  options: GltfImportOptions = {}
+): SceneState {
+  if (!gltf?.asset || !String(gltf.asset.version).startsWith('2.')) {
+    throw new Error(`Unsupported glTF version: ${gltf?.asset?.version}`);
+  }
+
+  const nodes = gltf.nodes ?? [];
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  const rootIndices =
+    scene?.nodes ?? nodes.map((_, index) => index).filter((index) => !isChild(nodes, index));
+
+  const treats: SerializedTreat[] = [];
+  const usedIds = new Set<string>();
+  const visited = new Set<number>();
+
+  const visit = (index: number, parentMatrix: Matrix4): void => {
+    const node = nodes[index];
+    if (!node || visited.has(index)) {
+      return;
+    }
+    visited.add(index);
+
+    const worldMatrix = multiplyMatrices(parentMatrix, nodeMatrix(node));
+    const extras = node.extras ?? {};
+    const glbUrl =
+      typeof extras.glbUrl === 'string' ? extras.glbUrl : options.resolveGlbUrl?.(node);
+
+    if (glbUrl === undefined) {
+      node.children?.forEach((child) => visit(child, worldMatrix));
+      return;
+    }
+
+    const { rotationOrder, ...fields } = extras;
+    const order = EULER_ORDERS.includes(String(rotationOrder)) ? String(rotationOrder) : 'XYZ';
+    const { position, rotation, scale } = decomposeMatrix(worldMatrix, order);
+
+    treats.push({
+      ...fields,
+      id: uniqueId(String(extras.id ?? node.name ?? `treat-${index}`), usedIds),
+      type: typeof extras.type === 'string' ? extras.type : 'custom',
+      glbUrl,
+      position,
+      rotation: rotationOrder !== undefined ? { ...rotation, order } : rotation,
+      scale,
+    });
+  };
+
+  rootIndices.forEach((index) => visit(index, identityMatrix()));
+
+  const now = new Date().toISOString();
+  const sceneFields = (scene?.extras ?? {}) as Partial<SerializedSceneState>;
+
+  return deserializeSceneFromObject(
+    {
+      createdAt: now,
+      updatedAt: now,
+      ...sceneFields,
+      version: typeof sceneFields.version === 'number' ? sceneFields.version : CURRENT_VERSION,
+      worldUrl:
+        options.worldUrl ?? (typeof sceneFields.worldUrl === 'string' ? sceneFields.worldUrl : ''),
+      treats,
+    } as SerializedSceneState,
+    options
+  );
+}
+
+/**
+ * Import treats from a binary glTF (.glb) file.
+ * Only the JSON chunk is read; embedded meshes are ignored.
+ *
+ * @param bytes - GLB file contents
+ * @param options - Import and deserialization options
+ * @returns Imported SceneState
+ * @throws Error if the data is not a GLB file
+ */
+export function importSceneFromGlb(bytes: Uint8Array, options: GltfImportOptions = {}): SceneState {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Invalid GLB: missing glTF header');
+  }
+
+  const chunkLength = view.getUint32(12, true);
+  if (view.getUint32(16, true) !== GLB_CHUNK_JSON || 20 + chunkLength > bytes.byteLength) {
+    throw new Error('Invalid GLB: missing JSON chunk');
+  }
+
+  const json = new TextDecoder().decode(bytes.subarray(20, 20 + chunkLength));
+  return importSceneFromGltf(JSON.parse(json) as GltfDocument, options);
+}
+
+function isChild(nodes: GltfNode[], index: number): boolean {
+  return nodes.some((node) => node.children?.includes(index));
+}
+
+function uniqueId(id: string, usedIds: Set<string>): string {
+  let candidate = id;
+  for (let suffix = 2; usedIds.has(candidate); suffix++) {
+    candidate = `${id}-${suffix}`;
+  }
+  usedIds.add(candidate);
+  return candidate;
+}
+
+// ============================================================================
+// Rotation and matrix math (three.js conventions, column-major matrices)
+// ============================================================================
+
+/**
+ * Convert an Euler rotation to a unit quaternion [x, y, z, w].
+ */
+function eulerToQuaternion(euler: Euler): Quaternion {
+  const c1 = Math.cos(euler.x / 2);
+  const c2 = Math.cos(euler.y / 2);
+  const c3 = Math.cos(euler.z / 2);
+  const s1 = Math.sin(euler.x / 2);
+  const s2 = Math.sin(euler.y / 2);
+  const s3 = Math.sin(euler.z / 2);
+
+  // Sign pattern per order for the [x, y, z, w] components
+  const signs: Record<string, [number, number, number, number]> = {
+    XYZ: [1, -1, 1, -1],
+    YXZ: [1, -1, -1, 1],
+    ZXY: [-1, 1, 1, -1],
+    ZYX: [-1, 1, -1, 1],
+    YZX: [1, 1, -1, -1],
+    XZY: [-1, -1, 1, 1],
+  };
+  const [sx, sy, sz, sw] = signs[euler.order ?? 'XYZ'] ?? signs.XYZ;
+
+  return [
+    s1 * c2 * c3 + sx * c1 * s2 * s3,
+    c1 * s2 * c3 + sy * s1 * c2 * s3,
+    c1 * c2 * s3 + sz * s1 * s2 * c3,
+    c1 * c2 * c3 + sw * s1 * s2 * s3,
+  ];
+}
+
+/**
+ * Convert a pure rotation matrix to Euler angles in the given order.
+ */
+function rotationMatrixToEuler(m: Matrix4, order: string): Euler {
+  const [m11, m21, m31, , m12, m22, m32, , m13, m23, m33] = m;
+  const clamp = (value: number): number => Math.min(1, Math.max(-1, value));
+  const gimbal = (value: number): boolean => Math.abs(value) >= 0.9999999;
+
+  switch (order) {
+    case 'YXZ': {
+      const x = Math.asin(-clamp(m23));
+      return gimbal(m23)
+        ? { x, y: Math.atan2(-m31, m11), z: 0 }
+        : { x, y: Math.atan2(m13, m33), z: Math.atan2(m21, m22) };
+    }
+    case 'ZXY': {
+      const x = Math.asin(clamp(m32));
+      return gimbal(m32)
+        ? { x, y: 0, z: Math.atan2(m21, m11) }
+        : { x, y: Math.atan2(-m31, m33), z: Math.atan2(-m12, m22) };
+    }
+    case 'ZYX': {
+      const y = Math.asin(-clamp(m31));
+      return gimbal(m31)
+        ? { x: 0, y, z: Math.atan2(-m12, m22) }
+        : { x: Math.atan2(m32, m33), y, z: Math.atan2(m21, m11) };
+    }
+    case 'YZX': {
+      const z = Math.asin(clamp(m21));
+      return gimbal(m21)
+        ? { x: 0, y: Math.atan2(m13, m33), z }
+        : { x: Math.atan2(-m23, m22), y: Math.atan2(-m31, m11), z };
+    }
+    case 'XZY': {
+      const z = Math.asin(-clamp(m12));
+      return gimbal(m12)
+        ? { x: Math.atan2(-m23, m33), y: 0, z }
+        : { x: Math.atan2(m32, m22), y: Math.atan2(m13, m11), z };
+    }
+    default: {
+      const y = Math.asin(clamp(m13));
+      return gimbal(m13)
+        ? { x: Math.atan2(m32, m22), y, z: 0 }
+        : { x: Math.atan2(-m23, m33), y, z: Math.atan2(-m12, m11) };
+    }
+  }
+}
+
+function identityMatrix(): Matrix4 {
+  return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+}
+
+/**
+ * Local transform of a node as a matrix.
+ */
+function nodeMatrix(node: GltfNode): Matrix4 {
+  if (node.matrix && node.matrix.length === 16) {
+    return [...node.matrix];
+  }
+
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+
+  return [
+    (1 - 2 * (y * y + z * z)) * sx,
+    2 * (x * y + z * w) * sx,
+    2 * (x * z - y * w) * sx,
+    0,
+    2 * (x * y - z * w) * sy,
+    (1 - 2 * (x * x + z * z)) * sy,
+    2 * (y * z + x * w) * sy,
+    0,
+    2 * (x * z + y * w) * sz,
+    2 * (y * z - x * w) * sz,
+    (1 - 2 * (x * x + y * y)) * sz,
+    0,
+    tx,
+    ty,
+    tz,
+    1,
+  ];
+}
+
+function multiplyMatrices(a: Matrix4, b: Matrix4): Matrix4 {
+  const result = new Array<number>(16).fill(0);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) {
+        result[column * 4 + row] += a[k * 4 + row] * b[column * 4 + k];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a transform matrix into position, Euler rotation and scale.
+ */
+function decomposeMatrix(
+  m: Matrix4,
+  order: string
+): { position: Vector3; rotation: Euler; scale: Vector3 } {
+  let sx = Math.hypot(m[0], m[1], m[2]);
+  const sy = Math.hypot(m[4], m[5], m[6]);
+  const sz = Math.hypot(m[8], m[9], m[10]);
+
+  // A negative determinant means a mirrored axis; fold it into x
+  const determinant =
+    m[0] * (m[5] * m[10] - m[6] * m[9]) -
+    m[4] * (m[1] * m[10] - m[2] * m[9]) +
+    m[8] * (m[1] * m[6] - m[2] * m[5]);
+  if (determinant < 0) {
+    sx = -sx;
+  }
+
+  const rotationMatrix = [...m];
+  for (let i = 0; i < 3; i++) {
+    rotationMatrix[i] /= sx || 1;
+    rotationMatrix[4 + i] /= sy || 1;
+    rotationMatrix[8 + i] /= sz || 1;
+  }
+
+  return {
+    position: { x: m[12], y: m[13], z: m[14] },
+    rotation: rotationMatrixToEuler(rotationMatrix, order),
+    scale: { x: sx, y: sy, z: sz },
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for SceneHash
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { canonicalizeScene, hashScene } from './SceneHash';
+import type { SceneState, Treat } from '../types';
+
+function makeTreat(id: string, x = 0): Treat {
+  return {
+    id,
+    type: 'bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    position: { x, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+  };
+}
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  };
+}
+
+describe('canonicalizeScene', () => {
+  it('should sort keys and treats and omit scene timestamps', () => {
+    const scene = makeScene([makeTreat('b', 1), makeTreat('a')]);
+
+    expect(canonicalizeScene(scene)).toBe(
+      '{"treats":[' +
+        '{"glbUrl":"https://example.com/bottle.glb","id":"a","position":{"x":0,"y":0,"z":0},"rotation":{"x":0,"y":0,"z":0},"type":"bottle"},' +
+        '{"glbUrl":"https://example.com/bottle.glb","id":"b","position":{"x":1,"y":0,"z":0},"rotation":{"x":0,"y":0,"z":0},"type":"bottle"}' +
+        '],"version":2,"worldUrl":"https://example.com/world.spz"}'
+    );
+  });
+
+  it('should ignore treat order, float noise and save times', () => {
+    const a = makeScene([makeTreat('a', 0.1 + 0.2), makeTreat('b', -0)]);
+    const b = {
+      ...makeScene([makeTreat('b', 0), makeTreat('a', 0.3)]),
+      updatedAt: '2025-06-01T00:00:00Z',
+    };
+
+    expect(canonicalizeScene(a)).toBe(canonicalizeScene(b));
+  });
+
+  it('should ignore who may edit the scene', () => {
+    const scene = makeScene([makeTreat('a')]);
+
+    expect(canonicalizeScene({ ...scene, editTokenHash: 'abc' })).toBe(canonicalizeScene(scene));
+  });
+
+  it('should differ when content changes', () => {
+    const a = makeScene([makeTreat('a')]);
+    const b = makeScene([{ ...makeTreat('a'), message: 'Hi' }]);
+
+    expect(canonicalizeScene(a)).not.toBe(canonicalizeScene(b));
+  });
+});
+
+describe('hashScene', () => {
+  it('should return the SHA-256 of the canonical form', async () => {
+    const scene = makeScene([makeTreat('a')]);
+    const expected = createHash('sha256').update(canonicalizeScene(scene)).digest('hex');
+
+    expect(await hashScene(scene)).toBe(expected);
+  });
+
+  it('should be stable across equivalent scenes', async () => {
+    const a = makeScene([makeTreat('a'), makeTreat('b')]);
+    const b = makeScene([makeTreat('b'), makeTreat('a')]);
+
+    expect(await hashScene(a)).toBe(await hashScene(b));
+    expect(await hashScene(a)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
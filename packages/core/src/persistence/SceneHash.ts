@@ -0,0 +1,113 @@
+/**
+ * SceneHash - Canonical form and content hash of a scene.
+ *
+ * Two scenes with the same content produce the same canonical string and
+ * hash regardless of key order, treat order, float noise or when they were
+ * saved. Used to skip re-uploading unchanged scenes and to detect that a
+ * shared scene changed after its link was created.
+ *
+ * The canonical form is built from the serialized document, so the vanilla
+ * JS mirror in viewer.html hashes raw scene JSON to the same value.
+ *
+ * @module @worldnotes/core/persistence/SceneHash
+ */
+
+import type { SceneState } from '../types';
+import { serializeSceneToObject } from './SceneSerializer';
+
+/** Decimal places kept for numbers in the canonical form */
+const CANONICAL_DECIMALS = 6;
+
+/**
+ * Top-level fields left out of the canonical form: timestamps change on
+ * every save, the signature is computed over the canonical form itself, and
+ * the edit token hash controls who may save rather than what the scene holds
+ */
+const EXCLUDED_SCENE_KEYS = ['createdAt', 'updatedAt', 'signature', 'editTokenHash'];
+
+/**
+ * Produce the canonical JSON string for a scene.
+ *
+ * - Object keys sorted lexicographically at every level
+ * - Numbers rounded to 6 decimal places (and -0 written as 0)
+ * - Treats sorted by id
+ * - Scene `createdAt`/`updatedAt` omitted, so re-saving identical
+ *   content yields the same string
+ * - Scene `signature` omitted, so it can sign this string
+ * - Scene `editTokenHash` omitted, so protecting a scene doesn't change its hash
+ *
+ * @param state - Scene to canonicalize
+ * @returns Canonical JSON string
+ *
+ * @example
+ * canonicalizeScene(a) === canonicalizeScene(b); // same content?
+ */
+export function canonicalizeScene(state: SceneState): string {
+  const { treats, ...fields } = serializeSceneToObject(state);
+  const document: Record<string, unknown> = { ...fields };
+  for (const key of EXCLUDED_SCENE_KEYS) {
+    delete document[key];
+  }
+  document.treats = [...treats].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  return JSON.stringify(canonicalizeValue(document));
+}
+
+/**
+ * Compute the SHA-256 of a scene's canonical form.
+ * Uses WebCrypto where available and falls back to node:crypto.
+ *
+ * @param state - Scene to hash
+ * @returns Lowercase hex SHA-256 digest
+ *
+ * @example
+ * const hash = await hashScene(state);
+ * if (hash === lastSavedHash) return; // nothing to upload
+ */
+export async function hashScene(state: SceneState): Promise<string> {
+  return sha256Hex(canonicalizeScene(state));
+}
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex.
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    const digest = await subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join(
+      ''
+    );
+  }
+
+  // Specifier in a variable so browser bundlers don't try to resolve it
+  const nodeCrypto = 'node:crypto';
+  const { createHash } = (await import(/* @vite-ignore */ nodeCrypto)) as {
+    createHash(algorithm: string): { update(data: string): { digest(encoding: 'hex'): string } };
+  };
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Recursively sort object keys, round numbers and drop undefined values.
+ */
+function canonicalizeValue(value: unknown): unknown {
+  if (typeof value === 'number') {
+    const rounded = Number(value.toFixed(CANONICAL_DECIMALS));
+    return Object.is(rounded, -0) ? 0 : rounded;
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalizeValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(record).sort()) {
+      if (record[key] !== undefined) {
+        result[key] = canonicalizeValue(record[key]);
+      }
+    }
+    return result;
+  }
+  return value;
+}
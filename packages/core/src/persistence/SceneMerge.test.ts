@@ -0,0 +1,134 @@
+/**
+ * Unit tests for SceneMerge
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeScenes } from './SceneMerge';
+import type { SceneState, Treat } from '../types';
+
+function makeTreat(id: string, overrides: Partial<Treat> = {}): Treat {
+  return {
+    id,
+    type: 'bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    ...overrides,
+  };
+}
+
+function makeScene(treats: Treat[], overrides: Partial<SceneState> = {}): SceneState {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('mergeScenes', () => {
+  it('should combine treats added on both sides', () => {
+    const base = makeScene([makeTreat('a')]);
+    const ours = makeScene([makeTreat('a'), makeTreat('b')]);
+    const theirs = makeScene([makeTreat('a'), makeTreat('c')]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats.map((t) => t.id)).toEqual(['a', 'b', 'c']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should merge different fields of the same treat', () => {
+    const base = makeScene([makeTreat('a', { message: 'Hi' })]);
+    const ours = makeScene([makeTreat('a', { message: 'Hello' })]);
+    const theirs = makeScene([makeTreat('a', { message: 'Hi', position: { x: 1, y: 0, z: 0 } })]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats[0].message).toBe('Hello');
+    expect(merged.treats[0].position).toEqual({ x: 1, y: 0, z: 0 });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should report a conflict when the same field changed on both sides', () => {
+    const base = makeScene([makeTreat('a', { message: 'Hi' })]);
+    const ours = makeScene([makeTreat('a', { message: 'Ours' })]);
+    const theirs = makeScene([makeTreat('a', { message: 'Theirs' })]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats[0].message).toBe('Ours');
+    expect(conflicts).toEqual([
+      { treatId: 'a', field: 'message', base: 'Hi', ours: 'Ours', theirs: 'Theirs' },
+    ]);
+  });
+
+  it('should not conflict when both sides made the same change', () => {
+    const base = makeScene([makeTreat('a')]);
+    const moved = makeTreat('a', { position: { x: 2, y: 0, z: 0 } });
+    const nearlyMoved = makeTreat('a', { position: { x: 2.0000001, y: 0, z: 0 } });
+
+    const { conflicts } = mergeScenes(base, makeScene([moved]), makeScene([nearlyMoved]));
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should honour removals of untouched treats', () => {
+    const base = makeScene([makeTreat('a'), makeTreat('b')]);
+    const ours = makeScene([makeTreat('b')]);
+    const theirs = makeScene([makeTreat('a')]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats).toEqual([]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should keep a treat removed on one side but modified on the other', () => {
+    const base = makeScene([makeTreat('a'), makeTreat('b')]);
+    const ours = makeScene([makeTreat('a', { message: 'Keep me' })]);
+    const theirs = makeScene([makeTreat('b', { message: 'Me too' })]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats.map((t) => t.message)).toEqual(['Keep me', 'Me too']);
+    expect(conflicts.map((c) => [c.treatId, c.field])).toEqual([
+      ['a', '*'],
+      ['b', '*'],
+    ]);
+  });
+
+  it('should merge world settings', () => {
+    const base = makeScene([], { worldName: 'Lab', worldFlipY: true });
+    const ours = makeScene([], { worldName: 'Lab B', worldFlipY: true });
+    const theirs = makeScene([], { worldName: 'Lab C', worldFlipY: false });
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.worldName).toBe('Lab B');
+    expect(merged.worldFlipY).toBe(false);
+    expect(conflicts).toEqual([
+      { field: 'worldName', base: 'Lab', ours: 'Lab B', theirs: 'Lab C' },
+    ]);
+  });
+
+  it('should resolve treat timestamps to the later value without conflict', () => {
+    const base = makeScene([makeTreat('a', { updatedAt: '2025-01-01T00:00:00Z' })]);
+    const ours = makeScene([makeTreat('a', { updatedAt: '2025-01-03T00:00:00Z' })]);
+    const theirs = makeScene([makeTreat('a', { updatedAt: '2025-01-02T00:00:00Z' })]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats[0].updatedAt).toBe('2025-01-03T00:00:00Z');
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should keep createdAt from the base', () => {
+    const base = makeScene([]);
+    const ours = makeScene([], { createdAt: '2025-05-05T00:00:00Z' });
+
+    expect(mergeScenes(base, ours, base).merged.createdAt).toBe(base.createdAt);
+  });
+});
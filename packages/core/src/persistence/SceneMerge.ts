@@ -0,0 +1,255 @@
+/**
+ * SceneMerge - Three-way merge of concurrent edits to the same scene.
+ *
+ * Given the version both editors started from (`base`), the local edits
+ * (`ours`) and the copy now in storage (`theirs`), mergeScenes() combines
+ * changes per treat and per field. A field changed on only one side takes
+ * that side's value; a field changed differently on both sides is reported
+ * as a conflict and resolved in favour of `ours`.
+ *
+ * @module @worldnotes/core/persistence/SceneMerge
+ */
+
+import type { SceneState, Treat, Vector3 } from '../types';
+import { WORLD_SETTING_KEYS, vectorsClose, setOptional, isEqual, clone } from './SceneDiff';
+
+/** Default tolerance for transform comparisons (world units / radians) */
+const DEFAULT_TOLERANCE = 1e-6;
+
+/** Treat fields compared as vectors within the tolerance */
+const TRANSFORM_KEYS = ['position', 'rotation', 'scale'];
+
+/** Treat fields resolved to the later value instead of conflicting */
+const TIMESTAMP_KEYS = ['createdAt', 'updatedAt'];
+
+/**
+ * A field that was changed differently on both sides.
+ */
+export interface SceneMergeConflict {
+  /** Treat the conflict belongs to (absent for world settings) */
+  treatId?: string;
+  /**
+   * Conflicting treat field or world setting key.
+   * `'*'` means one side removed the treat while the other modified it.
+   */
+  field: string;
+  /** Value in the common ancestor */
+  base: unknown;
+  /** Local value (kept in the merged scene, except for `'*'` conflicts) */
+  ours: unknown;
+  /** Remote value */
+  theirs: unknown;
+}
+
+/**
+ * Result of mergeScenes().
+ */
+export interface SceneMergeResult {
+  /** Merged scene, with conflicts resolved as documented on mergeScenes() */
+  merged: SceneState;
+  /** Fields that changed on both sides; empty for a clean merge */
+  conflicts: SceneMergeConflict[];
+}
+
+/**
+ * Options for mergeScenes().
+ */
+export interface MergeOptions {
+  /**
+   * Maximum per-component difference in position, rotation and scale that
+   * still counts as unchanged (default: 1e-6)
+   */
+  tolerance?: number;
+}
+
+/**
+ * Three-way merge two edited copies of a scene.
+ *
+ * Conflict resolution:
+ * - Same field changed on both sides: `ours` wins, conflict reported.
+ * - Treat removed on one side and modified on the other: the modified treat
+ *   is kept, conflict reported with field `'*'`.
+ * - Treat removed on one side and untouched on the other: removed.
+ *
+ * Treats keep the order of `ours`; treats only `theirs` added are appended.
+ * Timestamps come from `ours` except `createdAt`, which comes from `base`.
+ *
+ * @param base - Scene both sides started from (e.g. as last loaded)
+ * @param ours - Local edits about to be saved
+ * @param theirs - Copy currently in storage
+ * @param options - Comparison options
+ * @returns Merged scene and any conflicts
+ *
+ * @example
+ * const remote = await storage.loadScene(sceneId);
+ * if (remote && remote.updatedAt !== loaded.updatedAt) {
+ *   const { merged, conflicts } = mergeScenes(loaded, current, remote);
+ *   conflicts.forEach((c) => console.warn(`${c.treatId ?? 'world'}.${c.field} changed on both sides`));
+ *   await storage.saveScene(merged, sceneId, { editToken });
+ * }
+ */
+export function mergeScenes(
+  base: SceneState,
+  ours: SceneState,
+  theirs: SceneState,
+  options: MergeOptions = {}
+): SceneMergeResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const conflicts: SceneMergeConflict[] = [];
+  const merged: SceneState = { ...clone(ours), createdAt: base.createdAt, treats: [] };
+  // Merged content differs from what either side signed
+  delete merged.signature;
+
+  for (const key of WORLD_SETTING_KEYS) {
+    const value = mergeField(key, base[key], ours[key], theirs[key], tolerance, (conflict) =>
+      conflicts.push(conflict)
+    );
+    setOptional(merged as unknown as Record<string, unknown>, key, clone(value));
+  }
+
+  const baseTreats = new Map(base.treats.map((treat) => [treat.id, treat]));
+  const ourTreats = new Map(ours.treats.map((treat) => [treat.id, treat]));
+  const theirTreats = new Map(theirs.treats.map((treat) => [treat.id, treat]));
+
+  for (const treat of ours.treats) {
+    const baseTreat = baseTreats.get(treat.id);
+    const theirTreat = theirTreats.get(treat.id);
+
+    if (baseTreat && !theirTreat) {
+      // Removed remotely: honour it unless we changed the treat since
+      if (treatsEqual(baseTreat, treat, tolerance)) {
+        continue;
+      }
+      conflicts.push({
+        treatId: treat.id,
+        field: '*',
+        base: clone(baseTreat),
+        ours: clone(treat),
+        theirs: undefined,
+      });
+      merged.treats.push(clone(treat));
+      continue;
+    }
+
+    merged.treats.push(
+      theirTreat
+        ? mergeTreat(baseTreat, treat, theirTreat, tolerance, (conflict) =>
+            conflicts.push(conflict)
+          )
+        : clone(treat)
+    );
+  }
+
+  for (const treat of theirs.treats) {
+    if (ourTreats.has(treat.id)) {
+      continue;
+    }
+    const baseTreat = baseTreats.get(treat.id);
+    if (baseTreat) {
+      // Removed locally: honour it unless they changed the treat since
+      if (treatsEqual(baseTreat, treat, tolerance)) {
+        continue;
+      }
+      conflicts.push({
+        treatId: treat.id,
+        field: '*',
+        base: clone(baseTreat),
+        ours: undefined,
+        theirs: clone(treat),
+      });
+    }
+    merged.treats.push(clone(treat));
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Merge one treat field by field.
+ */
+function mergeTreat(
+  base: Treat | undefined,
+  ours: Treat,
+  theirs: Treat,
+  tolerance: number,
+  onConflict: (conflict: SceneMergeConflict) => void
+): Treat {
+  const baseRecord = (base ?? {}) as unknown as Record<string, unknown>;
+  const ourRecord = ours as unknown as Record<string, unknown>;
+  const theirRecord = theirs as unknown as Record<string, unknown>;
+  const keys = new Set([
+    ...Object.keys(ourRecord),
+    ...Object.keys(theirRecord),
+    ...Object.keys(baseRecord),
+  ]);
+  const result: Record<string, unknown> = { id: ours.id };
+
+  for (const key of keys) {
+    if (key === 'id') {
+      continue;
+    }
+    const value = mergeField(
+      key,
+      baseRecord[key],
+      ourRecord[key],
+      theirRecord[key],
+      tolerance,
+      (conflict) => onConflict({ treatId: ours.id, ...conflict })
+    );
+    setOptional(result, key, clone(value));
+  }
+
+  return result as unknown as Treat;
+}
+
+/**
+ * Three-way merge a single value.
+ */
+function mergeField(
+  key: string,
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  tolerance: number,
+  onConflict: (conflict: SceneMergeConflict) => void
+): unknown {
+  if (fieldEqual(key, ours, theirs, tolerance)) {
+    return ours;
+  }
+  if (fieldEqual(key, base, ours, tolerance)) {
+    return theirs;
+  }
+  if (fieldEqual(key, base, theirs, tolerance)) {
+    return ours;
+  }
+  if (TIMESTAMP_KEYS.includes(key)) {
+    return String(ours ?? '') >= String(theirs ?? '') ? ours : theirs;
+  }
+  onConflict({ field: key, base: clone(base), ours: clone(ours), theirs: clone(theirs) });
+  return ours;
+}
+
+function fieldEqual(key: string, a: unknown, b: unknown, tolerance: number): boolean {
+  if (TRANSFORM_KEYS.includes(key) && isVector(a) && isVector(b)) {
+    return (
+      vectorsClose(a, b, tolerance) &&
+      (a as { order?: string }).order === (b as { order?: string }).order
+    );
+  }
+  return isEqual(a, b);
+}
+
+function treatsEqual(a: Treat, b: Treat, tolerance: number): boolean {
+  const aRecord = a as unknown as Record<string, unknown>;
+  const bRecord = b as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every(
+    (key) => TIMESTAMP_KEYS.includes(key) || fieldEqual(key, aRecord[key], bRecord[key], tolerance)
+  );
+}
+
+function isVector(value: unknown): value is Vector3 {
+  return (
+    typeof value === 'object' && value !== null && 'x' in value && 'y' in value && 'z' in value
+  );
+}
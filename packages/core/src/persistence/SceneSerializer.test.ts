@@ -216,7 +216,7 @@ describe('SceneDeserializer', () => {
 
       const state = deserializeScene(json);
 
-      expect(state.version).toBe(1);
+      expect(state.version).toBe(CURRENT_VERSION);
       expect(state.worldUrl).toBe('https://example.com/world.spz');
       expect(state.worldFlipY).toBe(true);
       expect(state.treats).toHaveLength(1);
@@ -343,10 +343,149 @@ describe('migrateScene', () => {
   });
 });
 
+describe('migrateScene v1 -> v2', () => {
+  it('should move skeleton metadata.text to message and keep remaining metadata', () => {
+    const migrated = migrateScene({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'message-bottle',
+          glbUrl: 'https://example.com/bottle.glb',
+          position: { x: 1, y: 2, z: 3 },
+          rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+          scale: { x: 0.33, y: 0.33, z: 0.33 },
+          metadata: { text: 'Hello', objectId: 'door-1' },
+        },
+      ],
+      waypoints: [],
+      paths: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    expect(migrated.version).toBe(2);
+    expect(migrated.treats[0].type).toBe('bottle');
+    expect(migrated.treats[0].message).toBe('Hello');
+    expect(migrated.treats[0].metadata).toEqual({ objectId: 'door-1' });
+    expect(migrated.treats[0].scale).toEqual({ x: 0.33, y: 0.33, z: 0.33 });
+    expect(migrated.waypoints).toBeUndefined();
+    expect(migrated.paths).toBeUndefined();
+  });
+
+  it('should prefer an existing message over metadata.text', () => {
+    const migrated = migrateScene({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'bottle',
+          glbUrl: 'https://example.com/bottle.glb',
+          message: 'Current',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+          metadata: { text: 'Stale' },
+        },
+      ],
+    });
+
+    expect(migrated.treats[0].message).toBe('Current');
+    expect(migrated.treats[0].metadata).toBeUndefined();
+  });
+
+  it('should map legacy shouldFlip to worldFlipY', () => {
+    const migrated = migrateScene({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      shouldFlip: false,
+      treats: [],
+    });
+
+    expect(migrated.worldFlipY).toBe(false);
+    expect('shouldFlip' in migrated).toBe(false);
+  });
+
+  it('should let an explicit worldFlipY win over shouldFlip', () => {
+    const migrated = migrateScene({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      worldFlipY: true,
+      shouldFlip: false,
+      treats: [],
+    });
+
+    expect(migrated.worldFlipY).toBe(true);
+  });
+
+  it('should preserve timestamps', () => {
+    const migrated = migrateScene({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-02T00:00:00Z',
+    });
+
+    expect(migrated.updatedAt).toBe('2025-01-02T00:00:00Z');
+  });
+
+  it('should load a viewer.html v1 document through deserializeScene', () => {
+    const json = JSON.stringify({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      worldName: 'Factory Floor',
+      startPosition: { x: 0, y: -0.1, z: 0.1 },
+      startRotation: { x: 0, y: 0.5 },
+      shouldFlip: true,
+      thumbnailUrl: 'https://example.com/thumb.png',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'custom',
+          glbUrl: 'https://example.com/pin.glb',
+          position: { x: 1, y: 2, z: 3 },
+          rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+          scale: { x: 1, y: 1, z: 1 },
+          metadata: { text: 'Check valve' },
+        },
+      ],
+      waypoints: [],
+      paths: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    const state = deserializeScene(json);
+
+    expect(state.version).toBe(2);
+    expect(state.worldName).toBe('Factory Floor');
+    expect(state.worldFlipY).toBe(true);
+    expect(state.startPosition).toEqual({ x: 0, y: -0.1, z: 0.1 });
+    expect(state.startRotation).toEqual({ x: 0, y: 0.5 });
+    expect(state.thumbnailUrl).toBe('https://example.com/thumb.png');
+    expect(state.treats[0].message).toBe('Check valve');
+    expect(state.treats[0].rotation.order).toBe('XYZ');
+    expect(state.treats[0].metadata).toBeUndefined();
+  });
+
+  it('should treat documents without a version as version 1', () => {
+    const state = deserializeSceneFromObject({
+      worldUrl: 'https://example.com/world.spz',
+      shouldFlip: false,
+      treats: [],
+    });
+
+    expect(state.version).toBe(2);
+    expect(state.worldFlipY).toBe(false);
+  });
+});
+
 describe('Round-trip serialization', () => {
   it('should preserve SceneState through serialize/deserialize cycle', () => {
     const original: SceneState = {
-      version: 1,
+      version: CURRENT_VERSION,
       worldUrl: 'https://example.com/world.spz',
       worldFlipY: true,
       treats: [
@@ -371,9 +510,41 @@ describe('Round-trip serialization', () => {
     expect(restored).toEqual(original);
   });
 
+  it('should preserve v2 fields through serialize/deserialize cycle', () => {
+    const original: SceneState = {
+      version: CURRENT_VERSION,
+      worldUrl: 'https://example.com/world.spz',
+      worldName: 'Art Gallery',
+      worldFlipY: false,
+      startPosition: { x: -0.39, y: 0.2, z: -0.86 },
+      startRotation: { x: -0.05, y: -0.19 },
+      thumbnailUrl: 'https://example.com/art-gallery.png',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'geomarker',
+          glbUrl: 'https://example.com/pin.glb',
+          message: 'Exhibit A',
+          position: { x: 1, y: 0, z: 2 },
+          rotation: { x: 0, y: 1.2, z: 0, order: 'YXZ' },
+          scale: { x: 0.33, y: 0.33, z: 0.33 },
+          metadata: { objectId: 'exhibit-a' },
+        },
+      ],
+      waypoints: [{ id: 'wp-1', position: { x: 0, y: 0, z: 0 }, pathId: 'tour', order: 0 }],
+      paths: [{ id: 'tour', name: 'Tour', waypointIds: ['wp-1'] }],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    };
+
+    const restored = deserializeScene(serializeScene(original));
+
+    expect(restored).toEqual(original);
+  });
+
   it('should preserve worldFlipY=false through serialize/deserialize cycle', () => {
     const original: SceneState = {
-      version: 1,
+      version: CURRENT_VERSION,
       worldUrl: 'https://example.com/world.spz',
       worldFlipY: false,
       treats: [],
@@ -389,7 +560,7 @@ describe('Round-trip serialization', () => {
 
   it('should handle undefined worldFlipY', () => {
     const original: SceneState = {
-      version: 1,
+      version: CURRENT_VERSION,
       worldUrl: 'https://example.com/world.spz',
       treats: [],
       createdAt: '2025-01-01T00:00:00Z',
@@ -404,7 +575,7 @@ describe('Round-trip serialization', () => {
 
   it('should preserve multiple treats', () => {
     const original: SceneState = {
-      version: 1,
+      version: CURRENT_VERSION,
       worldUrl: 'https://example.com/world.spz',
       treats: [
         {
@@ -443,3 +614,113 @@ describe('Round-trip serialization', () => {
     expect(restored.treats[2].type).toBe('custom');
   });
 });
+
+describe('Unknown field preservation', () => {
+  it('should keep unrecognized scene and treat properties in extensions', () => {
+    const state = deserializeSceneFromObject({
+      version: CURRENT_VERSION,
+      worldUrl: 'https://example.com/world.spz',
+      ambientSound: 'https://example.com/wind.mp3',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'geomarker',
+          glbUrl: 'https://example.com/pin.glb',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+          color: '#ff6600',
+          tags: ['valve', 'inspection'],
+        },
+      ],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    expect(state.extensions).toEqual({ ambientSound: 'https://example.com/wind.mp3' });
+    expect(state.treats[0].extensions).toEqual({
+      color: '#ff6600',
+      tags: ['valve', 'inspection'],
+    });
+  });
+
+  it('should keep unrecognized treat metadata and write it back', () => {
+    const json = JSON.stringify({
+      version: CURRENT_VERSION,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'bottle',
+          glbUrl: 'https://example.com/bottle.glb',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+          metadata: { objectId: 'valve-7', sensorId: 'psi-12' },
+        },
+      ],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    const state = deserializeScene(json);
+
+    expect(state.treats[0].metadata).toEqual({
+      objectId: 'valve-7',
+      extensions: { sensorId: 'psi-12' },
+    });
+    expect(JSON.parse(serializeScene(state)).treats[0].metadata).toEqual({
+      objectId: 'valve-7',
+      sensorId: 'psi-12',
+    });
+  });
+
+  it('should omit extensions when there are no unrecognized properties', () => {
+    const state = deserializeScene(
+      JSON.stringify({
+        version: CURRENT_VERSION,
+        worldUrl: 'https://example.com/world.spz',
+        treats: [],
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      })
+    );
+
+    expect(state.extensions).toBeUndefined();
+  });
+
+  it('should write unrecognized properties back unchanged', () => {
+    const json = JSON.stringify({
+      version: CURRENT_VERSION,
+      worldUrl: 'https://example.com/world.spz',
+      ambientSound: 'https://example.com/wind.mp3',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'geomarker',
+          glbUrl: 'https://example.com/pin.glb',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+          animation: { clip: 'bounce', loop: true },
+        },
+      ],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    const resaved = JSON.parse(serializeScene(deserializeScene(json)));
+
+    expect(resaved).toEqual(JSON.parse(json));
+  });
+
+  it('should let known fields win over extension entries', () => {
+    const obj = serializeSceneToObject({
+      version: CURRENT_VERSION,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+      extensions: { worldUrl: 'https://evil.example.com/world.spz' },
+    });
+
+    expect(obj.worldUrl).toBe('https://example.com/world.spz');
+  });
+});
@@ -2,20 +2,21 @@
  * SceneSerializer - Converts SceneState objects to JSON format for storage.
  *
  * Handles serialization of:
- * - Vector3 positions and rotations
+ * - Vector3 positions and scales, Euler rotations
  * - Treat metadata
+ * - Waypoints and paths
  * - Scene versioning
  *
  * @module @worldnotes/core/persistence/SceneSerializer
  */
 
-import type { SceneState, Treat, Vector3 } from '../types';
+import type { Euler, SceneState, Treat, Vector3, Waypoint, WaypointPath } from '../types';
 
 // Re-export SceneState for backwards compatibility
 export type { SceneState } from '../types';
 
 /** Current schema version */
-export const CURRENT_VERSION = 1;
+export const CURRENT_VERSION = 2;
 
 /**
  * JSON-serializable representation of Vector3
@@ -26,6 +27,16 @@ export interface SerializedVector3 {
   z: number;
 }
 
+/**
+ * JSON-serializable representation of Euler
+ */
+export interface SerializedEuler {
+  x: number;
+  y: number;
+  z: number;
+  order?: string;
+}
+
 /**
  * JSON-serializable representation of a Treat
  */
@@ -35,9 +46,41 @@ export interface SerializedTreat {
   glbUrl: string;
   message?: string;
   position: SerializedVector3;
-  rotation: SerializedVector3;
+  rotation: SerializedEuler;
+  scale?: SerializedVector3;
+  metadata?: {
+    behaviorCode?: string;
+    objectId?: string;
+    /** Properties from TreatMetadata.extensions, written back in metadata */
+    [extension: string]: unknown;
+  };
   createdAt?: string;
   updatedAt?: string;
+  /** Properties from Treat.extensions, written back at the top level */
+  [extension: string]: unknown;
+}
+
+/**
+ * JSON-serializable representation of a Waypoint
+ */
+export interface SerializedWaypoint {
+  id: string;
+  position: SerializedVector3;
+  pathId?: string;
+  order?: number;
+  triggerAction?: {
+    type: 'audio' | 'text' | 'activate';
+    payload: string;
+  };
+}
+
+/**
+ * JSON-serializable representation of a WaypointPath
+ */
+export interface SerializedWaypointPath {
+  id: string;
+  name: string;
+  waypointIds: string[];
 }
 
 /**
@@ -46,10 +89,21 @@ export interface SerializedTreat {
 export interface SerializedSceneState {
   version: number;
   worldUrl: string;
+  worldName?: string;
   worldFlipY?: boolean;
+  startPosition?: SerializedVector3;
+  startRotation?: { x: number; y: number };
+  thumbnailUrl?: string;
   treats: SerializedTreat[];
+  waypoints?: SerializedWaypoint[];
+  paths?: SerializedWaypointPath[];
   createdAt: string;
   updatedAt: string;
+  expiresAt?: string;
+  signature?: { alg: string; keyId: string; value: string };
+  editTokenHash?: string;
+  /** Properties from SceneState.extensions, written back at the top level */
+  [extension: string]: unknown;
 }
 
 /**
@@ -66,6 +120,24 @@ export function serializeVector3(vec: Vector3): SerializedVector3 {
   };
 }
 
+/**
+ * Serialize an Euler to a plain object.
+ *
+ * @param euler - The Euler rotation to serialize
+ * @returns Plain object with x, y, z and optional order properties
+ */
+export function serializeEuler(euler: Euler): SerializedEuler {
+  const result: SerializedEuler = {
+    x: euler.x,
+    y: euler.y,
+    z: euler.z,
+  };
+  if (euler.order !== undefined) {
+    result.order = euler.order;
+  }
+  return result;
+}
+
 /**
  * Serialize a Treat to a plain object.
  *
@@ -74,17 +146,26 @@ export function serializeVector3(vec: Vector3): SerializedVector3 {
  */
 export function serializeTreat(treat: Treat): SerializedTreat {
   const result: SerializedTreat = {
+    // Unrecognized properties first so known fields always win
+    ...treat.extensions,
     id: treat.id,
     type: treat.type,
     glbUrl: treat.glbUrl,
     position: serializeVector3(treat.position),
-    rotation: serializeVector3(treat.rotation),
+    rotation: serializeEuler(treat.rotation),
   };
 
   // Include optional fields only if defined
   if (treat.message !== undefined) {
     result.message = treat.message;
   }
+  if (treat.scale !== undefined) {
+    result.scale = serializeVector3(treat.scale);
+  }
+  if (treat.metadata !== undefined) {
+    const { extensions, ...metadata } = treat.metadata;
+    result.metadata = { ...extensions, ...metadata };
+  }
   if (treat.createdAt !== undefined) {
     result.createdAt = treat.createdAt;
   }
@@ -95,6 +176,43 @@ export function serializeTreat(treat: Treat): SerializedTreat {
   return result;
 }
 
+/**
+ * Serialize a Waypoint to a plain object.
+ *
+ * @param waypoint - The Waypoint to serialize
+ * @returns Plain object representation of the waypoint
+ */
+export function serializeWaypoint(waypoint: Waypoint): SerializedWaypoint {
+  const result: SerializedWaypoint = {
+    id: waypoint.id,
+    position: serializeVector3(waypoint.position),
+  };
+  if (waypoint.pathId !== undefined) {
+    result.pathId = waypoint.pathId;
+  }
+  if (waypoint.order !== undefined) {
+    result.order = waypoint.order;
+  }
+  if (waypoint.triggerAction !== undefined) {
+    result.triggerAction = { ...waypoint.triggerAction };
+  }
+  return result;
+}
+
+/**
+ * Serialize a WaypointPath to a plain object.
+ *
+ * @param path - The WaypointPath to serialize
+ * @returns Plain object representation of the path
+ */
+export function serializeWaypointPath(path: WaypointPath): SerializedWaypointPath {
+  return {
+    id: path.id,
+    name: path.name,
+    waypointIds: [...path.waypointIds],
+  };
+}
+
 /**
  * Serialize a SceneState to a plain object (without JSON.stringify).
  * Useful when you need the object form for further processing.
@@ -104,6 +222,8 @@ export function serializeTreat(treat: Treat): SerializedTreat {
  */
 export function serializeSceneToObject(state: SceneState): SerializedSceneState {
   const result: SerializedSceneState = {
+    // Unrecognized properties first so known fields always win
+    ...state.extensions,
     version: state.version,
     worldUrl: state.worldUrl,
     treats: state.treats.map(serializeTreat),
@@ -111,10 +231,37 @@ export function serializeSceneToObject(state: SceneState): SerializedSceneState
     updatedAt: state.updatedAt,
   };
 
-  // Include worldFlipY only if defined
+  // Include optional fields only if defined
+  if (state.worldName !== undefined) {
+    result.worldName = state.worldName;
+  }
   if (state.worldFlipY !== undefined) {
     result.worldFlipY = state.worldFlipY;
   }
+  if (state.startPosition !== undefined) {
+    result.startPosition = serializeVector3(state.startPosition);
+  }
+  if (state.startRotation !== undefined) {
+    result.startRotation = { x: state.startRotation.x, y: state.startRotation.y };
+  }
+  if (state.thumbnailUrl !== undefined) {
+    result.thumbnailUrl = state.thumbnailUrl;
+  }
+  if (state.waypoints !== undefined) {
+    result.waypoints = state.waypoints.map(serializeWaypoint);
+  }
+  if (state.paths !== undefined) {
+    result.paths = state.paths.map(serializeWaypointPath);
+  }
+  if (state.expiresAt !== undefined) {
+    result.expiresAt = state.expiresAt;
+  }
+  if (state.signature !== undefined) {
+    result.signature = { ...state.signature };
+  }
+  if (state.editTokenHash !== undefined) {
+    result.editTokenHash = state.editTokenHash;
+  }
 
   return result;
 }
@@ -127,7 +274,7 @@ export function serializeSceneToObject(state: SceneState): SerializedSceneState
  *
  * @example
  * const state: SceneState = {
- *   version: 1,
+ *   version: 2,
  *   worldUrl: 'https://example.com/world.spz',
  *   treats: [],
  *   createdAt: '2025-12-05T10:00:00Z',
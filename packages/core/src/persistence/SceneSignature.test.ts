@@ -0,0 +1,136 @@
+/**
+ * Unit tests for SceneSignature
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { signScene, verifySceneSignature, deserializeVerifiedScene } from './SceneSignature';
+import { serializeScene } from './SceneSerializer';
+import type { SceneState, Treat } from '../types';
+
+function makeTreat(id: string, message = ''): Treat {
+  return {
+    id,
+    type: 'bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    message,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+  };
+}
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  };
+}
+
+let keyPair: CryptoKeyPair;
+let publicKeyBase64: string;
+
+beforeAll(async () => {
+  keyPair = (await crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify'])) as CryptoKeyPair;
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  publicKeyBase64 = btoa(String.fromCharCode(...raw));
+});
+
+describe('signScene', () => {
+  it('should attach a signature without modifying the input', async () => {
+    const scene = makeScene([makeTreat('a', 'Hello')]);
+
+    const signed = await signScene(scene, keyPair.privateKey, 'acme');
+
+    expect(scene.signature).toBeUndefined();
+    expect(signed.signature).toMatchObject({ alg: 'Ed25519', keyId: 'acme' });
+    expect(atob(signed.signature?.value ?? '')).toHaveLength(64);
+  });
+});
+
+describe('verifySceneSignature', () => {
+  it('should report unsigned scenes', async () => {
+    const result = await verifySceneSignature(makeScene([]), { acme: publicKeyBase64 });
+
+    expect(result).toEqual({ status: 'unsigned' });
+  });
+
+  it('should accept a valid signature from a base64 or CryptoKey public key', async () => {
+    const signed = await signScene(makeScene([makeTreat('a')]), keyPair.privateKey, 'acme');
+
+    expect(await verifySceneSignature(signed, { acme: publicKeyBase64 })).toEqual({
+      status: 'signed',
+      keyId: 'acme',
+    });
+    expect((await verifySceneSignature(signed, { acme: keyPair.publicKey })).status).toBe('signed');
+  });
+
+  it('should still verify after re-saving with new timestamps', async () => {
+    const signed = await signScene(makeScene([makeTreat('a')]), keyPair.privateKey, 'acme');
+
+    const resaved = { ...signed, updatedAt: '2025-06-01T00:00:00Z' };
+
+    expect((await verifySceneSignature(resaved, { acme: publicKeyBase64 })).status).toBe('signed');
+  });
+
+  it('should report edited content as tampered', async () => {
+    const signed = await signScene(makeScene([makeTreat('a', 'Hi')]), keyPair.privateKey, 'acme');
+
+    const edited = { ...signed, treats: [makeTreat('a', 'Send bitcoin here')] };
+
+    expect(await verifySceneSignature(edited, { acme: publicKeyBase64 })).toEqual({
+      status: 'tampered',
+      keyId: 'acme',
+      reason: 'signature does not match content',
+    });
+  });
+
+  it('should report signatures from unknown keys as untrusted rather than tampered', async () => {
+    const signed = await signScene(makeScene([]), keyPair.privateKey, 'someone-else');
+
+    const result = await verifySceneSignature(signed, { acme: publicKeyBase64 });
+
+    expect(result.status).toBe('untrusted');
+    expect(result.reason).toBe('untrusted key "someone-else"');
+  });
+});
+
+describe('deserializeVerifiedScene', () => {
+  it('should round-trip the signature through JSON and verify it', async () => {
+    const signed = await signScene(makeScene([makeTreat('a')]), keyPair.privateKey, 'acme');
+
+    const { state, verification } = await deserializeVerifiedScene(serializeScene(signed), {
+      trustedKeys: { acme: publicKeyBase64 },
+    });
+
+    expect(state.signature).toEqual(signed.signature);
+    expect(verification.status).toBe('signed');
+  });
+
+  it('should keep a foreign algorithm and report it as unsupported', async () => {
+    const signed = await signScene(makeScene([makeTreat('a')]), keyPair.privateKey, 'acme');
+    const json = serializeScene({ ...signed, signature: { ...signed.signature!, alg: 'RS256' } });
+
+    const { state, verification } = await deserializeVerifiedScene(json, {
+      trustedKeys: { acme: publicKeyBase64 },
+    });
+
+    expect(state.signature?.alg).toBe('RS256');
+    expect(verification).toMatchObject({
+      status: 'untrusted',
+      reason: 'unsupported algorithm "RS256"',
+    });
+  });
+
+  it('should detect a tampered JSON document', async () => {
+    const signed = await signScene(makeScene([makeTreat('a')]), keyPair.privateKey, 'acme');
+    const json = serializeScene(signed).replace('"x":0', '"x":5');
+
+    const { verification } = await deserializeVerifiedScene(json, {
+      trustedKeys: { acme: publicKeyBase64 },
+    });
+
+    expect(verification.status).toBe('tampered');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * SceneSignature - Ed25519 signing and verification of scenes.
+ *
+ * Scenes are public objects in a bucket that anonymous identities can write
+ * to, so a scene's bytes alone don't prove who published it. A publisher
+ * signs the canonical form (canonicalizeScene) with a private key it keeps
+ * off the client; viewers verify against a set of trusted public keys and
+ * learn whether a scene is signed, unsigned, signed by a key they don't
+ * trust, or tampered.
+ *
+ * Uses WebCrypto's Ed25519 support (Node 20+, current browsers).
+ *
+ * @module @worldnotes/core/persistence/SceneSignature
+ */
+
+import type { SceneSignature, SceneState } from '../types';
+import { canonicalizeScene } from './SceneHash';
+import { deserializeScene, type DeserializeOptions } from './SceneDeserializer';
+
+/**
+ * Trusted public keys by key id.
+ * Values are CryptoKeys or base64-encoded raw 32-byte Ed25519 public keys.
+ */
+export type TrustedSceneKeys = Record<string, CryptoKey | string>;
+
+/**
+ * Outcome of verifying a scene.
+ * - `signed`: signature valid for a trusted key
+ * - `unsigned`: no signature present
+ * - `untrusted`: a signature is present but can't be checked: its key isn't
+ *   trusted, or its algorithm isn't supported
+ * - `tampered`: the signature does not verify against its trusted key, so the
+ *   content changed after signing
+ */
+export type SceneVerificationStatus = 'signed' | 'unsigned' | 'untrusted' | 'tampered';
+
+/**
+ * Result of verifySceneSignature().
+ */
+export interface SceneVerification {
+  status: SceneVerificationStatus;
+  /** Key id named by the signature, if any */
+  keyId?: string;
+  /** Why a present signature was not accepted */
+  reason?: string;
+}
+
+/**
+ * A publisher's signing key, e.g. for StorageClient.saveScene() to sign
+ * scenes as they are saved.
+ */
+export interface SceneSigningKey {
+  /** Ed25519 private key with the 'sign' usage */
+  privateKey: CryptoKey;
+  /** Id under which viewers hold the matching public key */
+  keyId: string;
+}
+
+/**
+ * Options for deserializeVerifiedScene().
+ */
+export interface VerifyOptions extends DeserializeOptions {
+  /** Public keys whose signatures are accepted */
+  trustedKeys: TrustedSceneKeys;
+}
+
+/**
+ * Sign a scene. Returns a copy with `signature` set; the input is not modified.
+ *
+ * The signature covers the canonical form, which excludes timestamps, so
+ * re-saving does not invalidate it, but any content edit does. Callers that
+ * cannot re-sign after editing should drop the signature rather than
+ * publish a scene that will verify as tampered.
+ *
+ * @param state - Scene to sign
+ * @param privateKey - Ed25519 private key with the 'sign' usage
+ * @param keyId - Id under which viewers hold the matching public key
+ * @returns Signed copy of the scene
+ *
+ * @example
+ * const { privateKey } = await crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify']);
+ * const signed = await signScene(state, privateKey, 'acme-2025');
+ * await storage.saveScene(signed);
+ */
+export async function signScene(
+  state: SceneState,
+  privateKey: CryptoKey,
+  keyId: string
+): Promise<SceneState> {
+  return {
+    ...state,
+    signature: await signCanonicalScene(canonicalizeScene(state), { privateKey, keyId }),
+  };
+}
+
+/**
+ * Ed25519 signature over a scene's canonical form.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService, whose
+ * v1 scenes have their own canonical form
+ */
+export async function signCanonicalScene(
+  canonical: string,
+  { privateKey, keyId }: SceneSigningKey
+): Promise<SceneSignature> {
+  const data = new TextEncoder().encode(canonical);
+  const signature = await crypto.subtle.sign('Ed25519', privateKey, data);
+  return { alg: 'Ed25519', keyId, value: bytesToBase64(new Uint8Array(signature)) };
+}
+
+/**
+ * Whether two scenes carry the same signature (or both none). Content
+ * hashes leave signatures out, so saves compare them separately.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ */
+export function isSameSignature(a?: SceneSignature, b?: SceneSignature): boolean {
+  return a?.alg === b?.alg && a?.keyId === b?.keyId && a?.value === b?.value;
+}
+
+/**
+ * Verify a scene's signature against trusted public keys.
+ *
+ * @param state - Scene to verify
+ * @param trustedKeys - Accepted public keys by key id
+ * @returns Verification status, with the key id and rejection reason when relevant
+ *
+ * @example
+ * const { status } = await verifySceneSignature(state, { 'acme-2025': ACME_PUBLIC_KEY });
+ * if (status === 'signed') showVerifiedBadge();
+ * if (status === 'tampered') showWarning('This scene was modified after it was signed');
+ */
+export async function verifySceneSignature(
+  state: SceneState,
+  trustedKeys: TrustedSceneKeys
+): Promise<SceneVerification> {
+  const { signature } = state;
+  if (!signature) {
+    return { status: 'unsigned' };
+  }
+
+  const { keyId } = signature;
+  if (signature.alg !== 'Ed25519') {
+    return { status: 'untrusted', keyId, reason: `unsupported algorithm "${signature.alg}"` };
+  }
+
+  const trustedKey = trustedKeys[keyId];
+  if (trustedKey === undefined) {
+    return { status: 'untrusted', keyId, reason: `untrusted key "${keyId}"` };
+  }
+
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await importPublicKey(trustedKey);
+  } catch (error) {
+    // A bad entry in trustedKeys says nothing about the scene
+    return {
+      status: 'untrusted',
+      keyId,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  let valid: boolean;
+  try {
+    const data = new TextEncoder().encode(canonicalizeScene(state));
+    valid = await crypto.subtle.verify('Ed25519', publicKey, base64ToBytes(signature.value), data);
+  } catch (error) {
+    return {
+      status: 'tampered',
+      keyId,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return valid
+    ? { status: 'signed', keyId }
+    : { status: 'tampered', keyId, reason: 'signature does not match content' };
+}
+
+/**
+ * Deserialize a JSON scene and verify its signature.
+ *
+ * @param json - JSON string representation of the scene
+ * @param options - Trusted keys and deserialization options
+ * @returns Deserialized scene and its verification result
+ * @throws Error if JSON is invalid or missing required fields
+ *
+ * @example
+ * const { state, verification } = await deserializeVerifiedScene(json, { trustedKeys });
+ */
+export async function deserializeVerifiedScene(
+  json: string,
+  options: VerifyOptions
+): Promise<{ state: SceneState; verification: SceneVerification }> {
+  const state = deserializeScene(json, options);
+  return { state, verification: await verifySceneSignature(state, options.trustedKeys) };
+}
+
+function importPublicKey(key: CryptoKey | string): Promise<CryptoKey> {
+  if (typeof key !== 'string') {
+    return Promise.resolve(key);
+  }
+  return crypto.subtle.importKey('raw', base64ToBytes(key), 'Ed25519', false, ['verify']);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for streaming scene deserialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deserializeSceneStream, type StreamDeserializeOptions } from './SceneStream';
+import { deserializeScene } from './SceneDeserializer';
+import { serializeScene } from './SceneSerializer';
+import type { SceneState, Treat } from '../types';
+
+function makeTreat(id: string, message = ''): Treat {
+  return {
+    id,
+    type: 'bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    message,
+    position: { x: 1, y: 2, z: 3 },
+    rotation: { x: 0, y: 0.5, z: 0, order: 'YXZ' },
+  };
+}
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    worldName: 'Gallery',
+    treats,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-02T00:00:00Z',
+  };
+}
+
+/** Stream `text` as UTF-8 bytes in chunks of `chunkSize` */
+function streamOf(text: string, chunkSize = 7): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.subarray(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function readAll(
+  stream: ReadableStream<Uint8Array | string>,
+  options?: StreamDeserializeOptions
+): Promise<{ batches: Treat[][]; state: SceneState }> {
+  const generator = deserializeSceneStream(stream, options);
+  const batches: Treat[][] = [];
+  let next = await generator.next();
+  while (!next.done) {
+    batches.push(next.value);
+    next = await generator.next();
+  }
+  return { batches, state: next.value };
+}
+
+describe('deserializeSceneStream', () => {
+  it('should match deserializeScene for the same document', async () => {
+    const treats = Array.from({ length: 25 }, (_, i) => makeTreat(`treat-${i}`, `Note ${i}`));
+    const json = serializeScene(makeScene(treats));
+
+    const { state } = await readAll(streamOf(json));
+
+    expect(state).toEqual(deserializeScene(json));
+  });
+
+  it('should yield treats in batches of batchSize', async () => {
+    const treats = Array.from({ length: 12 }, (_, i) => makeTreat(`treat-${i}`));
+
+    const { batches } = await readAll(streamOf(serializeScene(makeScene(treats))), {
+      batchSize: 5,
+    });
+
+    expect(batches.map((batch) => batch.length)).toEqual([5, 5, 2]);
+    expect(batches.flat().map((treat) => treat.id)).toEqual(treats.map((treat) => treat.id));
+  });
+
+  it('should yield the first batch before the stream ends', async () => {
+    const head = JSON.stringify({
+      version: 2,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [makeTreat('a'), makeTreat('b')],
+    }).slice(0, -2);
+    let controller!: ReadableStreamDefaultController<string>;
+    const stream = new ReadableStream<string>({
+      start(c) {
+        controller = c;
+      },
+    });
+    controller.enqueue(head + ',');
+
+    const generator = deserializeSceneStream(stream, { batchSize: 2 });
+    const first = await generator.next();
+
+    expect(first.value).toHaveLength(2);
+    controller.enqueue(']}');
+    controller.close();
+    const last = await generator.next();
+    expect(last.done).toBe(true);
+  });
+
+  it('should handle strings containing brackets, quotes and multi-byte characters', async () => {
+    const treat = makeTreat('a', 'He said "}]," \\ then left 🍾 — ünïcode');
+
+    const { state } = await readAll(streamOf(serializeScene(makeScene([treat])), 3));
+
+    expect(state.treats[0].message).toBe(treat.message);
+  });
+
+  it('should migrate legacy treats even when version comes after them', async () => {
+    const json = JSON.stringify({
+      worldUrl: 'https://example.com/world.spz',
+      shouldFlip: true,
+      treats: [{ ...makeTreat('a'), message: undefined, metadata: { text: 'Legacy' } }],
+      version: 1,
+    });
+
+    const { batches, state } = await readAll(streamOf(json));
+
+    expect(batches.flat()[0].message).toBe('Legacy');
+    expect(state.version).toBe(2);
+    expect(state.worldFlipY).toBe(true);
+  });
+
+  it('should reject truncated documents', async () => {
+    const json = serializeScene(makeScene([makeTreat('a')]));
+
+    await expect(readAll(streamOf(json.slice(0, -10)))).rejects.toThrow(
+      'Invalid scene stream: document ended before the scene object closed'
+    );
+  });
+
+  it('should reject non-object documents', async () => {
+    await expect(readAll(streamOf('[1, 2]'))).rejects.toThrow(
+      'Invalid scene stream: expected a JSON object'
+    );
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * SceneStream - Incremental deserialization of large JSON scenes.
+ *
+ * deserializeScene() parses the whole document before the first treat is
+ * available. For scenes with tens of thousands of treats, that blocks the
+ * main thread while the download and parse finish. deserializeSceneStream()
+ * reads a ReadableStream instead and yields treats in batches as soon as
+ * each one has been received.
+ *
+ * Only the `treats` array is parsed incrementally. The scanner tracks
+ * strings and nesting to find where each treat ends and parses that slice
+ * with JSON.parse. Other top-level fields are small and parsed whole.
+ *
+ * @module @worldnotes/core/persistence/SceneStream
+ */
+
+import type { SceneState, Treat } from '../types';
+import {
+  deserializeSceneFromObject,
+  deserializeTreatFromVersion,
+  type LegacySceneDocument,
+  type LegacySerializedTreat,
+} from './SceneDeserializer';
+
+/** Treats per batch when no batchSize is given */
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Options for deserializeSceneStream().
+ */
+export interface StreamDeserializeOptions {
+  /** Maximum number of treats per yielded batch (default: 500) */
+  batchSize?: number;
+}
+
+/**
+ * Where the scanner is within the root object.
+ * - `root`: before the opening brace
+ * - `key`: expecting a key or the closing brace
+ * - `colon`: after a key, expecting ':'
+ * - `value`: expecting the start of a value
+ * - `in-value`: inside a value other than the treats array
+ * - `treats`: inside the treats array
+ * - `after-value`: expecting ',' or the closing brace
+ * - `done`: root object closed
+ */
+type ScanPhase =
+  | 'root'
+  | 'key'
+  | 'colon'
+  | 'value'
+  | 'in-value'
+  | 'treats'
+  | 'after-value'
+  | 'done';
+
+/**
+ * Deserialize a JSON scene from a stream, yielding treats in batches.
+ *
+ * Treats come out in document order. Once the stream ends the generator
+ * returns the complete SceneState, including every treat. Legacy documents
+ * are migrated as with deserializeScene(); if `version` appears after the
+ * treats in the document, treats are held back until it has been read.
+ * Strict validation needs the whole document, so use deserializeScene()
+ * for that.
+ *
+ * @param stream - Stream of UTF-8 bytes or text
+ * @param options - Stream options
+ * @returns Async generator of treat batches, returning the full SceneState
+ * @throws Error if the stream is not a JSON object or is missing required fields
+ *
+ * @example
+ * const response = await fetch(sceneUrl);
+ * const batches = deserializeSceneStream(response.body!, { batchSize: 200 });
+ * let next = await batches.next();
+ * while (!next.done) {
+ *   placeTreats(next.value); // first treats appear while the rest download
+ *   next = await batches.next();
+ * }
+ * const scene = next.value;
+ */
+export async function* deserializeSceneStream(
+  stream: ReadableStream<Uint8Array | string>,
+  options: StreamDeserializeOptions = {}
+): AsyncGenerator<Treat[], SceneState, void> {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+
+  const fields: Record<string, unknown> = {};
+  const yielded: Treat[][] = [];
+  let pendingRaw: LegacySerializedTreat[] = [];
+  const batch: Treat[] = [];
+
+  // Scanner state; offsets are relative to `buffer`
+  let buffer = '';
+  let offset = 0;
+  let phase: ScanPhase = 'root';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let key = '';
+  let tokenStart = -1;
+
+  const version = (): number | undefined =>
+    'version' in fields ? Number(fields.version) || 1 : undefined;
+
+  const flushPending = (known: number): void => {
+    for (const held of pendingRaw) {
+      batch.push(deserializeTreatFromVersion(held, known));
+    }
+    pendingRaw = [];
+  };
+
+  const addTreat = (raw: LegacySerializedTreat): void => {
+    const known = version();
+    if (known === undefined) {
+      pendingRaw.push(raw);
+      return;
+    }
+    flushPending(known);
+    batch.push(deserializeTreatFromVersion(raw, known));
+  };
+
+  /** Scan the buffered text; returns whether the root object has closed */
+  const scan = (): boolean => {
+    for (; offset < buffer.length; offset++) {
+      const ch = buffer[offset];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"') {
+          inString = false;
+          if (phase === 'key') {
+            key = JSON.parse(buffer.slice(tokenStart, offset + 1)) as string;
+            tokenStart = -1;
+            phase = 'colon';
+          }
+        }
+        continue;
+      }
+
+      if (isWhitespace(ch)) {
+        continue;
+      }
+
+      switch (phase) {
+        case 'root':
+          if (ch !== '{') {
+            throw new Error('Invalid scene stream: expected a JSON object');
+          }
+          depth = 1;
+          phase = 'key';
+          continue;
+
+        case 'key':
+          if (ch === '}') {
+            depth = 0;
+            phase = 'done';
+          } else if (ch === '"') {
+            inString = true;
+            tokenStart = offset;
+          } else {
+            throw new Error(`Invalid scene stream: unexpected "${ch}" where a key was expected`);
+          }
+          continue;
+
+        case 'colon':
+          if (ch !== ':') {
+            throw new Error(`Invalid scene stream: expected ":" after "${key}"`);
+          }
+          phase = 'value';
+          continue;
+
+        case 'value':
+          if (key === 'treats' && ch === '[') {
+            depth = 2;
+            phase = 'treats';
+            continue;
+          }
+          tokenStart = offset;
+          phase = 'in-value';
+          break;
+
+        case 'after-value':
+          if (ch === ',') {
+            phase = 'key';
+          } else if (ch === '}') {
+            depth = 0;
+            phase = 'done';
+          } else {
+            throw new Error(`Invalid scene stream: unexpected "${ch}" after "${key}"`);
+          }
+          continue;
+
+        case 'done':
+          throw new Error('Invalid scene stream: unexpected data after the scene object');
+      }
+
+      // Inside a value: find where it (or the current treat) ends
+      if (phase === 'treats' && depth === 2) {
+        if (ch === ',' || ch === ']') {
+          if (tokenStart >= 0) {
+            addTreat(JSON.parse(buffer.slice(tokenStart, offset)) as LegacySerializedTreat);
+            tokenStart = -1;
+          }
+          if (ch === ']') {
+            depth = 1;
+            phase = 'after-value';
+          }
+          continue;
+        }
+        if (tokenStart < 0) {
+          tokenStart = offset;
+        }
+      }
+      if (phase === 'in-value' && depth === 1 && (ch === ',' || ch === '}')) {
+        fields[key] = JSON.parse(buffer.slice(tokenStart, offset));
+        tokenStart = -1;
+        phase = ch === ',' ? 'key' : 'done';
+        depth = ch === ',' ? 1 : 0;
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+      }
+    }
+
+    // Drop everything before the token still being read
+    const keepFrom = tokenStart >= 0 ? tokenStart : offset;
+    buffer = buffer.slice(keepFrom);
+    offset -= keepFrom;
+    if (tokenStart >= 0) {
+      tokenStart = 0;
+    }
+    return phase === 'done';
+  };
+
+  let complete = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : typeof value === 'string'
+          ? value
+          : decoder.decode(value, { stream: true });
+      complete = scan();
+      if (done) {
+        // Documents without a version are version 1
+        flushPending(version() ?? 1);
+      }
+
+      while (batch.length >= batchSize || (done && batch.length > 0)) {
+        const next = batch.splice(0, batchSize);
+        yielded.push(next);
+        yield next;
+      }
+
+      if (done) {
+        break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!complete) {
+    throw new Error('Invalid scene stream: document ended before the scene object closed');
+  }
+
+  const state = deserializeSceneFromObject({
+    ...fields,
+    treats: [],
+  } as unknown as LegacySceneDocument);
+  state.treats = yielded.flat();
+  return state;
+}
+
+function isWhitespace(ch: string): boolean {
+  return ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+}
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for SceneValidator and strict deserialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSceneState, formatValidationIssue, SceneValidationError } from './SceneValidator';
+import { deserializeScene, deserializeSceneFromObject } from './SceneDeserializer';
+
+function validScene(): Record<string, unknown> {
+  return {
+    version: 2,
+    worldUrl: 'https://example.com/world.spz',
+    treats: [
+      {
+        id: 'treat-1',
+        type: 'bottle',
+        glbUrl: 'https://example.com/bottle.glb',
+        message: 'Hello',
+        position: { x: 1, y: 2, z: 3 },
+        rotation: { x: 0, y: 0, z: 0 },
+      },
+    ],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  };
+}
+
+describe('validateSceneState', () => {
+  it('should accept a valid scene', () => {
+    const result = validateSceneState(validScene());
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should reject non-object input', () => {
+    const result = validateSceneState('nope');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toEqual({ path: '', message: 'expected scene object' });
+  });
+
+  it('should report path-qualified errors for bad treat fields', () => {
+    const scene = validScene();
+    scene.treats = [
+      ...(scene.treats as unknown[]),
+      {
+        id: 'treat-2',
+        type: 'bottle',
+        position: { x: 0, y: 'high', z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+      },
+    ];
+
+    const messages = validateSceneState(scene).errors.map(formatValidationIssue);
+
+    expect(messages).toContain('treats[1].glbUrl: required');
+    expect(messages).toContain('treats[1].position.y: expected finite number');
+  });
+
+  it('should report a missing position', () => {
+    const scene = validScene();
+    delete (scene.treats as Record<string, unknown>[])[0].position;
+
+    const messages = validateSceneState(scene).errors.map(formatValidationIssue);
+
+    expect(messages).toEqual(['treats[0].position: required']);
+  });
+
+  it('should report duplicate treat ids', () => {
+    const scene = validScene();
+    const [treat] = scene.treats as Record<string, unknown>[];
+    scene.treats = [treat, { ...treat }];
+
+    const messages = validateSceneState(scene).errors.map(formatValidationIssue);
+
+    expect(messages).toEqual(['treats[1].id: duplicate id "treat-1" (also at treats[0])']);
+  });
+
+  it('should require worldUrl but allow an empty one', () => {
+    const missing = validScene();
+    delete missing.worldUrl;
+    expect(validateSceneState(missing).errors.map(formatValidationIssue)).toEqual([
+      'worldUrl: required',
+    ]);
+
+    const empty = { ...validScene(), worldUrl: '' };
+    expect(validateSceneState(empty).valid).toBe(true);
+  });
+
+  it('should require an object signature with string fields', () => {
+    for (const signature of [null, 'q83vEjRWeJA']) {
+      expect(
+        validateSceneState({ ...validScene(), signature }).errors.map(formatValidationIssue)
+      ).toEqual(['signature: expected object']);
+    }
+
+    const partial = { ...validScene(), signature: { alg: 'Ed25519', keyId: 7 } };
+    expect(validateSceneState(partial).errors.map(formatValidationIssue)).toEqual([
+      'signature.keyId: expected string',
+      'signature.value: required',
+    ]);
+  });
+
+  it('should accept legacy v1 documents with metadata.text and shouldFlip', () => {
+    const result = validateSceneState({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      shouldFlip: true,
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'message-bottle',
+          glbUrl: 'https://example.com/bottle.glb',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+          scale: { x: 1, y: 1, z: 1 },
+          metadata: { text: 'Hi' },
+        },
+      ],
+      waypoints: [],
+      paths: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should warn about tolerated problems without failing', () => {
+    const scene = validScene();
+    delete scene.version;
+    delete scene.createdAt;
+    (scene.treats as Record<string, unknown>[])[0].message = 'x'.repeat(300);
+
+    const result = validateSceneState(scene);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(formatValidationIssue)).toEqual([
+      'version: missing, assuming version 1',
+      'treats[0].message: longer than 280 characters',
+      'createdAt: missing, defaulting to now',
+    ]);
+  });
+
+  it('should warn when a path references an unknown waypoint', () => {
+    const scene = {
+      ...validScene(),
+      waypoints: [{ id: 'wp-1', position: { x: 0, y: 0, z: 0 } }],
+      paths: [{ id: 'tour', name: 'Tour', waypointIds: ['wp-1', 'wp-9'] }],
+    };
+
+    const result = validateSceneState(scene);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(formatValidationIssue)).toEqual([
+      'paths[0].waypointIds[1]: unknown waypoint "wp-9"',
+    ]);
+  });
+});
+
+describe('strict deserialization', () => {
+  it('should throw SceneValidationError carrying all errors', () => {
+    const scene = validScene();
+    delete (scene.treats as Record<string, unknown>[])[0].glbUrl;
+    delete (scene.treats as Record<string, unknown>[])[0].position;
+
+    let thrown: unknown;
+    try {
+      deserializeScene(JSON.stringify(scene), { strict: true });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(SceneValidationError);
+    const validationError = thrown as SceneValidationError;
+    expect(validationError.errors).toHaveLength(2);
+    expect(validationError.message).toBe('Invalid scene: treats[0].glbUrl: required (and 1 more)');
+  });
+
+  it('should deserialize valid scenes in strict mode', () => {
+    const state = deserializeSceneFromObject(
+      validScene() as unknown as Parameters<typeof deserializeSceneFromObject>[0],
+      { strict: true }
+    );
+    expect(state.treats[0].position).toEqual({ x: 1, y: 2, z: 3 });
+  });
+
+  it('should not validate in non-strict mode', () => {
+    const scene = validScene();
+    delete (scene.treats as Record<string, unknown>[])[0].glbUrl;
+
+    expect(() => deserializeScene(JSON.stringify(scene))).not.toThrow();
+  });
+});
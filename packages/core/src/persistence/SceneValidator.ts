@@ -0,0 +1,432 @@
+/**
+ * SceneValidator - Structural validation of scene documents.
+ *
+ * Checks raw (parsed but untrusted) scene data and reports every problem with
+ * a JSON path, e.g. `treats[3].position.y: expected finite number`.
+ * Accepts both current (v2) documents and legacy v1 shapes, since validation
+ * runs before migration.
+ *
+ * @module @worldnotes/core/persistence/SceneValidator
+ */
+
+import { CURRENT_VERSION } from './SceneSerializer';
+
+/**
+ * Maximum recommended message length (characters)
+ *
+ * @internal Shared with WorldModel, which truncates longer messages
+ */
+export const MAX_MESSAGE_LENGTH = 280;
+
+/** Valid waypoint action types */
+const VALID_ACTION_TYPES = ['audio', 'text', 'activate'];
+
+/**
+ * A single validation problem.
+ */
+export interface SceneValidationIssue {
+  /** JSON path of the offending value (empty string for the document root) */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of validateSceneState().
+ */
+export interface SceneValidationResult {
+  /** True when there are no errors (warnings are allowed) */
+  valid: boolean;
+  /** Problems that make the scene unusable */
+  errors: SceneValidationIssue[];
+  /** Problems that are tolerated but worth reporting */
+  warnings: SceneValidationIssue[];
+}
+
+/**
+ * Format an issue as `path: message`.
+ *
+ * @param issue - Validation issue to format
+ * @returns Single-line description
+ */
+export function formatValidationIssue(issue: SceneValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Error thrown by strict deserialization when a scene fails validation.
+ * Carries the full list of errors and warnings.
+ *
+ * @example
+ * try {
+ *   deserializeScene(json, { strict: true });
+ * } catch (error) {
+ *   if (error instanceof SceneValidationError) {
+ *     error.errors.forEach((e) => console.warn(formatValidationIssue(e)));
+ *   }
+ * }
+ */
+export class SceneValidationError extends Error {
+  /** Problems that made the scene invalid */
+  readonly errors: SceneValidationIssue[];
+  /** Non-fatal problems found alongside the errors */
+  readonly warnings: SceneValidationIssue[];
+
+  constructor(result: SceneValidationResult) {
+    const [first] = result.errors;
+    const more = result.errors.length > 1 ? ` (and ${result.errors.length - 1} more)` : '';
+    super(`Invalid scene: ${first ? formatValidationIssue(first) : 'unknown error'}${more}`);
+    this.name = 'SceneValidationError';
+    this.errors = result.errors;
+    this.warnings = result.warnings;
+  }
+}
+
+/**
+ * Collects issues while walking a document.
+ */
+interface IssueCollector {
+  errors: SceneValidationIssue[];
+  warnings: SceneValidationIssue[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function error(out: IssueCollector, path: string, message: string): void {
+  out.errors.push({ path, message });
+}
+
+function warning(out: IssueCollector, path: string, message: string): void {
+  out.warnings.push({ path, message });
+}
+
+/**
+ * Check an optional field has the expected primitive type.
+ */
+function checkOptional(
+  out: IssueCollector,
+  obj: Record<string, unknown>,
+  path: string,
+  key: string,
+  type: 'string' | 'boolean' | 'number'
+): void {
+  const value = obj[key];
+  if (value === undefined) {
+    return;
+  }
+  if (type === 'number' ? !isFiniteNumber(value) : typeof value !== type) {
+    error(out, join(path, key), `expected ${type === 'number' ? 'finite number' : type}`);
+  }
+}
+
+/**
+ * Check a required non-empty string.
+ */
+function checkRequiredString(
+  out: IssueCollector,
+  obj: Record<string, unknown>,
+  path: string,
+  key: string
+): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    error(out, join(path, key), 'required');
+  } else if (typeof value !== 'string') {
+    error(out, join(path, key), 'expected string');
+  } else if (value.trim() === '') {
+    error(out, join(path, key), 'expected non-empty string');
+  }
+}
+
+/**
+ * Check an optional ISO 8601 timestamp.
+ */
+function checkTimestamp(
+  out: IssueCollector,
+  obj: Record<string, unknown>,
+  path: string,
+  key: string
+): void {
+  const value = obj[key];
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'string') {
+    error(out, join(path, key), 'expected ISO 8601 string');
+  } else if (Number.isNaN(Date.parse(value))) {
+    warning(out, join(path, key), 'not a valid ISO 8601 timestamp');
+  }
+}
+
+/**
+ * Check an object of finite numbers with the given keys.
+ */
+function checkNumbers(
+  out: IssueCollector,
+  value: unknown,
+  path: string,
+  keys: string[],
+  required: boolean
+): void {
+  if (value === undefined && !required) {
+    return;
+  }
+  if (!isObject(value)) {
+    error(out, path, value === undefined ? 'required' : 'expected object');
+    return;
+  }
+  for (const key of keys) {
+    if (!isFiniteNumber(value[key])) {
+      error(out, join(path, key), 'expected finite number');
+    }
+  }
+}
+
+function checkVector3(out: IssueCollector, value: unknown, path: string, required: boolean): void {
+  checkNumbers(out, value, path, ['x', 'y', 'z'], required);
+}
+
+function validateTreat(out: IssueCollector, treat: unknown, path: string): void {
+  if (!isObject(treat)) {
+    error(out, path, 'expected object');
+    return;
+  }
+
+  checkRequiredString(out, treat, path, 'id');
+  checkRequiredString(out, treat, path, 'type');
+  checkRequiredString(out, treat, path, 'glbUrl');
+  checkVector3(out, treat.position, join(path, 'position'), true);
+  checkVector3(out, treat.rotation, join(path, 'rotation'), true);
+  if (isObject(treat.rotation)) {
+    checkOptional(out, treat.rotation, join(path, 'rotation'), 'order', 'string');
+  }
+  checkVector3(out, treat.scale, join(path, 'scale'), false);
+
+  checkOptional(out, treat, path, 'message', 'string');
+  if (typeof treat.message === 'string' && treat.message.length > MAX_MESSAGE_LENGTH) {
+    warning(out, join(path, 'message'), `longer than ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  if (treat.metadata !== undefined) {
+    const metadataPath = join(path, 'metadata');
+    if (!isObject(treat.metadata)) {
+      error(out, metadataPath, 'expected object');
+    } else {
+      // `text` is the legacy (v1) location of the message
+      checkOptional(out, treat.metadata, metadataPath, 'text', 'string');
+      checkOptional(out, treat.metadata, metadataPath, 'behaviorCode', 'string');
+      checkOptional(out, treat.metadata, metadataPath, 'objectId', 'string');
+    }
+  }
+
+  checkTimestamp(out, treat, path, 'createdAt');
+  checkTimestamp(out, treat, path, 'updatedAt');
+}
+
+function validateWaypoint(out: IssueCollector, waypoint: unknown, path: string): void {
+  if (!isObject(waypoint)) {
+    error(out, path, 'expected object');
+    return;
+  }
+
+  checkRequiredString(out, waypoint, path, 'id');
+  checkVector3(out, waypoint.position, join(path, 'position'), true);
+  checkOptional(out, waypoint, path, 'pathId', 'string');
+  checkOptional(out, waypoint, path, 'order', 'number');
+
+  if (waypoint.triggerAction !== undefined) {
+    const actionPath = join(path, 'triggerAction');
+    const action = waypoint.triggerAction;
+    if (!isObject(action)) {
+      error(out, actionPath, 'expected object');
+    } else {
+      if (!VALID_ACTION_TYPES.includes(action.type as string)) {
+        warning(
+          out,
+          join(actionPath, 'type'),
+          `unknown action type, expected one of ${VALID_ACTION_TYPES.join(', ')}`
+        );
+      }
+      if (typeof action.payload !== 'string') {
+        error(out, join(actionPath, 'payload'), 'expected string');
+      }
+    }
+  }
+}
+
+function validatePath(
+  out: IssueCollector,
+  wpPath: unknown,
+  path: string,
+  waypointIds: Set<string>
+): void {
+  if (!isObject(wpPath)) {
+    error(out, path, 'expected object');
+    return;
+  }
+
+  checkRequiredString(out, wpPath, path, 'id');
+  checkOptional(out, wpPath, path, 'name', 'string');
+
+  const idsPath = join(path, 'waypointIds');
+  if (!Array.isArray(wpPath.waypointIds)) {
+    error(out, idsPath, 'expected array');
+    return;
+  }
+  wpPath.waypointIds.forEach((id, index) => {
+    if (typeof id !== 'string') {
+      error(out, join(idsPath, index), 'expected string');
+    } else if (!waypointIds.has(id)) {
+      warning(out, join(idsPath, index), `unknown waypoint "${id}"`);
+    }
+  });
+}
+
+/**
+ * Validate an array field and each of its items.
+ * Returns the array when present so callers can run cross-item checks.
+ */
+function validateArray(
+  out: IssueCollector,
+  doc: Record<string, unknown>,
+  key: string,
+  validateItem: (item: unknown, path: string) => void
+): unknown[] | null {
+  const value = doc[key];
+  if (value === undefined) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    error(out, key, 'expected array');
+    return null;
+  }
+  value.forEach((item, index) => validateItem(item, join(key, index)));
+  return value;
+}
+
+/**
+ * Report duplicate `id` values within an array.
+ */
+function checkUniqueIds(out: IssueCollector, items: unknown[], key: string): void {
+  const seen = new Map<string, number>();
+  items.forEach((item, index) => {
+    if (!isObject(item) || typeof item.id !== 'string') {
+      return;
+    }
+    const previous = seen.get(item.id);
+    if (previous !== undefined) {
+      error(
+        out,
+        join(join(key, index), 'id'),
+        `duplicate id "${item.id}" (also at ${key}[${previous}])`
+      );
+    } else {
+      seen.set(item.id, index);
+    }
+  });
+}
+
+/**
+ * Validate a parsed scene document without modifying it.
+ * Reports every problem found rather than stopping at the first one.
+ *
+ * @param data - Parsed scene data (untrusted)
+ * @returns Validation result with path-qualified errors and warnings
+ *
+ * @example
+ * const result = validateSceneState(JSON.parse(json));
+ * if (!result.valid) {
+ *   console.error(result.errors.map(formatValidationIssue).join('\n'));
+ * }
+ */
+export function validateSceneState(data: unknown): SceneValidationResult {
+  const out: IssueCollector = { errors: [], warnings: [] };
+
+  if (!isObject(data)) {
+    error(out, '', 'expected scene object');
+    return { valid: false, ...out };
+  }
+
+  // Version
+  if (data.version === undefined) {
+    warning(out, 'version', 'missing, assuming version 1');
+  } else if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    error(out, 'version', 'expected positive integer');
+  } else if ((data.version as number) > CURRENT_VERSION) {
+    warning(out, 'version', `newer than supported version ${CURRENT_VERSION}`);
+  }
+
+  // World settings (an empty worldUrl is allowed for empty worlds)
+  if (data.worldUrl === undefined || data.worldUrl === null) {
+    error(out, 'worldUrl', 'required');
+  } else if (typeof data.worldUrl !== 'string') {
+    error(out, 'worldUrl', 'expected string');
+  }
+  checkOptional(out, data, '', 'worldName', 'string');
+  checkOptional(out, data, '', 'worldFlipY', 'boolean');
+  checkOptional(out, data, '', 'shouldFlip', 'boolean');
+  checkOptional(out, data, '', 'thumbnailUrl', 'string');
+  checkOptional(out, data, '', 'editTokenHash', 'string');
+  checkOptional(out, data, '', 'expiresAt', 'string');
+  if (data.signature !== undefined) {
+    if (!isObject(data.signature)) {
+      error(out, 'signature', 'expected object');
+    } else {
+      for (const key of ['alg', 'keyId', 'value']) {
+        checkRequiredString(out, data.signature, 'signature', key);
+      }
+    }
+  }
+  checkVector3(out, data.startPosition, 'startPosition', false);
+  checkNumbers(out, data.startRotation, 'startRotation', ['x', 'y'], false);
+
+  // Treats
+  if (data.treats === undefined) {
+    warning(out, 'treats', 'missing, assuming no treats');
+  }
+  const treats = validateArray(out, data, 'treats', (treat, path) =>
+    validateTreat(out, treat, path)
+  );
+  if (treats) {
+    checkUniqueIds(out, treats, 'treats');
+  }
+
+  // Waypoints and paths
+  const waypoints = validateArray(out, data, 'waypoints', (waypoint, path) =>
+    validateWaypoint(out, waypoint, path)
+  );
+  if (waypoints) {
+    checkUniqueIds(out, waypoints, 'waypoints');
+  }
+  const waypointIds = new Set(
+    (waypoints ?? [])
+      .filter(isObject)
+      .map((waypoint) => waypoint.id)
+      .filter((id): id is string => typeof id === 'string')
+  );
+  validateArray(out, data, 'paths', (wpPath, path) => validatePath(out, wpPath, path, waypointIds));
+
+  // Timestamps
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (data[key] === undefined) {
+      warning(out, key, 'missing, defaulting to now');
+    } else {
+      checkTimestamp(out, data, '', key);
+    }
+  }
+
+  return { valid: out.errors.length === 0, ...out };
+}
@@ -8,20 +8,93 @@ export {
   serializeScene,
   serializeSceneToObject,
   serializeVector3,
+  serializeEuler,
   serializeTreat,
+  serializeWaypoint,
+  serializeWaypointPath,
   CURRENT_VERSION,
   type SerializedSceneState,
   type SerializedVector3,
+  type SerializedEuler,
   type SerializedTreat,
+  type SerializedWaypoint,
+  type SerializedWaypointPath,
 } from './SceneSerializer';
 
 export {
   deserializeScene,
   deserializeSceneFromObject,
   deserializeVector3,
+  deserializeEuler,
   deserializeTreat,
+  deserializeWaypoint,
+  deserializeWaypointPath,
   migrateScene,
+  type DeserializeOptions,
+  type LegacySceneDocument,
+  type LegacySerializedTreat,
 } from './SceneDeserializer';
 
+export { deserializeSceneStream, type StreamDeserializeOptions } from './SceneStream';
+
+export {
+  validateSceneState,
+  formatValidationIssue,
+  SceneValidationError,
+  type SceneValidationIssue,
+  type SceneValidationResult,
+} from './SceneValidator';
+
+export {
+  encodeSceneBinary,
+  decodeSceneBinary,
+  isSceneBinary,
+  SCENE_BINARY_MAGIC,
+  SCENE_BINARY_FORMAT_VERSION,
+  type SceneBinaryOptions,
+} from './SceneBinary';
+
+export {
+  diffScenes,
+  applyScenePatch,
+  type SceneOperation,
+  type DiffOptions,
+  type TreatTransform,
+  type TreatProperties,
+  type WorldSettingKey,
+} from './SceneDiff';
+
+export {
+  mergeScenes,
+  type SceneMergeConflict,
+  type SceneMergeResult,
+  type MergeOptions,
+} from './SceneMerge';
+
+export {
+  exportSceneToGltf,
+  exportSceneToGlb,
+  importSceneFromGltf,
+  importSceneFromGlb,
+  type GltfDocument,
+  type GltfNode,
+  type GltfImportOptions,
+} from './SceneGltf';
+
+export { canonicalizeScene, hashScene } from './SceneHash';
+
+export {
+  signScene,
+  signCanonicalScene,
+  isSameSignature,
+  verifySceneSignature,
+  deserializeVerifiedScene,
+  type SceneSigningKey,
+  type TrustedSceneKeys,
+  type SceneVerification,
+  type SceneVerificationStatus,
+  type VerifyOptions,
+} from './SceneSignature';
+
 // Re-export SceneState for convenience
 export type { SceneState } from '../types';
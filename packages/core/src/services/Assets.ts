@@ -0,0 +1,116 @@
+/**
+ * Assets - Content-addressed storage for uploaded treat models.
+ *
+ * Uploaded GLB files are stored under `assets/<sha256>.glb`, so the same
+ * model uploaded twice (or by two people) is stored once, and an asset's
+ * URL never changes what it points to. Scenes reference uploads through
+ * Treat.glbUrl like any other model.
+ *
+ * The type and size checks run in the client only. With the bucket policy
+ * in aws/s3-access.json, anonymous Cognito identities can put any object
+ * under `assets/`, including one whose body doesn't match its hash; there
+ * is no presigned or server-side upload path yet to enforce them.
+ *
+ * @module @worldnotes/core/services/Assets
+ */
+
+/** Content-Type stored with GLB assets */
+export const GLB_CONTENT_TYPE = 'model/gltf-binary';
+
+/** Largest GLB accepted by uploadAsset() unless the caller sets maxBytes */
+export const MAX_GLB_BYTES = 25 * 1024 * 1024;
+
+/** Magic number at the start of every binary glTF file ('glTF') */
+const GLB_MAGIC = 0x46546c67;
+
+/** Size of the GLB header: magic, version and total length */
+const GLB_HEADER_BYTES = 12;
+
+/**
+ * Options for uploadAsset()
+ */
+export interface UploadAssetOptions {
+  /** Largest accepted size in bytes (default: MAX_GLB_BYTES) */
+  maxBytes?: number;
+}
+
+/**
+ * Result of uploadAsset()
+ */
+export interface UploadedAsset {
+  /** Object key (`assets/<sha256>.glb`) */
+  key: string;
+  /** URL to put in Treat.glbUrl */
+  url: string;
+  /** Hex SHA-256 of the file */
+  sha256: string;
+  /** File size in bytes */
+  size: number;
+  /** Whether the same file was already stored, so nothing was uploaded */
+  existed: boolean;
+}
+
+/**
+ * Thrown when a file is refused before upload.
+ *
+ * @example
+ * try {
+ *   const { url } = await storage.uploadAsset(file);
+ * } catch (error) {
+ *   if (error instanceof InvalidAssetError && error.reason === 'too-large') {
+ *     // Ask for a smaller model
+ *   }
+ * }
+ */
+export class InvalidAssetError extends Error {
+  /** Why the file was refused */
+  readonly reason: 'too-large' | 'unsupported-type';
+
+  constructor(reason: 'too-large' | 'unsupported-type', message: string) {
+    super(message);
+    this.name = 'InvalidAssetError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Check that a file is a binary glTF (GLB) within the size limit. Only the
+ * header is inspected; a GLB with a valid header can still fail to load.
+ *
+ * @param bytes - File contents
+ * @param maxBytes - Largest accepted size in bytes
+ * @throws InvalidAssetError if the file is too large or not a GLB
+ */
+export function validateGlb(bytes: Uint8Array, maxBytes: number = MAX_GLB_BYTES): void {
+  if (bytes.byteLength > maxBytes) {
+    throw new InvalidAssetError(
+      'too-large',
+      `Model is ${formatMegabytes(bytes.byteLength)}; the limit is ${formatMegabytes(maxBytes)}`
+    );
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < GLB_HEADER_BYTES || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new InvalidAssetError(
+      'unsupported-type',
+      'Only binary glTF (.glb) models can be uploaded'
+    );
+  }
+}
+
+/**
+ * Hash file contents for use as an asset key.
+ *
+ * @param bytes - File contents
+ * @returns Hex-encoded SHA-256
+ */
+export async function hashAsset(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Megabytes with one decimal, for error messages.
+ */
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
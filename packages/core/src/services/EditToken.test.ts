@@ -0,0 +1,50 @@
+/**
+ * Unit tests for scene edit tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canEditScene,
+  createEditToken,
+  getEditTokenFromUrl,
+  getEditUrl,
+  hashEditToken,
+} from './EditToken';
+
+describe('createEditToken', () => {
+  it('should create distinct URL-safe tokens', () => {
+    const a = createEditToken();
+    const b = createEditToken();
+
+    expect(a).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('canEditScene', () => {
+  it('should accept only the matching token', async () => {
+    const token = createEditToken();
+    const scene = { editTokenHash: await hashEditToken(token) };
+
+    expect(await canEditScene(scene, token)).toBe(true);
+    expect(await canEditScene(scene, createEditToken())).toBe(false);
+    expect(await canEditScene(scene)).toBe(false);
+  });
+
+  it('should accept any save for scenes without an edit token', async () => {
+    expect(await canEditScene({})).toBe(true);
+  });
+});
+
+describe('edit links', () => {
+  it('should carry the token in the fragment', () => {
+    const editUrl = getEditUrl('https://app.example.com/?scene=abc&hash=123', 'tok-en_1');
+
+    expect(editUrl).toBe('https://app.example.com/?scene=abc&hash=123#edit=tok-en_1');
+    expect(getEditTokenFromUrl(editUrl)).toBe('tok-en_1');
+  });
+
+  it('should find no token in view links', () => {
+    expect(getEditTokenFromUrl('https://app.example.com/?scene=abc')).toBeUndefined();
+  });
+});
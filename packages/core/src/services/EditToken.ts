@@ -0,0 +1,116 @@
+/**
+ * EditToken - Separate edit and view capabilities for shared scenes.
+ *
+ * A scene id alone is a view capability: it goes into share links and
+ * anyone holding it can load the scene. Saving over a scene additionally
+ * takes its edit token, a random secret created on first save. Only the
+ * token's SHA-256 is stored in the scene (SceneState.editTokenHash), so
+ * reading the scene doesn't reveal it.
+ *
+ * Edit links carry the token in the URL fragment (`#edit=<token>`), which
+ * browsers don't send to servers or in Referer headers.
+ *
+ * The check runs in the storage client. It stops view links from being
+ * used to edit, but a client that writes to the bucket directly bypasses
+ * it; enforcing it against such writers needs a server in front of the
+ * bucket.
+ *
+ * @module @worldnotes/core/services/EditToken
+ */
+
+import type { SceneState } from '../types';
+
+/** URL fragment parameter holding the edit token */
+export const EDIT_TOKEN_PARAM = 'edit';
+
+/** Random bytes in a new edit token */
+const EDIT_TOKEN_BYTES = 32;
+
+/**
+ * Thrown when saving over a scene without its edit token.
+ *
+ * @example
+ * try {
+ *   await storage.saveScene(state, sceneId, { editToken });
+ * } catch (error) {
+ *   if (error instanceof SceneEditDeniedError) {
+ *     // Offer to save a copy instead
+ *   }
+ * }
+ */
+export class SceneEditDeniedError extends Error {
+  /** Scene that was being saved */
+  readonly sceneId: string;
+
+  constructor(sceneId: string) {
+    super(`Scene ${sceneId} can only be changed with its edit link`);
+    this.name = 'SceneEditDeniedError';
+    this.sceneId = sceneId;
+  }
+}
+
+/**
+ * Create a new random edit token (base64url, 43 characters).
+ *
+ * @returns Edit token
+ */
+export function createEditToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(EDIT_TOKEN_BYTES));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Hash an edit token for storage in SceneState.editTokenHash.
+ *
+ * @param token - Edit token
+ * @returns Hex-encoded SHA-256 of the token
+ */
+export async function hashEditToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check an edit token against a scene. Scenes saved before edit tokens
+ * existed have no hash and accept any save.
+ *
+ * @param state - Scene as currently stored
+ * @param token - Token presented by the caller, if any
+ * @returns Whether the token may save over the scene
+ */
+export async function canEditScene(
+  state: Pick<SceneState, 'editTokenHash'>,
+  token?: string
+): Promise<boolean> {
+  if (!state.editTokenHash) {
+    return true;
+  }
+  return token !== undefined && (await hashEditToken(token)) === state.editTokenHash;
+}
+
+/**
+ * Add an edit token to a share URL.
+ *
+ * @param shareUrl - View link for the scene
+ * @param token - The scene's edit token
+ * @returns Edit link
+ *
+ * @example
+ * getEditUrl('https://app.example.com?scene=abc', token);
+ * // 'https://app.example.com?scene=abc#edit=...'
+ */
+export function getEditUrl(shareUrl: string, token: string): string {
+  return `${shareUrl}#${EDIT_TOKEN_PARAM}=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Read the edit token from a URL, if it has one.
+ *
+ * @param url - Page URL (edit or view link)
+ * @returns Edit token, or undefined for view links
+ */
+export function getEditTokenFromUrl(url: string | URL): string | undefined {
+  const hash = new URL(url).hash.slice(1);
+  return new URLSearchParams(hash).get(EDIT_TOKEN_PARAM) ?? undefined;
+}
@@ -0,0 +1,175 @@
+/**
+ * FileSystemStorageClient - Scene storage in a Node.js directory.
+ *
+ * For tooling and scripts (imports, migrations, backups). Objects are laid
+ * out as in the bucket, so a synced copy of `scenes/` can be read directly:
+ * the body goes to `<directory>/<key>` and its content type, metadata and
+ * ETag to a `<key>.meta.json` sidecar.
+ *
+ * @module @worldnotes/core/services/FileSystemStorageClient
+ */
+
+import type { BaseStorageConfig } from '../types';
+import {
+  ObjectStorageClient,
+  checkWriteCondition,
+  createObjectETag,
+  type StoredObject,
+  type WriteCondition,
+} from './StorageClient';
+
+/** Suffix of the sidecar file holding content type and metadata */
+const META_SUFFIX = '.meta.json';
+
+/**
+ * The subset of node:fs/promises used here.
+ */
+interface NodeFs {
+  readFile(path: string): Promise<Uint8Array>;
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string | Uint8Array): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  rm(path: string, options: { force: true }): Promise<void>;
+  readdir(
+    path: string,
+    options: { withFileTypes: true }
+  ): Promise<{ name: string; isFile(): boolean }[]>;
+}
+
+/**
+ * Sidecar contents
+ */
+interface ObjectMeta {
+  contentType: string;
+  metadata?: Record<string, string>;
+  etag?: string;
+}
+
+/**
+ * StorageClient backed by files on disk (Node.js only).
+ *
+ * @example
+ * const storage = new FileSystemStorageClient({
+ *   directory: './backup',
+ *   appUrl: 'https://editor.worldnotes.app'
+ * });
+ * const state = await storage.loadScene(sceneId);
+ */
+export class FileSystemStorageClient extends ObjectStorageClient {
+  private directory: string;
+  private fs: Promise<NodeFs> | null = null;
+
+  constructor(config: BaseStorageConfig & { directory: string }) {
+    super(config);
+    this.directory = config.directory.replace(/\/$/, '');
+  }
+
+  protected async readObject(key: string): Promise<StoredObject | null> {
+    const fs = await this.loadFs();
+    const path = this.resolve(key);
+
+    let body: Uint8Array;
+    try {
+      body = await fs.readFile(path);
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    let meta: ObjectMeta = { contentType: 'application/octet-stream' };
+    try {
+      meta = JSON.parse(await fs.readFile(path + META_SUFFIX, 'utf8')) as ObjectMeta;
+    } catch (error: unknown) {
+      // Files copied in by hand have no sidecar; decodeSceneBody sniffs the format
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+
+    const object: StoredObject = { body: new Uint8Array(body), contentType: meta.contentType };
+    if (meta.metadata !== undefined) {
+      object.metadata = meta.metadata;
+    }
+    if (meta.etag !== undefined) {
+      object.etag = meta.etag;
+    }
+    return object;
+  }
+
+  /**
+   * The condition is checked just before writing, so it guards against
+   * saves made since the scene was read, though not against another
+   * process writing at the same moment.
+   */
+  protected async writeObject(
+    key: string,
+    object: StoredObject,
+    condition?: WriteCondition
+  ): Promise<string> {
+    if (condition?.ifMatch !== undefined || condition?.ifNoneMatch !== undefined) {
+      checkWriteCondition(key, await this.readObject(key), condition);
+    }
+
+    const fs = await this.loadFs();
+    const path = this.resolve(key);
+    const etag = createObjectETag();
+    const meta: ObjectMeta = { contentType: object.contentType, etag };
+    if (object.metadata !== undefined) {
+      meta.metadata = object.metadata;
+    }
+
+    await fs.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+    await fs.writeFile(path, object.body);
+    await fs.writeFile(path + META_SUFFIX, JSON.stringify(meta));
+    return etag;
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    const fs = await this.loadFs();
+    const path = this.resolve(key);
+    await fs.rm(path, { force: true });
+    await fs.rm(path + META_SUFFIX, { force: true });
+  }
+
+  protected async listObjects(prefix: string): Promise<string[]> {
+    const fs = await this.loadFs();
+    let entries: { name: string; isFile(): boolean }[];
+    try {
+      entries = await fs.readdir(this.resolve(prefix.replace(/\/$/, '')), { withFileTypes: true });
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+    return entries
+      .filter((entry) => entry.isFile() && !entry.name.endsWith(META_SUFFIX))
+      .map((entry) => prefix + entry.name)
+      .sort();
+  }
+
+  /**
+   * Path of an object key inside the directory.
+   * Keys are generated by ObjectStorageClient, but scene ids come from
+   * callers, so refuse anything that would escape the directory.
+   */
+  private resolve(key: string): string {
+    if (key.split('/').some((part) => part === '..' || part === '')) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return `${this.directory}/${key}`;
+  }
+
+  private loadFs(): Promise<NodeFs> {
+    // Specifier in a variable so browser bundlers don't try to resolve it
+    const specifier = 'node:fs/promises';
+    this.fs ??= import(/* @vite-ignore */ specifier) as Promise<NodeFs>;
+    return this.fs;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'ENOENT';
+}
@@ -0,0 +1,144 @@
+/**
+ * IndexedDBStorageClient - Scene storage in the browser's IndexedDB.
+ *
+ * For local drafts that should survive a reload without being uploaded.
+ * Each scene is one record in an object store keyed by its object key.
+ *
+ * @module @worldnotes/core/services/IndexedDBStorageClient
+ */
+
+import type { BaseStorageConfig } from '../types';
+import {
+  ObjectStorageClient,
+  checkWriteCondition,
+  createObjectETag,
+  listDirectChildren,
+  type StoredObject,
+  type WriteCondition,
+} from './StorageClient';
+
+/** Database name when none is configured */
+const DEFAULT_DATABASE_NAME = 'worldnotes';
+
+/** Object store holding scene records */
+const OBJECT_STORE = 'objects';
+
+/**
+ * StorageClient backed by IndexedDB.
+ *
+ * @example
+ * const drafts = new IndexedDBStorageClient({ appUrl: location.origin });
+ * // Drafts stay on this device, so a fixed edit token will do
+ * await drafts.saveScene(state, 'draft', { editToken: 'local' });
+ * const draft = await drafts.loadScene('draft');
+ */
+export class IndexedDBStorageClient extends ObjectStorageClient {
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(config: BaseStorageConfig & { databaseName?: string }) {
+    super(config);
+    this.databaseName = config.databaseName ?? DEFAULT_DATABASE_NAME;
+  }
+
+  protected async readObject(key: string): Promise<StoredObject | null> {
+    const record = await this.run('readonly', (store) => store.get(key));
+    return (record as StoredObject | undefined) ?? null;
+  }
+
+  /**
+   * Checks the condition in the same transaction as the write, so no other
+   * write can land in between.
+   */
+  protected async writeObject(
+    key: string,
+    object: StoredObject,
+    condition?: WriteCondition
+  ): Promise<string> {
+    const etag = createObjectETag();
+    let failure: unknown;
+    try {
+      await this.run('readwrite', (store) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          try {
+            checkWriteCondition(
+              key,
+              (request.result as StoredObject | undefined) ?? null,
+              condition
+            );
+            store.put({ ...object, etag }, key);
+          } catch (error) {
+            failure = error;
+            store.transaction.abort();
+          }
+        };
+        return request;
+      });
+    } catch (error) {
+      throw failure ?? error;
+    }
+    return etag;
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  protected async listObjects(prefix: string): Promise<string[]> {
+    const keys = await this.run('readonly', (store) => store.getAllKeys());
+    return listDirectChildren(
+      keys.filter((key): key is string => typeof key === 'string'),
+      prefix
+    );
+  }
+
+  /**
+   * Close the database connection. It is reopened on the next call.
+   */
+  async close(): Promise<void> {
+    if (this.database) {
+      (await this.database).close();
+      this.database = null;
+    }
+  }
+
+  /**
+   * Run one request against the object store in its own transaction and
+   * resolve once the transaction has completed.
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE, mode);
+      const request = makeRequest(transaction.objectStore(OBJECT_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available in this environment');
+      }
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OBJECT_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let the next call try again
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * MemoryStorageClient - In-process scene storage.
+ *
+ * Keeps scenes in a Map for the lifetime of the client. Meant for tests
+ * and for running the editor without any storage configured.
+ *
+ * @module @worldnotes/core/services/MemoryStorageClient
+ */
+
+import type { BaseStorageConfig } from '../types';
+import {
+  ObjectStorageClient,
+  checkWriteCondition,
+  createObjectETag,
+  listDirectChildren,
+  type StoredObject,
+  type WriteCondition,
+} from './StorageClient';
+
+/**
+ * StorageClient that keeps scenes in memory.
+ *
+ * @example
+ * const storage = new MemoryStorageClient({ appUrl: 'http://localhost:5173' });
+ * const { sceneId } = await storage.saveScene(state);
+ * const loaded = await storage.loadScene(sceneId);
+ */
+export class MemoryStorageClient extends ObjectStorageClient {
+  private objects = new Map<string, StoredObject>();
+
+  constructor(config: BaseStorageConfig) {
+    super(config);
+  }
+
+  protected async readObject(key: string): Promise<StoredObject | null> {
+    const object = this.objects.get(key);
+    return object ? copyObject(object) : null;
+  }
+
+  protected async writeObject(
+    key: string,
+    object: StoredObject,
+    condition?: WriteCondition
+  ): Promise<string> {
+    checkWriteCondition(key, this.objects.get(key) ?? null, condition);
+    const etag = createObjectETag();
+    this.objects.set(key, { ...copyObject(object), etag });
+    return etag;
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  protected async listObjects(prefix: string): Promise<string[]> {
+    return listDirectChildren(this.objects.keys(), prefix);
+  }
+}
+
+/**
+ * Copy an object so callers can't change what's stored through a shared
+ * Uint8Array or metadata record.
+ */
+function copyObject(object: StoredObject): StoredObject {
+  const copy: StoredObject = {
+    body: typeof object.body === 'string' ? object.body : object.body.slice(),
+    contentType: object.contentType,
+  };
+  if (object.metadata !== undefined) {
+    copy.metadata = { ...object.metadata };
+  }
+  if (object.etag !== undefined) {
+    copy.etag = object.etag;
+  }
+  return copy;
+}
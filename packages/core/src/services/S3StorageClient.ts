@@ -0,0 +1,240 @@
+/**
+ * S3StorageClient - Scene storage in an S3 bucket.
+ *
+ * Uses AWS Cognito Identity Pool for anonymous credentials (no login
+ * required), like the skeleton's StorageService and viewer.html. Server-side
+ * tools pass AWS credentials instead (see S3ServerStorageConfig).
+ *
+ * @module @worldnotes/core/services/S3StorageClient
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  type S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
+import type { StorageConfig } from '../types';
+import {
+  ObjectStorageClient,
+  PreconditionFailedError,
+  type StoredObject,
+  type StoredObjectInfo,
+  type WriteCondition,
+} from './StorageClient';
+
+/**
+ * S3 configuration for server-side tools, such as the purge script, which
+ * use their own AWS credentials rather than the app's Cognito pool.
+ *
+ * @example
+ * const storage = new S3StorageClient({
+ *   region: 'us-east-1',
+ *   bucketName: 'worldnotes-scenes',
+ *   appUrl: 'https://editor.worldnotes.app',
+ *   credentials: fromNodeProviderChain(),
+ * });
+ */
+export interface S3ServerStorageConfig extends Omit<StorageConfig, 'identityPoolId'> {
+  /** AWS credentials, or a provider of them, to sign requests with */
+  credentials: NonNullable<S3ClientConfig['credentials']>;
+}
+
+/**
+ * StorageClient backed by S3.
+ *
+ * @example
+ * const storage = new S3StorageClient({
+ *   region: 'us-east-1',
+ *   identityPoolId: 'us-east-1:xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx',
+ *   bucketName: 'worldnotes-scenes',
+ *   appUrl: 'https://editor.worldnotes.app'
+ * });
+ * const { shareUrl } = await storage.saveScene(state);
+ */
+export class S3StorageClient extends ObjectStorageClient {
+  private s3Client: S3Client;
+  private bucketName: string;
+
+  /**
+   * @param config - S3 configuration with a Cognito pool or AWS credentials
+   * @param s3Client - Client to use instead of one built from `config`
+   */
+  constructor(config: StorageConfig | S3ServerStorageConfig, s3Client?: S3Client) {
+    super({
+      ...config,
+      assetBaseUrl:
+        config.assetBaseUrl ?? `https://${config.bucketName}.s3.${config.region}.amazonaws.com`,
+    });
+    this.bucketName = config.bucketName;
+    this.s3Client =
+      s3Client ??
+      new S3Client({
+        region: config.region,
+        credentials:
+          'credentials' in config
+            ? config.credentials
+            : fromCognitoIdentityPool({
+                identityPoolId: config.identityPoolId,
+                clientConfig: { region: config.region },
+              }),
+      });
+  }
+
+  protected async readObject(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.bucketName, Key: key })
+      );
+      if (!response.Body) {
+        return null;
+      }
+
+      const object: StoredObject = {
+        body: await response.Body.transformToByteArray(),
+        contentType: response.ContentType ?? 'application/octet-stream',
+      };
+      if (response.Metadata !== undefined) {
+        object.metadata = response.Metadata;
+      }
+      // Missing when the bucket's CORS rules don't expose it
+      if (response.ETag !== undefined) {
+        object.etag = response.ETag;
+      }
+      return object;
+    } catch (error: unknown) {
+      // Check if it's a "not found" error
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  protected async writeObject(
+    key: string,
+    object: StoredObject,
+    condition: WriteCondition = {}
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: object.body,
+          ContentType: object.contentType,
+          Metadata: object.metadata,
+          IfMatch: condition.ifMatch,
+          IfNoneMatch: condition.ifNoneMatch,
+        })
+      );
+      return response.ETag;
+    } catch (error: unknown) {
+      if (isPreconditionFailure(error)) {
+        throw new PreconditionFailedError(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads with a HEAD request, so binary scenes are checked against the JSON
+   * copy without downloading it.
+   */
+  protected async readObjectInfo(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: key })
+      );
+      const info: StoredObjectInfo = {
+        contentType: response.ContentType ?? 'application/octet-stream',
+      };
+      if (response.Metadata !== undefined) {
+        info.metadata = response.Metadata;
+      }
+      if (response.ETag !== undefined) {
+        info.etag = response.ETag;
+      }
+      return info;
+    } catch (error: unknown) {
+      // As in hasObject(), a missing key is NotFound, or Forbidden without s3:ListBucket
+      if (error instanceof Error && (error.name === 'NotFound' || error.name === 'Forbidden')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks with a HEAD request so existing assets aren't downloaded.
+   */
+  protected async hasObject(key: string): Promise<boolean> {
+    try {
+      await this.s3Client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return true;
+    } catch (error: unknown) {
+      // HEAD responses have no body, so a missing key surfaces as NotFound, or
+      // as Forbidden for callers without s3:ListBucket. Treating the latter as
+      // missing at worst rewrites an asset with identical content.
+      if (error instanceof Error && (error.name === 'NotFound' || error.name === 'Forbidden')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Note: This requires additional IAM permissions (s3:DeleteObject).
+   */
+  protected async deleteObject(key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  /**
+   * Lists with a delimiter, so revisions under `scenes/<id>/` aren't returned.
+   */
+  protected async listObjects(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          Delimiter: '/',
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const { Key } of response.Contents ?? []) {
+        if (Key !== undefined) {
+          keys.push(Key);
+        }
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return keys;
+  }
+}
+
+/**
+ * Whether an S3 error is a failed If-Match / If-None-Match condition. S3
+ * answers 412, or 409 when a conflicting write is still in progress.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ */
+export function isPreconditionFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  return (
+    error.name === 'PreconditionFailed' ||
+    error.name === 'ConditionalRequestConflict' ||
+    status === 412 ||
+    status === 409
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * SceneIndex - The scene index document behind listScenes().
+ *
+ * Every save and removal updates `scenes/index.json`, a list of scene
+ * summaries, most recently saved first. Storage clients read and write the
+ * document themselves; summarizing scenes, keeping the list in order and
+ * paging through it is done here, so every client lists scenes the same way.
+ *
+ * @module @worldnotes/core/services/SceneIndex
+ */
+
+import type { SceneState } from '../types';
+import { isSceneExpired } from './SceneLifecycle';
+
+/** Scenes per page when listScenes() is given no limit */
+export const DEFAULT_LIST_LIMIT = 20;
+
+/** Most recently saved scenes kept in the scene index; older ones drop off */
+export const MAX_INDEXED_SCENES = 1000;
+
+/**
+ * A saved scene as listed by listScenes().
+ */
+export interface SceneSummary {
+  /** Scene id */
+  sceneId: string;
+  /** Display title (the scene's world name) */
+  title: string;
+  /** URL of the splat world */
+  worldUrl: string;
+  /** Number of treats in the scene */
+  treatCount: number;
+  /** Preview image, if the scene has one */
+  thumbnailUrl?: string;
+  /** ISO 8601 time of the last save */
+  updatedAt: string;
+  /** ISO 8601 time the scene expires, if it does */
+  expiresAt?: string;
+}
+
+/**
+ * Options for listScenes().
+ */
+export interface ListScenesOptions {
+  /** `cursor` from the previous page, to continue after it */
+  cursor?: string;
+  /** Maximum scenes to return (default: 20) */
+  limit?: number;
+  /** Only list scenes of this world */
+  worldUrl?: string;
+}
+
+/**
+ * One page of listScenes() results.
+ */
+export interface SceneListPage {
+  /** Scenes, newest first */
+  scenes: SceneSummary[];
+  /** Pass as `cursor` to get the next page; absent on the last page */
+  cursor?: string;
+}
+
+/**
+ * The parts of a scene its summary is built from. Treats are only counted.
+ */
+export type SummarizedScene = Pick<
+  SceneState,
+  'worldUrl' | 'worldName' | 'thumbnailUrl' | 'updatedAt' | 'expiresAt'
+> & { treats: readonly unknown[] };
+
+/**
+ * Scene index entry for a saved scene.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ */
+export function summarizeScene(sceneId: string, state: SummarizedScene): SceneSummary {
+  const summary: SceneSummary = {
+    sceneId,
+    title: state.worldName || 'Untitled scene',
+    worldUrl: state.worldUrl,
+    treatCount: state.treats.length,
+    updatedAt: state.updatedAt,
+  };
+  if (state.thumbnailUrl) {
+    summary.thumbnailUrl = state.thumbnailUrl;
+  }
+  if (state.expiresAt) {
+    summary.expiresAt = state.expiresAt;
+  }
+  return summary;
+}
+
+/**
+ * Summaries from a parsed scene index document, most recently saved first.
+ * A missing or malformed document lists nothing.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ */
+export function readSceneSummaries(document: unknown): SceneSummary[] {
+  const scenes = (document as { scenes?: unknown } | null)?.scenes;
+  return Array.isArray(scenes) ? (scenes as SceneSummary[]).sort(compareSummaries) : [];
+}
+
+/**
+ * Scene index document with a scene's entry replaced, or removed when
+ * `summary` is null; null when there was nothing to remove.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ */
+export function replaceSceneSummary(
+  scenes: SceneSummary[],
+  sceneId: string,
+  summary: SceneSummary | null
+): { scenes: SceneSummary[] } | null {
+  const kept = scenes.filter((entry) => entry.sceneId !== sceneId);
+  if (summary) {
+    kept.unshift(summary);
+  } else if (kept.length === scenes.length) {
+    return null;
+  }
+  return { scenes: kept.slice(0, MAX_INDEXED_SCENES) };
+}
+
+/**
+ * One listScenes() page of the indexed scenes. Expired scenes are left out.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ * @throws Error if the cursor is not one returned by listScenes()
+ */
+export function pageSceneSummaries(
+  scenes: SceneSummary[],
+  options: ListScenesOptions,
+  now: Date = new Date()
+): SceneListPage {
+  const limit = Math.max(1, options.limit ?? DEFAULT_LIST_LIMIT);
+  scenes = scenes.filter((summary) => !isSceneExpired(summary, now));
+
+  if (options.worldUrl !== undefined) {
+    scenes = scenes.filter((summary) => summary.worldUrl === options.worldUrl);
+  }
+  if (options.cursor !== undefined) {
+    const after = decodeListCursor(options.cursor);
+    scenes = scenes.filter((summary) => compareSummaries(summary, after) > 0);
+  }
+
+  const page = scenes.slice(0, limit);
+  const result: SceneListPage = { scenes: page };
+  if (scenes.length > limit) {
+    result.cursor = encodeListCursor(page[page.length - 1]);
+  }
+  return result;
+}
+
+/**
+ * Listing order: most recently saved first, then by id so that scenes saved
+ * in the same millisecond still have a stable position for cursors.
+ */
+function compareSummaries(
+  a: Pick<SceneSummary, 'sceneId' | 'updatedAt'>,
+  b: Pick<SceneSummary, 'sceneId' | 'updatedAt'>
+): number {
+  if (a.updatedAt !== b.updatedAt) {
+    return a.updatedAt < b.updatedAt ? 1 : -1;
+  }
+  return a.sceneId < b.sceneId ? -1 : a.sceneId > b.sceneId ? 1 : 0;
+}
+
+/**
+ * Cursor pointing just after `summary` in listing order.
+ */
+function encodeListCursor(summary: SceneSummary): string {
+  return btoa(encodeURIComponent(JSON.stringify([summary.updatedAt, summary.sceneId])));
+}
+
+/**
+ * Position a listScenes() cursor points after.
+ */
+function decodeListCursor(cursor: string): Pick<SceneSummary, 'sceneId' | 'updatedAt'> {
+  let position: unknown;
+  try {
+    position = JSON.parse(decodeURIComponent(atob(cursor)));
+  } catch (error) {
+    throw new Error(`Invalid scene list cursor: ${cursor}`);
+  }
+  if (
+    !Array.isArray(position) ||
+    typeof position[0] !== 'string' ||
+    typeof position[1] !== 'string'
+  ) {
+    throw new Error(`Invalid scene list cursor: ${cursor}`);
+  }
+  return { updatedAt: position[0], sceneId: position[1] };
+}
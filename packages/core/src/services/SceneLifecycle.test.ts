@@ -0,0 +1,49 @@
+/**
+ * Unit tests for SceneLifecycle
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SceneRemovedError, isSceneExpired, isSceneTombstone } from './SceneLifecycle';
+
+describe('isSceneExpired', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  it('should expire scenes once expiresAt has passed', () => {
+    expect(isSceneExpired({ expiresAt: '2025-05-31T23:59:59Z' }, now)).toBe(true);
+    expect(isSceneExpired({ expiresAt: '2025-06-01T00:00:00Z' }, now)).toBe(true);
+    expect(isSceneExpired({ expiresAt: '2025-06-01T00:00:01Z' }, now)).toBe(false);
+  });
+
+  it('should never expire scenes without a valid expiresAt', () => {
+    expect(isSceneExpired({}, now)).toBe(false);
+    expect(isSceneExpired({ expiresAt: 'someday' }, now)).toBe(false);
+  });
+});
+
+describe('isSceneTombstone', () => {
+  it('should recognise tombstones and nothing else', () => {
+    expect(
+      isSceneTombstone({
+        tombstone: true,
+        sceneId: 'a',
+        reason: 'removed',
+        removedAt: '2025-06-01T00:00:00Z',
+      })
+    ).toBe(true);
+    expect(isSceneTombstone({ version: 2, treats: [] })).toBe(false);
+    expect(isSceneTombstone(null)).toBe(false);
+  });
+});
+
+describe('SceneRemovedError', () => {
+  it('should say whether the scene was removed or expired', () => {
+    const removedAt = '2025-06-01T00:00:00Z';
+
+    expect(
+      new SceneRemovedError({ tombstone: true, sceneId: 'a', reason: 'removed', removedAt }).message
+    ).toBe('Scene a was removed');
+    expect(
+      new SceneRemovedError({ tombstone: true, sceneId: 'a', reason: 'expired', removedAt }).message
+    ).toBe('Scene a has expired');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * SceneLifecycle - Expiry and removal of shared scenes.
+ *
+ * Scenes may carry an `expiresAt` time; viewers check it with
+ * isSceneExpired() and refuse to show expired scenes. Removing a scene
+ * (StorageClient.removeScene()) replaces it with a tombstone, so its links
+ * report that the scene was removed rather than that it never existed.
+ * StorageClient.purgeScenes(), run from the maintenance script, deletes
+ * what is left of removed and expired scenes and keeps only the tombstone.
+ *
+ * @module @worldnotes/core/services/SceneLifecycle
+ */
+
+import type { SceneState } from '../types';
+
+/** Content-Type of tombstones, which take the place of removed scenes */
+export const TOMBSTONE_CONTENT_TYPE = 'application/vnd.worldnotes.tombstone+json';
+
+/**
+ * What is stored in place of a removed scene.
+ */
+export interface SceneTombstone {
+  tombstone: true;
+  /** Scene that was removed */
+  sceneId: string;
+  /** Removed by its editor, or purged after its expiry passed */
+  reason: 'removed' | 'expired';
+  /** ISO 8601 time of the removal */
+  removedAt: string;
+  /** ISO 8601 time the scene's revisions and thumbnail were deleted */
+  purgedAt?: string;
+  /** Edit token hash of the scene, so only its editors can save it again */
+  editTokenHash?: string;
+}
+
+/**
+ * Thrown when loading a scene that was removed, or purged after expiring.
+ *
+ * @example
+ * try {
+ *   state = await storage.loadScene(sceneId);
+ * } catch (error) {
+ *   if (error instanceof SceneRemovedError) {
+ *     showMessage(error.reason === 'expired' ? 'This scene expired' : 'This scene was removed');
+ *   }
+ * }
+ */
+export class SceneRemovedError extends Error {
+  /** Scene that was removed */
+  readonly sceneId: string;
+  /** Removed by its editor, or purged after its expiry passed */
+  readonly reason: SceneTombstone['reason'];
+  /** ISO 8601 time of the removal */
+  readonly removedAt: string;
+
+  constructor(tombstone: SceneTombstone) {
+    super(
+      tombstone.reason === 'expired'
+        ? `Scene ${tombstone.sceneId} has expired`
+        : `Scene ${tombstone.sceneId} was removed`
+    );
+    this.name = 'SceneRemovedError';
+    this.sceneId = tombstone.sceneId;
+    this.reason = tombstone.reason;
+    this.removedAt = tombstone.removedAt;
+  }
+}
+
+/**
+ * Whether a scene's expiry time has passed. Scenes without `expiresAt`, or
+ * with one that isn't a valid date, never expire.
+ *
+ * @param state - Scene to check
+ * @param now - Current time (default: now)
+ * @returns Whether viewers should refuse to show the scene
+ */
+export function isSceneExpired(
+  state: Pick<SceneState, 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  if (state.expiresAt === undefined) {
+    return false;
+  }
+  const expiresAt = Date.parse(state.expiresAt);
+  return !Number.isNaN(expiresAt) && expiresAt <= now.getTime();
+}
+
+/**
+ * Whether a parsed object body is a scene tombstone.
+ *
+ * @param document - Parsed JSON of a scene object
+ */
+export function isSceneTombstone(document: unknown): document is SceneTombstone {
+  return (
+    typeof document === 'object' &&
+    document !== null &&
+    (document as Partial<SceneTombstone>).tombstone === true &&
+    typeof (document as Partial<SceneTombstone>).sceneId === 'string' &&
+    typeof (document as Partial<SceneTombstone>).removedAt === 'string'
+  );
+}
+
+/**
+ * Tombstone to store in place of a scene. It keeps the scene's edit token
+ * hash, so saving over the removed scene still needs the scene's token.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ * @param sceneId - Scene being removed
+ * @param scene - Its stored state
+ * @param reason - Removed by its editor, or purged after its expiry passed
+ * @param removedAt - Time of the removal (default: now)
+ */
+export function createTombstone(
+  sceneId: string,
+  scene: Pick<SceneState, 'editTokenHash'>,
+  reason: SceneTombstone['reason'],
+  removedAt: Date = new Date()
+): SceneTombstone {
+  const tombstone: SceneTombstone = {
+    tombstone: true,
+    sceneId,
+    reason,
+    removedAt: removedAt.toISOString(),
+  };
+  if (scene.editTokenHash !== undefined) {
+    tombstone.editTokenHash = scene.editTokenHash;
+  }
+  return tombstone;
+}
+
+/**
+ * The tombstone in a stored scene object, or null if it holds a scene.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ * @param contentType - Content-Type the object was stored with
+ * @param text - Object body
+ */
+export function parseTombstone(
+  contentType: string | undefined,
+  text: string
+): SceneTombstone | null {
+  if ((contentType ?? '').split(';')[0].trim().toLowerCase() !== TOMBSTONE_CONTENT_TYPE) {
+    return null;
+  }
+  const document: unknown = JSON.parse(text);
+  return isSceneTombstone(document) ? document : null;
+}
@@ -0,0 +1,70 @@
+/**
+ * SceneRevisions - The revision index kept next to each scene.
+ *
+ * Every save that changes a scene also stores an immutable copy under
+ * `scenes/<id>/revisions/` and appends it to `scenes/<id>/revisions/index.json`.
+ * Storage clients read and write those objects themselves; naming
+ * revisions and keeping the index is done here, so every client records
+ * revisions the same way.
+ *
+ * @module @worldnotes/core/services/SceneRevisions
+ */
+
+/**
+ * One saved version of a scene, as listed in its revision index.
+ */
+export interface SceneRevision {
+  /** Revision id, derived from the save time */
+  rev: string;
+  /** ISO 8601 time of the save */
+  updatedAt: string;
+  /** SHA-256 of the saved scene's canonical form */
+  hash: string;
+  /** Number of treats in the revision */
+  treatCount: number;
+}
+
+/**
+ * Revision index document stored next to a scene's revisions.
+ */
+export interface RevisionIndex {
+  /** Revisions, oldest first */
+  revisions: SceneRevision[];
+}
+
+/**
+ * Revision index from a parsed revision index document. Scenes saved
+ * before revisions were kept have none and get an empty one.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ */
+export function parseRevisionIndex(document: unknown): RevisionIndex {
+  const revisions = (document as { revisions?: unknown } | null)?.revisions;
+  return { revisions: Array.isArray(revisions) ? (revisions as SceneRevision[]) : [] };
+}
+
+/**
+ * Append a revision for a save to `index`, naming it after the save time.
+ *
+ * @internal Shared with @splat-and-treat/skeleton's StorageService
+ * @returns The added revision, whose `rev` names the revision's object
+ */
+export function addRevision(index: RevisionIndex, save: Omit<SceneRevision, 'rev'>): SceneRevision {
+  const revision: SceneRevision = { rev: uniqueRevisionId(save.updatedAt, index), ...save };
+  index.revisions.push(revision);
+  return revision;
+}
+
+/**
+ * Revision id for a save at `timestamp`: the ISO time made safe for object
+ * keys and file names, suffixed if two saves land in the same millisecond.
+ */
+function uniqueRevisionId(timestamp: string, index: RevisionIndex): string {
+  const base = timestamp.replace(/[:.]/g, '-');
+  const taken = new Set(index.revisions.map((revision) => revision.rev));
+  let rev = base;
+  for (let n = 2; taken.has(rev); n++) {
+    rev = `${base}-${n}`;
+  }
+  return rev;
+}
@@ -0,0 +1,739 @@
+/**
+ * Conformance tests shared by every StorageClient backend
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import 'fake-indexeddb/auto';
+import { mkdtemp, rm, readFile, writeFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { SceneConflictError, type StorageClient } from './StorageClient';
+import { S3StorageClient } from './S3StorageClient';
+import { MemoryStorageClient } from './MemoryStorageClient';
+import { IndexedDBStorageClient } from './IndexedDBStorageClient';
+import { FileSystemStorageClient } from './FileSystemStorageClient';
+import { createStorageClient } from './StorageClientFactory';
+import { hashScene } from '../persistence/SceneHash';
+import { isSceneBinary } from '../persistence/SceneBinary';
+import { verifySceneSignature } from '../persistence/SceneSignature';
+import { SceneEditDeniedError, createEditToken, hashEditToken } from './EditToken';
+import { InvalidAssetError, hashAsset } from './Assets';
+import type { SceneFormat, SceneState } from '../types';
+
+const APP_URL = 'https://editor.example.com/';
+
+const state: SceneState = {
+  version: 2,
+  worldUrl: 'https://example.com/world.spz',
+  worldName: 'Workshop',
+  treats: [
+    {
+      id: 'treat-1',
+      type: 'bottle',
+      glbUrl: 'https://example.com/bottle.glb',
+      message: 'Hello',
+      position: { x: 1, y: 2, z: 3 },
+      rotation: { x: 0, y: 0.5, z: 0 },
+    },
+  ],
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+/**
+ * Smallest GLB header followed by `payload` bytes of padding.
+ */
+function glb(payload = 4): Uint8Array {
+  const bytes = new Uint8Array(12 + payload);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, bytes.byteLength, true);
+  return bytes;
+}
+
+/**
+ * Minimal stand-in for S3Client.send() covering the commands the client uses.
+ */
+function fakeS3Client(): S3Client {
+  const objects = new Map<
+    string,
+    { body: Uint8Array; contentType?: string; metadata?: object; etag: string }
+  >();
+  let version = 0;
+  const send = async (command: unknown) => {
+    if (command instanceof PutObjectCommand) {
+      const { Key, Body, ContentType, Metadata, IfMatch, IfNoneMatch } = command.input;
+      const existing = objects.get(Key!);
+      if ((IfNoneMatch === '*' && existing) || (IfMatch && existing?.etag !== IfMatch)) {
+        throw Object.assign(
+          new Error('At least one of the pre-conditions you specified did not hold'),
+          {
+            name: 'PreconditionFailed',
+            $metadata: { httpStatusCode: 412 },
+          }
+        );
+      }
+      const body = typeof Body === 'string' ? new TextEncoder().encode(Body) : (Body as Uint8Array);
+      const etag = `"${++version}"`;
+      objects.set(Key!, { body, contentType: ContentType, metadata: Metadata, etag });
+      return { ETag: etag };
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = objects.get(command.input.Key!);
+      if (!object) {
+        throw Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' });
+      }
+      return {
+        Body: { transformToByteArray: async () => object.body },
+        ContentType: object.contentType,
+        Metadata: object.metadata,
+        ETag: object.etag,
+      };
+    }
+    if (command instanceof HeadObjectCommand) {
+      const object = objects.get(command.input.Key!);
+      if (!object) {
+        throw Object.assign(new Error('NotFound'), { name: 'NotFound' });
+      }
+      return { ContentType: object.contentType, Metadata: object.metadata, ETag: object.etag };
+    }
+    if (command instanceof DeleteObjectCommand) {
+      objects.delete(command.input.Key!);
+      return {};
+    }
+    if (command instanceof ListObjectsV2Command) {
+      const { Prefix = '', Delimiter } = command.input;
+      const keys = [...objects.keys()].filter(
+        (key) =>
+          key.startsWith(Prefix) && !(Delimiter && key.slice(Prefix.length).includes(Delimiter))
+      );
+      return { Contents: keys.sort().map((Key) => ({ Key })), IsTruncated: false };
+    }
+    throw new Error('Unexpected command');
+  };
+  return { send } as unknown as S3Client;
+}
+
+interface Backend {
+  name: string;
+  create(sceneFormat: SceneFormat): Promise<StorageClient>;
+  /** Another client over the store create() made last, as a collaborator would have */
+  reopen?(sceneFormat: SceneFormat): Promise<StorageClient>;
+  cleanup?(): Promise<void>;
+}
+
+const s3Config = {
+  region: 'us-east-1',
+  identityPoolId: 'us-east-1:test',
+  bucketName: 'test-bucket',
+  appUrl: APP_URL,
+};
+
+let s3Client: S3Client;
+let tempDir = '';
+let databaseName = '';
+const databases: IndexedDBStorageClient[] = [];
+
+const backends: Backend[] = [
+  {
+    name: 'MemoryStorageClient',
+    create: async (sceneFormat) => new MemoryStorageClient({ appUrl: APP_URL, sceneFormat }),
+  },
+  {
+    name: 'S3StorageClient',
+    create: async (sceneFormat) => {
+      s3Client = fakeS3Client();
+      return new S3StorageClient({ ...s3Config, sceneFormat }, s3Client);
+    },
+    reopen: async (sceneFormat) => new S3StorageClient({ ...s3Config, sceneFormat }, s3Client),
+  },
+  {
+    name: 'FileSystemStorageClient',
+    create: async (sceneFormat) => {
+      tempDir = await mkdtemp(join(tmpdir(), 'worldnotes-storage-'));
+      return new FileSystemStorageClient({ directory: tempDir, appUrl: APP_URL, sceneFormat });
+    },
+    reopen: async (sceneFormat) =>
+      new FileSystemStorageClient({ directory: tempDir, appUrl: APP_URL, sceneFormat }),
+    cleanup: () => rm(tempDir, { recursive: true, force: true }),
+  },
+  {
+    name: 'IndexedDBStorageClient',
+    create: async (sceneFormat) => {
+      databaseName = `worldnotes-test-${Math.random()}`;
+      databases.push(new IndexedDBStorageClient({ appUrl: APP_URL, sceneFormat, databaseName }));
+      return databases[databases.length - 1];
+    },
+    reopen: async (sceneFormat) => {
+      databases.push(new IndexedDBStorageClient({ appUrl: APP_URL, sceneFormat, databaseName }));
+      return databases[databases.length - 1];
+    },
+    cleanup: async () => {
+      for (const database of databases.splice(0)) {
+        await database.close();
+      }
+    },
+  },
+];
+
+for (const backend of backends) {
+  for (const sceneFormat of ['json', 'binary'] as const) {
+    describe(`${backend.name} (${sceneFormat})`, () => {
+      let storage: StorageClient;
+
+      beforeEach(async () => {
+        storage = await backend.create(sceneFormat);
+      });
+
+      afterEach(async () => {
+        await backend.cleanup?.();
+      });
+
+      it('should round-trip a saved scene', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        const loaded = await storage.loadScene(sceneId);
+
+        expect(loaded).toEqual({
+          ...state,
+          createdAt: loaded?.createdAt,
+          updatedAt: loaded?.updatedAt,
+          editTokenHash: loaded?.editTokenHash,
+        });
+      });
+
+      it('should return share info with the content hash', async () => {
+        const saved = await storage.saveScene(state);
+
+        expect(saved.s3Key).toBe(`scenes/${saved.sceneId}.json`);
+        expect(saved.hash).toBe(await hashScene(state));
+        expect(saved.shareUrl).toBe(
+          `https://editor.example.com?scene=${saved.sceneId}&hash=${saved.hash?.slice(0, 16)}`
+        );
+      });
+
+      it('should stamp timestamps and keep createdAt when updating', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        const first = await storage.loadScene(sceneId);
+        expect(first?.createdAt).not.toBe(state.createdAt);
+
+        await storage.saveScene({ ...first!, worldName: 'Renamed' }, sceneId, { editToken });
+        const second = await storage.loadScene(sceneId);
+
+        expect(second?.worldName).toBe('Renamed');
+        expect(second?.createdAt).toBe(first?.createdAt);
+      });
+
+      it('should return null for missing scenes', async () => {
+        expect(await storage.loadScene('does-not-exist')).toBeNull();
+      });
+
+      it('should delete scenes and ignore missing ones', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        await storage.deleteScene(sceneId);
+        await storage.deleteScene(sceneId);
+
+        expect(await storage.loadScene(sceneId)).toBeNull();
+      });
+
+      it('should return an edit link with a new edit token', async () => {
+        const saved = await storage.saveScene(state);
+
+        expect(saved.editToken).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        expect(saved.editUrl).toBe(`${saved.shareUrl}#edit=${saved.editToken}`);
+        expect((await storage.loadScene(saved.sceneId))?.editTokenHash).toBe(
+          await hashEditToken(saved.editToken!)
+        );
+      });
+
+      it('should refuse to save over a scene without its edit token', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        await expect(storage.saveScene({ ...state, treats: [] }, sceneId)).rejects.toThrow(
+          SceneEditDeniedError
+        );
+        await expect(
+          storage.saveScene({ ...state, treats: [] }, sceneId, { editToken: createEditToken() })
+        ).rejects.toThrow(`Scene ${sceneId} can only be changed with its edit link`);
+        expect((await storage.loadScene(sceneId))?.treats).toHaveLength(1);
+      });
+
+      it('should keep the edit token across saves', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+
+        const saved = await storage.saveScene({ ...state, treats: [] }, sceneId, { editToken });
+
+        expect(saved.editToken).toBe(editToken);
+      });
+
+      it('should record a revision for every save, newest first', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        await storage.saveScene({ ...state, treats: [] }, sceneId, { editToken });
+
+        const revisions = await storage.listRevisions(sceneId);
+
+        expect(revisions.map((revision) => revision.treatCount)).toEqual([0, 1]);
+        expect(new Set(revisions.map((revision) => revision.rev)).size).toBe(2);
+        expect(revisions[1].hash).toBe(await hashScene(state));
+      });
+
+      it('should not upload a scene again when its content is unchanged', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        const stored = await storage.loadScene(sceneId);
+
+        const saved = await storage.saveScene({ ...stored!, treats: [...state.treats] }, sceneId, {
+          editToken,
+        });
+
+        expect(saved.hash).toBe(await hashScene(state));
+        expect(await storage.listRevisions(sceneId)).toHaveLength(1);
+        expect((await storage.loadScene(sceneId))?.updatedAt).toBe(stored?.updatedAt);
+      });
+
+      it('should sign a scene as it is saved, even if its content is unchanged', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        const { privateKey, publicKey } = (await crypto.subtle.generateKey('Ed25519', true, [
+          'sign',
+          'verify',
+        ])) as CryptoKeyPair;
+
+        await storage.saveScene(state, sceneId, {
+          editToken,
+          signingKey: { privateKey, keyId: 'acme' },
+        });
+
+        const loaded = await storage.loadScene(sceneId);
+        expect(await verifySceneSignature(loaded!, { acme: publicKey })).toEqual({
+          status: 'signed',
+          keyId: 'acme',
+        });
+        expect(await storage.listRevisions(sceneId)).toHaveLength(2);
+      });
+
+      // MemoryStorageClient keeps its objects to itself, so it has no collaborators
+      it.skipIf(!backend.reopen)(
+        'should refuse to save over changes made since the scene was loaded',
+        async () => {
+          const { sceneId, editToken } = await storage.saveScene(state);
+          const collaborator = await backend.reopen!(sceneFormat);
+          await collaborator.loadScene(sceneId);
+          await collaborator.saveScene({ ...state, worldName: 'Theirs' }, sceneId, { editToken });
+
+          const error = await storage
+            .saveScene({ ...state, worldName: 'Ours' }, sceneId, { editToken })
+            .catch((error: unknown) => error);
+
+          expect(error).toBeInstanceOf(SceneConflictError);
+          expect((error as SceneConflictError).remote?.worldName).toBe('Theirs');
+          expect(await storage.listRevisions(sceneId)).toHaveLength(2);
+
+          await storage.loadScene(sceneId);
+          await storage.saveScene({ ...state, worldName: 'Ours' }, sceneId, { editToken });
+          expect((await collaborator.loadScene(sceneId))?.worldName).toBe('Ours');
+        }
+      );
+
+      it.skipIf(!backend.reopen)('should save over changes when told to overwrite', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        const collaborator = await backend.reopen!(sceneFormat);
+        await collaborator.saveScene({ ...state, worldName: 'Theirs' }, sceneId, { editToken });
+
+        await storage.saveScene({ ...state, worldName: 'Ours' }, sceneId, {
+          editToken,
+          overwrite: true,
+        });
+
+        expect((await collaborator.loadScene(sceneId))?.worldName).toBe('Ours');
+      });
+
+      it.skipIf(!backend.reopen || sceneFormat !== 'binary')(
+        'should load the JSON copy once a JSON-only client has saved over it',
+        async () => {
+          const { sceneId, editToken } = await storage.saveScene(state);
+          const jsonClient = await backend.reopen!('json');
+
+          await jsonClient.saveScene({ ...state, worldName: 'Renamed' }, sceneId, { editToken });
+
+          expect((await storage.loadScene(sceneId))?.worldName).toBe('Renamed');
+        }
+      );
+
+      it('should load and restore an earlier revision', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        await storage.saveScene({ ...state, treats: [] }, sceneId, { editToken });
+        const [, original] = await storage.listRevisions(sceneId);
+
+        expect((await storage.loadRevision(sceneId, original.rev))?.treats).toHaveLength(1);
+
+        await storage.restoreRevision(sceneId, original.rev, { editToken });
+
+        expect((await storage.loadScene(sceneId))?.treats).toEqual(state.treats);
+        expect(await storage.listRevisions(sceneId)).toHaveLength(3);
+      });
+
+      it('should reject restoring a missing revision', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        await expect(storage.restoreRevision(sceneId, 'nope')).rejects.toThrow(
+          `Revision nope of scene ${sceneId} not found`
+        );
+      });
+
+      it('should delete revisions with the scene', async () => {
+        const { sceneId } = await storage.saveScene(state);
+        const [revision] = await storage.listRevisions(sceneId);
+
+        await storage.deleteScene(sceneId);
+
+        expect(await storage.listRevisions(sceneId)).toEqual([]);
+        expect(await storage.loadRevision(sceneId, revision.rev)).toBeNull();
+      });
+
+      it('should list saved scenes with their summary', async () => {
+        const first = await storage.saveScene({
+          ...state,
+          thumbnailUrl: 'https://example.com/t.jpg',
+        });
+        const second = await storage.saveScene(state);
+        await storage.saveScene({ ...state, worldName: 'Renamed' }, first.sceneId, {
+          editToken: first.editToken,
+        });
+
+        const { scenes, cursor } = await storage.listScenes();
+
+        expect(cursor).toBeUndefined();
+        expect(scenes.map((summary) => summary.sceneId).sort()).toEqual(
+          [first.sceneId, second.sceneId].sort()
+        );
+        const summary = scenes.find((entry) => entry.sceneId === first.sceneId);
+        expect(summary).toEqual({
+          sceneId: first.sceneId,
+          title: 'Renamed',
+          worldUrl: state.worldUrl,
+          treatCount: 1,
+          updatedAt: (await storage.loadScene(first.sceneId))?.updatedAt,
+        });
+        expect(scenes[0].updatedAt >= scenes[1].updatedAt).toBe(true);
+      });
+
+      it('should page through scenes with a cursor and filter by world', async () => {
+        const ids = [];
+        for (let i = 0; i < 3; i++) {
+          ids.push((await storage.saveScene(state)).sceneId);
+        }
+        await storage.saveScene({ ...state, worldUrl: 'https://example.com/other.spz' });
+
+        const first = await storage.listScenes({ limit: 2, worldUrl: state.worldUrl });
+        const second = await storage.listScenes({
+          limit: 2,
+          worldUrl: state.worldUrl,
+          cursor: first.cursor,
+        });
+
+        expect(first.scenes).toHaveLength(2);
+        expect(second.cursor).toBeUndefined();
+        expect(
+          [...first.scenes, ...second.scenes].map((summary) => summary.sceneId).sort()
+        ).toEqual(ids.sort());
+      });
+
+      it('should drop deleted scenes from the listing', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        await storage.deleteScene(sceneId);
+
+        expect((await storage.listScenes()).scenes).toEqual([]);
+      });
+
+      it('should reject cursors it did not issue', async () => {
+        await expect(storage.listScenes({ cursor: 'bogus' })).rejects.toThrow(
+          'Invalid scene list cursor: bogus'
+        );
+      });
+
+      it('should store a thumbnail next to the scene', async () => {
+        const thumbnail = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+        const { sceneId, editToken, hash } = await storage.saveScene(state, undefined, {
+          thumbnail,
+        });
+
+        const loaded = await storage.loadScene(sceneId);
+        expect(loaded?.thumbnailUrl?.endsWith(`scenes/${sceneId}.jpg`)).toBe(true);
+        expect((await storage.listScenes()).scenes[0].thumbnailUrl).toBe(loaded?.thumbnailUrl);
+
+        const resaved = await storage.saveScene(loaded!, sceneId, { editToken, thumbnail });
+        expect(resaved.hash).toBe(hash);
+      });
+
+      it('should store uploaded models under their content hash', async () => {
+        const model = glb();
+
+        const asset = await storage.uploadAsset(model);
+
+        expect(asset.key).toBe(`assets/${await hashAsset(model)}.glb`);
+        expect(asset.url.endsWith(asset.key)).toBe(true);
+        expect(asset.size).toBe(model.byteLength);
+        expect(asset.existed).toBe(false);
+      });
+
+      it('should skip uploading models that are already stored', async () => {
+        const first = await storage.uploadAsset(glb());
+        const second = await storage.uploadAsset(new Blob([glb().slice().buffer]));
+
+        expect(second).toEqual({ ...first, existed: true });
+      });
+
+      it('should refuse files that are not GLB or are too large', async () => {
+        await expect(storage.uploadAsset(new TextEncoder().encode('{"asset":{}}'))).rejects.toThrow(
+          InvalidAssetError
+        );
+        await expect(storage.uploadAsset(glb(100), { maxBytes: 64 })).rejects.toMatchObject({
+          reason: 'too-large',
+        });
+      });
+
+      it('should replace a removed scene with a tombstone', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+
+        await storage.removeScene(sceneId, { editToken });
+        await storage.removeScene(sceneId, { editToken });
+
+        await expect(storage.loadScene(sceneId)).rejects.toMatchObject({
+          name: 'SceneRemovedError',
+          sceneId,
+          reason: 'removed',
+        });
+        expect((await storage.listScenes()).scenes).toEqual([]);
+      });
+
+      it('should refuse to remove a scene without its edit token', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        await expect(storage.removeScene(sceneId)).rejects.toThrow(SceneEditDeniedError);
+        expect(await storage.loadScene(sceneId)).not.toBeNull();
+      });
+
+      it('should bring a removed scene back when its editor saves over it', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        await storage.removeScene(sceneId, { editToken });
+
+        await expect(storage.saveScene(state, sceneId)).rejects.toThrow(SceneEditDeniedError);
+        await storage.saveScene(state, sceneId, { editToken });
+
+        expect((await storage.loadScene(sceneId))?.worldName).toBe('Workshop');
+        expect((await storage.listScenes()).scenes.map((summary) => summary.sceneId)).toEqual([
+          sceneId,
+        ]);
+      });
+
+      it('should restore a revision over a removed scene', async () => {
+        const { sceneId, editToken } = await storage.saveScene(state);
+        const [{ rev }] = await storage.listRevisions(sceneId);
+        await storage.removeScene(sceneId, { editToken });
+
+        await storage.restoreRevision(sceneId, rev, { editToken });
+
+        expect((await storage.loadScene(sceneId))?.treats).toHaveLength(1);
+      });
+
+      it('should hide expired scenes from the listing but still load them', async () => {
+        const expired = await storage.saveScene({ ...state, expiresAt: '2000-01-01T00:00:00Z' });
+        const current = await storage.saveScene(state);
+
+        const { scenes } = await storage.listScenes();
+
+        expect(scenes.map((summary) => summary.sceneId)).toEqual([current.sceneId]);
+        expect((await storage.loadScene(expired.sceneId))?.expiresAt).toBe('2000-01-01T00:00:00Z');
+      });
+
+      it('should purge removed and expired scenes down to their tombstones', async () => {
+        const removed = await storage.saveScene(state, undefined, {
+          thumbnail: new Uint8Array([0xff, 0xd8]),
+        });
+        await storage.removeScene(removed.sceneId, { editToken: removed.editToken });
+        const expired = await storage.saveScene({ ...state, expiresAt: '2030-01-01T00:00:00Z' });
+        const kept = await storage.saveScene({ ...state, expiresAt: '2040-01-01T00:00:00Z' });
+        const now = new Date('2035-01-01T00:00:00Z');
+
+        const { purged, failed } = await storage.purgeScenes({ now });
+
+        expect(failed).toEqual([]);
+        expect(purged.sort((a, b) => a.sceneId.localeCompare(b.sceneId))).toEqual(
+          [
+            { sceneId: removed.sceneId, reason: 'removed' },
+            { sceneId: expired.sceneId, reason: 'expired' },
+          ].sort((a, b) => a.sceneId.localeCompare(b.sceneId))
+        );
+        expect(await storage.listRevisions(removed.sceneId)).toEqual([]);
+        expect(await storage.listRevisions(expired.sceneId)).toEqual([]);
+        await expect(storage.loadScene(expired.sceneId)).rejects.toMatchObject({
+          reason: 'expired',
+        });
+        expect(await storage.loadScene(kept.sceneId)).not.toBeNull();
+        expect(await storage.listRevisions(kept.sceneId)).toHaveLength(1);
+        expect(await storage.purgeScenes({ now })).toEqual({ purged: [], failed: [] });
+      });
+
+      it('should only report what a dry run would purge', async () => {
+        const { sceneId } = await storage.saveScene({
+          ...state,
+          expiresAt: '2000-01-01T00:00:00Z',
+        });
+
+        expect(await storage.purgeScenes({ dryRun: true })).toEqual({
+          purged: [{ sceneId, reason: 'expired' }],
+          failed: [],
+        });
+        expect(await storage.loadScene(sceneId)).not.toBeNull();
+        expect(await storage.listRevisions(sceneId)).toHaveLength(1);
+      });
+
+      it('should not share state between saved and loaded copies', async () => {
+        const { sceneId } = await storage.saveScene(state);
+
+        const loaded = await storage.loadScene(sceneId);
+        loaded!.treats[0].message = 'Changed';
+
+        expect((await storage.loadScene(sceneId))?.treats[0].message).toBe('Hello');
+      });
+    });
+  }
+}
+
+describe('FileSystemStorageClient layout', () => {
+  let directory = '';
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'worldnotes-storage-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the scene body where the bucket would have it', async () => {
+    const storage = new FileSystemStorageClient({ directory, appUrl: APP_URL });
+
+    const { s3Key } = await storage.saveScene(state);
+
+    const json = JSON.parse(await readFile(join(directory, s3Key), 'utf8'));
+    expect(json.worldUrl).toBe(state.worldUrl);
+  });
+
+  it('should keep binary scenes next to their JSON copy', async () => {
+    const storage = new FileSystemStorageClient({
+      directory,
+      appUrl: APP_URL,
+      sceneFormat: 'binary',
+    });
+
+    const { sceneId, s3Key } = await storage.saveScene(state);
+
+    const json = JSON.parse(await readFile(join(directory, s3Key), 'utf8'));
+    expect(json.worldUrl).toBe(state.worldUrl);
+    expect(isSceneBinary(await readFile(join(directory, 'scenes', `${sceneId}.bin`)))).toBe(true);
+  });
+
+  it('should load scene files without a sidecar', async () => {
+    await mkdir(join(directory, 'scenes'));
+    await writeFile(join(directory, 'scenes', 'copied.json'), JSON.stringify(state));
+    const storage = new FileSystemStorageClient({ directory, appUrl: APP_URL });
+
+    expect((await storage.loadScene('copied'))?.worldName).toBe('Workshop');
+  });
+
+  it('should reject scene ids that escape the directory', async () => {
+    const storage = new FileSystemStorageClient({ directory, appUrl: APP_URL });
+
+    await expect(storage.loadScene('../secrets')).rejects.toThrow('Invalid object key');
+  });
+
+  it('should report scenes it cannot purge and purge the rest', async () => {
+    const storage = new FileSystemStorageClient({ directory, appUrl: APP_URL });
+    const { sceneId } = await storage.saveScene({ ...state, expiresAt: '2000-01-01T00:00:00Z' });
+    await writeFile(join(directory, 'scenes', 'broken.json'), '{"version": 2, "treats": [');
+
+    const { purged, failed } = await storage.purgeScenes();
+
+    expect(purged).toEqual([{ sceneId, reason: 'expired' }]);
+    expect(failed).toEqual([{ sceneId: 'broken', message: expect.any(String) }]);
+  });
+});
+
+describe('IndexedDBStorageClient', () => {
+  it('should open the database again after a failed attempt', async () => {
+    const storage = new IndexedDBStorageClient({
+      appUrl: APP_URL,
+      databaseName: `worldnotes-test-${Math.random()}`,
+    });
+    const open = vi.spyOn(indexedDB, 'open').mockImplementationOnce(() => {
+      throw new Error('Blocked');
+    });
+
+    await expect(storage.loadScene('draft')).rejects.toThrow('Blocked');
+    const { sceneId } = await storage.saveScene(state);
+
+    expect((await storage.loadScene(sceneId))?.worldName).toBe('Workshop');
+    open.mockRestore();
+    await storage.close();
+  });
+});
+
+describe('createStorageClient', () => {
+  it('should pick the backend from configuration', () => {
+    expect(createStorageClient({ backend: 'memory', appUrl: APP_URL })).toBeInstanceOf(
+      MemoryStorageClient
+    );
+    expect(
+      createStorageClient({ backend: 'filesystem', directory: '/tmp', appUrl: APP_URL })
+    ).toBeInstanceOf(FileSystemStorageClient);
+    expect(createStorageClient({ backend: 'indexeddb', appUrl: APP_URL })).toBeInstanceOf(
+      IndexedDBStorageClient
+    );
+  });
+
+  it('should default to S3', () => {
+    const storage = createStorageClient({
+      region: 'us-east-1',
+      identityPoolId: 'us-east-1:test',
+      bucketName: 'test-bucket',
+      appUrl: APP_URL,
+    });
+
+    expect(storage).toBeInstanceOf(S3StorageClient);
+  });
+});
+
+describe('asset URLs', () => {
+  it('should default to the bucket URL for S3', async () => {
+    const storage = new S3StorageClient(
+      { region: 'us-east-1', identityPoolId: 'us-east-1:test', bucketName: 'b', appUrl: APP_URL },
+      fakeS3Client()
+    );
+
+    const { url, key } = await storage.uploadAsset(glb());
+
+    expect(url).toBe(`https://b.s3.us-east-1.amazonaws.com/${key}`);
+  });
+
+  it('should use the configured asset base URL', async () => {
+    const storage = new MemoryStorageClient({
+      appUrl: APP_URL,
+      assetBaseUrl: 'https://cdn.example.com/',
+    });
+
+    const { url, key } = await storage.uploadAsset(glb());
+
+    expect(url).toBe(`https://cdn.example.com/${key}`);
+  });
+});
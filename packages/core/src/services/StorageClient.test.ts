@@ -0,0 +1,60 @@
+/**
+ * Unit tests for scene body encoding and content-type negotiation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeSceneBody, decodeSceneBody, SCENE_CONTENT_TYPES } from './StorageClient';
+import type { SceneState } from '../types';
+
+const state: SceneState = {
+  version: 2,
+  worldUrl: 'https://example.com/world.spz',
+  treats: [
+    {
+      id: 'treat-1',
+      type: 'geomarker',
+      glbUrl: 'https://example.com/pin.glb',
+      position: { x: 1, y: 2, z: 3 },
+      rotation: { x: 0, y: 0, z: 0 },
+    },
+  ],
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+describe('encodeSceneBody', () => {
+  it('should default to JSON', () => {
+    const encoded = encodeSceneBody(state);
+    expect(encoded.contentType).toBe('application/json');
+    expect(typeof encoded.body).toBe('string');
+  });
+
+  it('should encode binary with the binary content type', () => {
+    const encoded = encodeSceneBody(state, 'binary');
+    expect(encoded.contentType).toBe(SCENE_CONTENT_TYPES.binary);
+    expect(encoded.body).toBeInstanceOf(Uint8Array);
+  });
+});
+
+describe('decodeSceneBody', () => {
+  it('should decode JSON text', () => {
+    const { body, contentType } = encodeSceneBody(state, 'json');
+    expect(decodeSceneBody(body, contentType)).toEqual(state);
+  });
+
+  it('should decode JSON delivered as bytes', () => {
+    const body = new TextEncoder().encode(encodeSceneBody(state).body as string);
+    expect(decodeSceneBody(body, 'application/json; charset=utf-8')).toEqual(state);
+  });
+
+  it('should decode binary by content type', () => {
+    const { body, contentType } = encodeSceneBody(state, 'binary');
+    expect(decodeSceneBody(body, contentType)).toEqual(state);
+  });
+
+  it('should sniff binary bodies with a generic content type', () => {
+    const { body } = encodeSceneBody(state, 'binary');
+    expect(decodeSceneBody(body, 'application/octet-stream')).toEqual(state);
+    expect(decodeSceneBody(body)).toEqual(state);
+  });
+});
@@ -1,18 +1,998 @@
 /**
- * Storage client - S3 + Cognito integration
- * Placeholder for task 7
+ * StorageClient - Backend-independent scene storage.
+ *
+ * Defines the StorageClient interface, the scene body encoding shared by
+ * every backend, and ObjectStorageClient, the base class the S3, in-memory,
+ * IndexedDB and filesystem backends build on. Backends only move bytes;
+ * ids, timestamps, encoding and share links are handled here so every
+ * backend behaves the same.
+ *
+ * @module @worldnotes/core/services/StorageClient
  */
 
-import type { SceneState, ShareableScene } from '../types';
+import type { BaseStorageConfig, SceneFormat, SceneState, ShareableScene } from '../types';
+import { serializeScene } from '../persistence/SceneSerializer';
+import { deserializeScene, type DeserializeOptions } from '../persistence/SceneDeserializer';
+import { encodeSceneBinary, decodeSceneBinary, isSceneBinary } from '../persistence/SceneBinary';
+import { hashScene } from '../persistence/SceneHash';
+import { isSameSignature, signScene, type SceneSigningKey } from '../persistence/SceneSignature';
+import {
+  SceneEditDeniedError,
+  canEditScene,
+  createEditToken,
+  getEditUrl,
+  hashEditToken,
+} from './EditToken';
+import {
+  GLB_CONTENT_TYPE,
+  hashAsset,
+  validateGlb,
+  type UploadAssetOptions,
+  type UploadedAsset,
+} from './Assets';
+import {
+  SceneRemovedError,
+  TOMBSTONE_CONTENT_TYPE,
+  createTombstone,
+  isSceneExpired,
+  parseTombstone,
+  type SceneTombstone,
+} from './SceneLifecycle';
+import {
+  pageSceneSummaries,
+  readSceneSummaries,
+  replaceSceneSummary,
+  summarizeScene,
+  type ListScenesOptions,
+  type SceneListPage,
+  type SceneSummary,
+} from './SceneIndex';
+import {
+  addRevision,
+  parseRevisionIndex,
+  type RevisionIndex,
+  type SceneRevision,
+} from './SceneRevisions';
 
 // Re-export types for backwards compatibility
 export type { StorageConfig, ShareableScene } from '../types';
 
+/** Number of hash characters included in share links */
+const SHARE_HASH_LENGTH = 16;
+
+/** Content-Type stored with scene thumbnails */
+export const THUMBNAIL_CONTENT_TYPE = 'image/jpeg';
+
 /**
  * Storage client interface
  */
 export interface StorageClient {
-  saveScene(state: SceneState, existingId?: string): Promise<ShareableScene>;
+  /**
+   * Save a scene, creating a new id unless `existingId` is given.
+   * Sets `updatedAt` (and `createdAt` for new scenes). Saving over a scene
+   * takes its edit token; the result carries the token and edit link.
+   */
+  saveScene(
+    state: SceneState,
+    existingId?: string,
+    options?: SaveSceneOptions
+  ): Promise<ShareableScene>;
+  /** Load a scene, or null if it doesn't exist */
   loadScene(sceneId: string): Promise<SceneState | null>;
-  getShareUrl(sceneId: string): string;
+  /** Delete a scene with everything stored for it; a missing scene is not an error */
+  deleteScene(sceneId: string): Promise<void>;
+  /** Replace a scene with a tombstone so its links report it was removed */
+  removeScene(sceneId: string, options?: Pick<SaveSceneOptions, 'editToken'>): Promise<void>;
+  /** Delete the content of expired and removed scenes, leaving tombstones */
+  purgeScenes(options?: PurgeScenesOptions): Promise<PurgeScenesResult>;
+  /** Revisions of a scene, newest first */
+  listRevisions(sceneId: string): Promise<SceneRevision[]>;
+  /** Load one revision of a scene, or null if it doesn't exist */
+  loadRevision(sceneId: string, rev: string): Promise<SceneState | null>;
+  /** Make a revision the current scene again; the restore is itself a new revision */
+  restoreRevision(
+    sceneId: string,
+    rev: string,
+    options?: SaveSceneOptions
+  ): Promise<ShareableScene>;
+  /** Recently saved scenes, newest first, one page at a time */
+  listScenes(options?: ListScenesOptions): Promise<SceneListPage>;
+  /** Viewer URL for a scene, optionally pinned to a content hash */
+  getShareUrl(sceneId: string, hash?: string): string;
+  /** Store a GLB model under its content hash; the result's url goes in Treat.glbUrl */
+  uploadAsset(data: Uint8Array | Blob, options?: UploadAssetOptions): Promise<UploadedAsset>;
+}
+
+/**
+ * Options for StorageClient.saveScene() and restoreRevision().
+ */
+export interface SaveSceneOptions {
+  /**
+   * Write even if the scene changed since it was loaded, replacing the
+   * stored copy (default: false). The edit token is still checked.
+   */
+  overwrite?: boolean;
+  /**
+   * Edit token of the scene being saved over (see EditToken). New scenes
+   * get a fresh token unless one is given here.
+   */
+  editToken?: string;
+  /**
+   * JPEG of the scene's view. Stored as `scenes/<id>.jpg` once the scene is
+   * saved, and referenced from the scene's thumbnailUrl.
+   */
+  thumbnail?: Uint8Array | Blob;
+  /**
+   * Sign the scene as it is saved (see signScene()). Without it, the
+   * scene's own signature, if any, is saved as given.
+   */
+  signingKey?: SceneSigningKey;
+}
+
+/**
+ * Thrown by saveScene() when the stored scene changed after it was loaded
+ * (or read to check the edit token), so writing would discard someone
+ * else's save.
+ *
+ * @example
+ * try {
+ *   await storage.saveScene(state, sceneId, { editToken });
+ * } catch (error) {
+ *   if (error instanceof SceneConflictError) {
+ *     // Merge with error.remote (see mergeScenes()), retry with { overwrite: true }, or save as a copy
+ *   }
+ * }
+ */
+export class SceneConflictError extends Error {
+  /** Scene that was being saved */
+  readonly sceneId: string;
+  /** The scene as currently stored, or null if it was deleted */
+  readonly remote: SceneState | null;
+
+  constructor(sceneId: string, remote: SceneState | null) {
+    super(`Scene ${sceneId} was changed by someone else while saving`);
+    this.name = 'SceneConflictError';
+    this.sceneId = sceneId;
+    this.remote = remote;
+  }
+}
+
+/**
+ * Options for purgeScenes().
+ */
+export interface PurgeScenesOptions {
+  /** Time to check expiry against (default: now) */
+  now?: Date;
+  /** Report what would be purged without deleting anything */
+  dryRun?: boolean;
+}
+
+/**
+ * A scene purged by purgeScenes().
+ */
+export interface PurgedScene {
+  /** Scene id */
+  sceneId: string;
+  /** Whether the scene had been removed or had expired */
+  reason: SceneTombstone['reason'];
+}
+
+/**
+ * A scene purgeScenes() couldn't read or clean up.
+ */
+export interface PurgeFailure {
+  /** Scene id */
+  sceneId: string;
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Result of purgeScenes().
+ */
+export interface PurgeScenesResult {
+  /** Scenes purged (or that would be, for a dry run) */
+  purged: PurgedScene[];
+  /** Scenes skipped because of an error; the others are still purged */
+  failed: PurgeFailure[];
+}
+
+/**
+ * Content type for each scene encoding
+ */
+export const SCENE_CONTENT_TYPES: Record<SceneFormat, string> = {
+  json: 'application/json',
+  binary: 'application/vnd.worldnotes.scene+binary',
+};
+
+/**
+ * A scene encoded for upload.
+ */
+export interface EncodedSceneBody {
+  /** Object body (string for JSON, bytes for binary) */
+  body: string | Uint8Array;
+  /** Content-Type to store alongside the body */
+  contentType: string;
+}
+
+/**
+ * Encode a scene for storage in the requested format.
+ *
+ * @param state - Scene to encode
+ * @param format - Encoding to use (default: 'json')
+ * @returns Body and matching Content-Type
+ */
+export function encodeSceneBody(state: SceneState, format: SceneFormat = 'json'): EncodedSceneBody {
+  if (format === 'binary') {
+    return { body: encodeSceneBinary(state), contentType: SCENE_CONTENT_TYPES.binary };
+  }
+  return { body: serializeScene(state), contentType: SCENE_CONTENT_TYPES.json };
+}
+
+/**
+ * Decode a stored scene, choosing the decoder from the Content-Type.
+ * Falls back to sniffing the binary header when the Content-Type is missing
+ * or generic (e.g. application/octet-stream), so either encoding loads
+ * through the same call.
+ *
+ * @param body - Object body as text or bytes
+ * @param contentType - Content-Type reported by the store, if any
+ * @param options - Deserialization options
+ * @returns Decoded SceneState
+ */
+export function decodeSceneBody(
+  body: string | Uint8Array,
+  contentType?: string,
+  options: DeserializeOptions = {}
+): SceneState {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+
+  if (typeof body !== 'string') {
+    if (mediaType === SCENE_CONTENT_TYPES.binary || isSceneBinary(body)) {
+      return decodeSceneBinary(body, options);
+    }
+    return deserializeScene(new TextDecoder().decode(body), options);
+  }
+
+  return deserializeScene(body, options);
+}
+
+/**
+ * A stored object as seen by a backend.
+ */
+export interface StoredObject {
+  /** Object body (string for JSON, bytes for binary) */
+  body: string | Uint8Array;
+  /** Content-Type stored alongside the body */
+  contentType: string;
+  /** Small string metadata (e.g. 'scene-hash') */
+  metadata?: Record<string, string>;
+  /** Version tag the store gave the object; set on reads, ignored on writes */
+  etag?: string;
+}
+
+/**
+ * A stored object's content type, metadata and ETag, without its body.
+ */
+export type StoredObjectInfo = Omit<StoredObject, 'body'>;
+
+/**
+ * Condition for ObjectStorageClient.writeObject(), like S3's If-Match and
+ * If-None-Match headers.
+ */
+export interface WriteCondition {
+  /** Only write over the object with this ETag */
+  ifMatch?: string;
+  /** Only write if there is no object yet */
+  ifNoneMatch?: '*';
+}
+
+/**
+ * Thrown by ObjectStorageClient.writeObject() when its WriteCondition
+ * doesn't hold.
+ */
+export class PreconditionFailedError extends Error {
+  /** Key of the object that wasn't written */
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`Object ${key} changed since it was read`);
+    this.name = 'PreconditionFailedError';
+    this.key = key;
+  }
+}
+
+/**
+ * Generate a UUID v4
+ */
+function generateUUID(): string {
+  // Use crypto.randomUUID if available (modern browsers, Node 19+)
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  // Fallback for older environments
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+/**
+ * ETag for a newly written object, for backends whose store doesn't make
+ * its own. ETags are only compared for equality.
+ *
+ * @internal
+ */
+export function createObjectETag(): string {
+  return generateUUID();
+}
+
+/**
+ * Check a WriteCondition against the object about to be replaced, for
+ * backends whose store can't check conditions itself.
+ *
+ * @internal
+ * @param key - Key being written
+ * @param current - Object currently stored under `key`, or null
+ * @param condition - Condition the write was given
+ * @throws PreconditionFailedError if the condition doesn't hold
+ */
+export function checkWriteCondition(
+  key: string,
+  current: StoredObject | null,
+  condition: WriteCondition = {}
+): void {
+  if (
+    (condition.ifNoneMatch === '*' && current) ||
+    (condition.ifMatch !== undefined && current?.etag !== condition.ifMatch)
+  ) {
+    throw new PreconditionFailedError(key);
+  }
+}
+
+/**
+ * Base class for StorageClients that keep each scene as one JSON object
+ * under `scenes/<id>.json`, which every client (including the skeleton
+ * StorageService and viewer.html) reads and writes. With sceneFormat
+ * 'binary', a binary copy is also kept as `scenes/<id>.bin` and loaded
+ * instead while it is current. Subclasses implement readObject(), writeObject(),
+ * deleteObject() and listObjects() for their store. Saves only notice
+ * concurrent changes if writeObject() honours its WriteCondition and reads
+ * report ETags; otherwise the last save wins.
+ *
+ * @example
+ * class MapStorageClient extends ObjectStorageClient {
+ *   private objects = new Map<string, StoredObject>();
+ *   protected async readObject(key: string) { return this.objects.get(key) ?? null; }
+ *   protected async writeObject(key: string, object: StoredObject) { this.objects.set(key, object); }
+ *   protected async deleteObject(key: string) { this.objects.delete(key); }
+ *   protected async listObjects(prefix: string) {
+ *     return listDirectChildren(this.objects.keys(), prefix);
+ *   }
+ * }
+ */
+export abstract class ObjectStorageClient implements StorageClient {
+  private shareBaseUrl: string;
+  private sceneFormat: SceneFormat;
+  private assetBaseUrl: string | undefined;
+  /** ETags of scenes as last loaded or saved, checked when saving them again */
+  private sceneETags = new Map<string, string>();
+
+  constructor(config: BaseStorageConfig) {
+    // Remove trailing slash
+    this.shareBaseUrl = (config.viewerUrl ?? config.appUrl).replace(/\/$/, '');
+    this.sceneFormat = config.sceneFormat ?? 'json';
+    this.assetBaseUrl = config.assetBaseUrl?.replace(/\/$/, '');
+  }
+
+  /** Read an object, or null if it doesn't exist */
+  protected abstract readObject(key: string): Promise<StoredObject | null>;
+
+  /**
+   * Create or replace an object, if `condition` holds.
+   *
+   * @returns The new object's ETag, if the store has one
+   * @throws PreconditionFailedError if the condition doesn't hold
+   */
+  protected abstract writeObject(
+    key: string,
+    object: StoredObject,
+    condition?: WriteCondition
+  ): Promise<string | void>;
+
+  /** Delete an object; a missing object is not an error */
+  protected abstract deleteObject(key: string): Promise<void>;
+
+  /**
+   * Keys of the objects directly under `prefix` (which ends in '/'), not
+   * those further down, e.g. `scenes/a.json` but not `scenes/a/revisions/...`
+   */
+  protected abstract listObjects(prefix: string): Promise<string[]>;
+
+  /**
+   * An object's content type, metadata and ETag, or null if it doesn't
+   * exist. Reads the whole object; backends that can fetch just the
+   * metadata should override this.
+   */
+  protected async readObjectInfo(key: string): Promise<StoredObjectInfo | null> {
+    const object = await this.readObject(key);
+    if (!object) {
+      return null;
+    }
+    const info: StoredObjectInfo = { contentType: object.contentType };
+    if (object.metadata !== undefined) {
+      info.metadata = object.metadata;
+    }
+    if (object.etag !== undefined) {
+      info.etag = object.etag;
+    }
+    return info;
+  }
+
+  /**
+   * Whether an object exists. Reads the whole object; backends that can
+   * check without downloading should override this.
+   */
+  protected async hasObject(key: string): Promise<boolean> {
+    return (await this.readObject(key)) !== null;
+  }
+
+  /**
+   * Object key for a scene
+   */
+  protected getSceneKey(sceneId: string): string {
+    return `scenes/${sceneId}.json`;
+  }
+
+  /**
+   * Object key for the binary copy of a scene kept with sceneFormat 'binary'
+   */
+  protected getBinarySceneKey(sceneId: string): string {
+    return `scenes/${sceneId}.bin`;
+  }
+
+  /**
+   * Object key for an immutable revision of a scene
+   */
+  protected getRevisionKey(sceneId: string, rev: string): string {
+    return `scenes/${sceneId}/revisions/${rev}.json`;
+  }
+
+  /**
+   * Object key for a scene's revision index
+   */
+  protected getRevisionIndexKey(sceneId: string): string {
+    return `scenes/${sceneId}/revisions/index.json`;
+  }
+
+  /**
+   * Object key for the index of saved scenes
+   */
+  protected getSceneIndexKey(): string {
+    return 'scenes/_index.json';
+  }
+
+  /**
+   * Object key for a scene's thumbnail
+   */
+  protected getThumbnailKey(sceneId: string): string {
+    return `scenes/${sceneId}.jpg`;
+  }
+
+  /**
+   * Object key for an uploaded model
+   */
+  protected getAssetKey(sha256: string): string {
+    return `assets/${sha256}.glb`;
+  }
+
+  /**
+   * URL an uploaded model or thumbnail is served from: `assetBaseUrl` joined
+   * with the key, or the bare key (resolved against the page) when no base
+   * URL is configured.
+   */
+  protected getAssetUrl(key: string): string {
+    return this.assetBaseUrl ? `${this.assetBaseUrl}/${key}` : key;
+  }
+
+  getShareUrl(sceneId: string, hash?: string): string {
+    const url = `${this.shareBaseUrl}?scene=${encodeURIComponent(sceneId)}`;
+    return hash ? `${url}&hash=${hash.slice(0, SHARE_HASH_LENGTH)}` : url;
+  }
+
+  /**
+   * Save a scene. Besides replacing the current object, every save writes
+   * an immutable copy under `scenes/<id>/revisions/`, appends it to the
+   * scene's revision index and moves the scene to the top of the scene index.
+   *
+   * Saving over a stored scene requires `options.editToken` to match its
+   * editTokenHash. Scenes without one (saved before edit tokens) take the
+   * given token, or a new one, from this save on.
+   *
+   * Saving over a removed scene brings it back, with the edit token it had
+   * when it was removed.
+   *
+   * With `options.thumbnail`, the image is stored next to the scene and the
+   * saved thumbnailUrl points at it. The URL doesn't change between saves,
+   * so updating the thumbnail doesn't change the scene's content hash.
+   *
+   * With `options.signingKey`, the saved scene is signed with it (see
+   * signScene()), after the thumbnailUrl is set.
+   *
+   * The scene and its revisions are always stored as JSON. With sceneFormat
+   * 'binary', a binary copy is written after the JSON one, carrying the
+   * same content hash so loadScene() can tell whether it is current.
+   *
+   * The write is conditional on the ETag of the scene as last loaded or
+   * saved by this client, or else of the copy whose edit token was just
+   * checked; a new scene must not exist yet. If the scene changed in
+   * between, SceneConflictError is thrown with the stored copy, unless
+   * `options.overwrite` is set.
+   *
+   * If the content hashes the same as the stored copy (see hashScene()) and
+   * has the same signature, the scene isn't uploaded again, no revision is
+   * added and `updatedAt` is left alone; a given thumbnail is still stored.
+   *
+   * @throws SceneEditDeniedError if the stored scene has a different edit token
+   * @throws SceneConflictError if the scene changed while saving
+   */
+  async saveScene(
+    state: SceneState,
+    existingId?: string,
+    options: SaveSceneOptions = {}
+  ): Promise<ShareableScene> {
+    const sceneId = existingId || generateUUID();
+    const key = this.getSceneKey(sceneId);
+
+    const storedObject = existingId ? await this.readObject(key) : null;
+    const tombstone = storedObject && readTombstone(storedObject);
+    const stored =
+      storedObject && (tombstone ?? decodeSceneBody(storedObject.body, storedObject.contentType));
+    if (stored && !(await canEditScene(stored, options.editToken))) {
+      throw new SceneEditDeniedError(sceneId);
+    }
+    const editToken = options.editToken ?? createEditToken();
+
+    const now = new Date().toISOString();
+    let stateToSave: SceneState = {
+      ...state,
+      createdAt: existingId ? state.createdAt : now,
+      updatedAt: now,
+      editTokenHash: await hashEditToken(editToken),
+    };
+    const thumbnailKey = this.getThumbnailKey(sceneId);
+    if (options.thumbnail) {
+      stateToSave.thumbnailUrl = this.getAssetUrl(thumbnailKey);
+    }
+    if (options.signingKey) {
+      const { privateKey, keyId } = options.signingKey;
+      stateToSave = await signScene(stateToSave, privateKey, keyId);
+    }
+    const hash = await hashScene(stateToSave);
+    // Scenes saved before edit tokens still need this save to store one, and
+    // the hash leaves out signatures, so a new signature is a change too
+    const unchanged =
+      stored?.editTokenHash !== undefined &&
+      storedObject?.metadata?.['scene-hash'] === hash &&
+      isSameSignature('signature' in stored ? stored.signature : undefined, stateToSave.signature);
+
+    if (unchanged) {
+      this.rememberETag(sceneId, storedObject.etag);
+    } else {
+      const condition: WriteCondition = {};
+      if (!options.overwrite) {
+        // A removed scene is brought back over its tombstone, whoever loaded it
+        const expectedETag = tombstone
+          ? storedObject.etag
+          : (this.sceneETags.get(sceneId) ?? storedObject?.etag);
+        if (expectedETag) {
+          condition.ifMatch = expectedETag;
+        } else if (!storedObject) {
+          condition.ifNoneMatch = '*';
+        }
+      }
+
+      const { body, contentType } = encodeSceneBody(stateToSave);
+      const object: StoredObject = { body, contentType, metadata: { 'scene-hash': hash } };
+      try {
+        this.rememberETag(sceneId, await this.writeObject(key, object, condition));
+      } catch (error) {
+        if (error instanceof PreconditionFailedError) {
+          const current = await this.readObject(key);
+          throw new SceneConflictError(sceneId, current && readStoredScene(current));
+        }
+        throw error;
+      }
+      if (this.sceneFormat === 'binary') {
+        await this.writeObject(this.getBinarySceneKey(sceneId), {
+          ...encodeSceneBody(stateToSave, 'binary'),
+          metadata: { 'scene-hash': hash },
+        });
+      }
+
+      const index = await this.readRevisionIndex(sceneId);
+      const { rev } = addRevision(index, {
+        updatedAt: now,
+        hash,
+        treatCount: stateToSave.treats.length,
+      });
+      await this.writeObject(this.getRevisionKey(sceneId, rev), object);
+      await this.writeObject(this.getRevisionIndexKey(sceneId), {
+        body: JSON.stringify(index),
+        contentType: SCENE_CONTENT_TYPES.json,
+      });
+
+      await this.updateSceneIndex(sceneId, summarizeScene(sceneId, stateToSave));
+    }
+    if (options.thumbnail) {
+      const image = options.thumbnail;
+      await this.writeObject(thumbnailKey, {
+        body: image instanceof Uint8Array ? image : new Uint8Array(await image.arrayBuffer()),
+        contentType: THUMBNAIL_CONTENT_TYPE,
+      });
+    }
+
+    const shareUrl = this.getShareUrl(sceneId, hash);
+    return {
+      sceneId,
+      shareUrl,
+      s3Key: key,
+      hash,
+      editToken,
+      editUrl: getEditUrl(shareUrl, editToken),
+    };
+  }
+
+  /**
+   * Load a scene. Expired scenes load normally; viewers check them with
+   * isSceneExpired().
+   *
+   * With sceneFormat 'binary', the binary copy is fetched alongside the JSON
+   * object's metadata and used if both carry the same content hash. Saves
+   * and removals by clients that only write JSON leave it behind, and the
+   * JSON object is loaded instead.
+   *
+   * @throws SceneRemovedError if the scene was removed (or purged after expiring)
+   */
+  async loadScene(sceneId: string): Promise<SceneState | null> {
+    const key = this.getSceneKey(sceneId);
+    if (this.sceneFormat === 'binary') {
+      const [info, binary] = await Promise.all([
+        this.readObjectInfo(key),
+        this.readObject(this.getBinarySceneKey(sceneId)),
+      ]);
+      const hash = info?.metadata?.['scene-hash'];
+      if (hash !== undefined && binary?.metadata?.['scene-hash'] === hash) {
+        this.rememberETag(sceneId, info?.etag);
+        return decodeSceneBody(binary.body, binary.contentType);
+      }
+    }
+    const object = await this.readObject(key);
+    this.rememberETag(sceneId, object?.etag);
+    return object && readStoredScene(object);
+  }
+
+  async deleteScene(sceneId: string): Promise<void> {
+    this.sceneETags.delete(sceneId);
+    await this.deleteObject(this.getSceneKey(sceneId));
+    await this.deleteObject(this.getBinarySceneKey(sceneId));
+    await this.deleteObject(this.getThumbnailKey(sceneId));
+
+    const { revisions } = await this.readRevisionIndex(sceneId);
+    for (const { rev } of revisions) {
+      await this.deleteObject(this.getRevisionKey(sceneId, rev));
+    }
+    await this.deleteObject(this.getRevisionIndexKey(sceneId));
+    await this.updateSceneIndex(sceneId, null);
+  }
+
+  /**
+   * Soft-delete a scene: replace it, its thumbnail and any binary copy with
+   * a tombstone so loading it throws SceneRemovedError, and drop its
+   * listing. Nothing is deleted, so clients that can only read and write
+   * objects (like the app's Cognito role) can remove scenes; purgeScenes()
+   * deletes the revisions, thumbnail and binary copy later. Removing a missing or already removed
+   * scene does nothing.
+   *
+   * @param sceneId - Scene to remove
+   * @param options - The scene's edit token
+   * @throws SceneEditDeniedError if the edit token doesn't match
+   */
+  async removeScene(
+    sceneId: string,
+    options: Pick<SaveSceneOptions, 'editToken'> = {}
+  ): Promise<void> {
+    let stored: SceneState | null;
+    try {
+      stored = await this.loadScene(sceneId);
+    } catch (error) {
+      if (error instanceof SceneRemovedError) {
+        return;
+      }
+      throw error;
+    }
+    if (!stored) {
+      return;
+    }
+    if (!(await canEditScene(stored, options.editToken))) {
+      throw new SceneEditDeniedError(sceneId);
+    }
+
+    const tombstone = createTombstone(sceneId, stored, 'removed');
+    await this.writeTombstone(tombstone);
+    this.sceneETags.delete(sceneId);
+    for (const key of [this.getThumbnailKey(sceneId), this.getBinarySceneKey(sceneId)]) {
+      if (await this.hasObject(key)) {
+        await this.writeObject(key, {
+          body: JSON.stringify(tombstone),
+          contentType: TOMBSTONE_CONTENT_TYPE,
+        });
+      }
+    }
+    await this.updateSceneIndex(sceneId, null);
+  }
+
+  /**
+   * Delete the revisions, thumbnails and binary copies of removed scenes
+   * and of scenes whose expiry has passed, for the maintenance script. A
+   * tombstone is left in each scene's place (marked purged), so old links
+   * still say what happened; scenes already purged are skipped.
+   *
+   * Lists and reads every scene, so it is meant for occasional batch runs.
+   * A scene that can't be read or cleaned up is reported in `failed` and
+   * the rest are still purged.
+   *
+   * @param options - Expiry reference time and dry run
+   * @returns Scenes purged (or that would be, for a dry run) and those that failed
+   */
+  async purgeScenes(options: PurgeScenesOptions = {}): Promise<PurgeScenesResult> {
+    const now = options.now ?? new Date();
+    const result: PurgeScenesResult = { purged: [], failed: [] };
+
+    for (const key of await this.listObjects('scenes/')) {
+      const match = /^scenes\/([^/]+)\.json$/.exec(key);
+      if (!match || key === this.getSceneIndexKey()) {
+        continue;
+      }
+      const sceneId = match[1];
+      try {
+        const purged = await this.purgeScene(sceneId, now, options.dryRun);
+        if (purged) {
+          result.purged.push(purged);
+        }
+      } catch (error) {
+        result.failed.push({
+          sceneId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Purge one scene if it was removed or has expired.
+   *
+   * @returns The purged scene, or null if there was nothing to purge
+   */
+  private async purgeScene(
+    sceneId: string,
+    now: Date,
+    dryRun = false
+  ): Promise<PurgedScene | null> {
+    const object = await this.readObject(this.getSceneKey(sceneId));
+    if (!object) {
+      return null;
+    }
+
+    let tombstone = readTombstone(object);
+    if (tombstone?.purgedAt) {
+      return null;
+    }
+    if (!tombstone) {
+      const state = decodeSceneBody(object.body, object.contentType);
+      if (!isSceneExpired(state, now)) {
+        return null;
+      }
+      tombstone = createTombstone(sceneId, state, 'expired', now);
+    }
+
+    const purged: PurgedScene = { sceneId, reason: tombstone.reason };
+    if (dryRun) {
+      return purged;
+    }
+    const { revisions } = await this.readRevisionIndex(sceneId);
+    for (const { rev } of revisions) {
+      await this.deleteObject(this.getRevisionKey(sceneId, rev));
+    }
+    await this.deleteObject(this.getRevisionIndexKey(sceneId));
+    await this.deleteObject(this.getThumbnailKey(sceneId));
+    await this.deleteObject(this.getBinarySceneKey(sceneId));
+    await this.updateSceneIndex(sceneId, null);
+    await this.writeTombstone({ ...tombstone, purgedAt: now.toISOString() });
+    return purged;
+  }
+
+  async listRevisions(sceneId: string): Promise<SceneRevision[]> {
+    const { revisions } = await this.readRevisionIndex(sceneId);
+    return revisions.reverse();
+  }
+
+  async loadRevision(sceneId: string, rev: string): Promise<SceneState | null> {
+    const object = await this.readObject(this.getRevisionKey(sceneId, rev));
+    return object ? decodeSceneBody(object.body, object.contentType) : null;
+  }
+
+  async restoreRevision(
+    sceneId: string,
+    rev: string,
+    options: SaveSceneOptions = {}
+  ): Promise<ShareableScene> {
+    const revision = await this.loadRevision(sceneId, rev);
+    if (!revision) {
+      throw new Error(`Revision ${rev} of scene ${sceneId} not found`);
+    }
+    return this.saveScene(revision, sceneId, options);
+  }
+
+  /**
+   * Upload a GLB model under `assets/<sha256>.glb`. The file is checked
+   * before anything is sent, and uploading content that is already stored
+   * only returns its URL.
+   *
+   * @param data - File contents, e.g. a File from a file input or drop
+   * @param options - Size limit
+   * @returns Asset key, URL and hash
+   * @throws InvalidAssetError if the file is too large or not a GLB
+   *
+   * @example
+   * const { url } = await storage.uploadAsset(input.files[0]);
+   * treat.glbUrl = url;
+   */
+  async uploadAsset(
+    data: Uint8Array | Blob,
+    options: UploadAssetOptions = {}
+  ): Promise<UploadedAsset> {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+    validateGlb(bytes, options.maxBytes);
+
+    const sha256 = await hashAsset(bytes);
+    const key = this.getAssetKey(sha256);
+    const existed = await this.hasObject(key);
+    if (!existed) {
+      await this.writeObject(key, {
+        body: bytes,
+        contentType: GLB_CONTENT_TYPE,
+        metadata: { sha256 },
+      });
+    }
+    return { key, url: this.getAssetUrl(key), sha256, size: bytes.byteLength, existed };
+  }
+
+  /**
+   * List saved scenes, most recently saved first.
+   *
+   * Reads the scene index rather than listing the store, so a page costs one
+   * request however many scenes there are. Only the 1000 most recently saved
+   * scenes are indexed.
+   *
+   * @param options - Page cursor, page size and world filter
+   * @returns One page of scene summaries and the cursor for the next
+   * @throws Error if the cursor is not one returned by listScenes()
+   *
+   * @example
+   * let page = await storage.listScenes({ limit: 10 });
+   * while (page.cursor) {
+   *   page = await storage.listScenes({ limit: 10, cursor: page.cursor });
+   * }
+   */
+  async listScenes(options: ListScenesOptions = {}): Promise<SceneListPage> {
+    return pageSceneSummaries(await this.readSceneIndex(), options);
+  }
+
+  /**
+   * Replace a scene's entry in the scene index, or remove it when `summary`
+   * is null. Concurrent saves of different scenes can race here; the index
+   * is a listing aid, and the scenes themselves are unaffected.
+   */
+  private async updateSceneIndex(sceneId: string, summary: SceneSummary | null): Promise<void> {
+    const index = replaceSceneSummary(await this.readSceneIndex(), sceneId, summary);
+    if (!index) {
+      return;
+    }
+    await this.writeObject(this.getSceneIndexKey(), {
+      body: JSON.stringify(index),
+      contentType: SCENE_CONTENT_TYPES.json,
+    });
+  }
+
+  /**
+   * Keep the ETag a scene was loaded or saved with for its next save; a
+   * store without ETags leaves saves unconditional.
+   */
+  private rememberETag(sceneId: string, etag: string | void | undefined): void {
+    if (etag) {
+      this.sceneETags.set(sceneId, etag);
+    } else {
+      this.sceneETags.delete(sceneId);
+    }
+  }
+
+  /**
+   * Store a tombstone in place of a scene.
+   */
+  private async writeTombstone(tombstone: SceneTombstone): Promise<void> {
+    await this.writeObject(this.getSceneKey(tombstone.sceneId), {
+      body: JSON.stringify(tombstone),
+      contentType: TOMBSTONE_CONTENT_TYPE,
+    });
+  }
+
+  /**
+   * Read the scene index, sorted most recently saved first.
+   */
+  private async readSceneIndex(): Promise<SceneSummary[]> {
+    return readSceneSummaries(await this.readJsonObject<unknown>(this.getSceneIndexKey()));
+  }
+
+  /**
+   * Read a scene's revision index; scenes saved before revisions were kept
+   * have none and get an empty one.
+   */
+  private async readRevisionIndex(sceneId: string): Promise<RevisionIndex> {
+    return parseRevisionIndex(
+      await this.readJsonObject<unknown>(this.getRevisionIndexKey(sceneId))
+    );
+  }
+
+  /**
+   * Read and parse a JSON object, or null if it doesn't exist.
+   */
+  private async readJsonObject<T>(key: string): Promise<T | null> {
+    const object = await this.readObject(key);
+    if (!object) {
+      return null;
+    }
+    const text =
+      typeof object.body === 'string' ? object.body : new TextDecoder().decode(object.body);
+    return JSON.parse(text) as T;
+  }
+}
+
+/**
+ * The tombstone stored in an object, or null if it holds a scene.
+ */
+function readTombstone(object: StoredObject): SceneTombstone | null {
+  if (!object.contentType.toLowerCase().startsWith(TOMBSTONE_CONTENT_TYPE)) {
+    return null;
+  }
+  const text =
+    typeof object.body === 'string' ? object.body : new TextDecoder().decode(object.body);
+  return parseTombstone(object.contentType, text);
+}
+
+/**
+ * The scene stored in an object.
+ *
+ * @throws SceneRemovedError if the object holds a tombstone
+ */
+function readStoredScene(object: StoredObject): SceneState {
+  const tombstone = readTombstone(object);
+  if (tombstone) {
+    throw new SceneRemovedError(tombstone);
+  }
+  return decodeSceneBody(object.body, object.contentType);
+}
+
+/**
+ * Keys directly under `prefix`, sorted; for backends that can enumerate all
+ * of their keys (see ObjectStorageClient.listObjects()).
+ *
+ * @internal
+ */
+export function listDirectChildren(keys: Iterable<string>, prefix: string): string[] {
+  return [...keys]
+    .filter((key) => key.startsWith(prefix) && !key.slice(prefix.length).includes('/'))
+    .sort();
 }
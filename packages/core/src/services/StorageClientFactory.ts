@@ -0,0 +1,37 @@
+/**
+ * StorageClientFactory - Pick a StorageClient backend from configuration.
+ *
+ * @module @worldnotes/core/services/StorageClientFactory
+ */
+
+import type { StorageClientConfig } from '../types';
+import type { StorageClient } from './StorageClient';
+import { S3StorageClient } from './S3StorageClient';
+import { MemoryStorageClient } from './MemoryStorageClient';
+import { IndexedDBStorageClient } from './IndexedDBStorageClient';
+import { FileSystemStorageClient } from './FileSystemStorageClient';
+
+/**
+ * Create the StorageClient selected by `config.backend` (default: 's3').
+ *
+ * @param config - Backend and its configuration
+ * @returns StorageClient for that backend
+ *
+ * @example
+ * const storage = createStorageClient({ backend: 'memory', appUrl: 'http://localhost:5173' });
+ */
+export function createStorageClient(config: StorageClientConfig): StorageClient {
+  switch (config.backend) {
+    case undefined:
+    case 's3':
+      return new S3StorageClient(config);
+    case 'memory':
+      return new MemoryStorageClient(config);
+    case 'indexeddb':
+      return new IndexedDBStorageClient(config);
+    case 'filesystem':
+      return new FileSystemStorageClient(config);
+    default:
+      throw new Error(`Unknown storage backend: ${(config as { backend: string }).backend}`);
+  }
+}
@@ -3,3 +3,13 @@
  */
 
 export * from './StorageClient';
+export * from './EditToken';
+export * from './Assets';
+export * from './SceneLifecycle';
+export * from './SceneIndex';
+export * from './SceneRevisions';
+export * from './S3StorageClient';
+export * from './MemoryStorageClient';
+export * from './IndexedDBStorageClient';
+export * from './FileSystemStorageClient';
+export * from './StorageClientFactory';
@@ -44,6 +44,25 @@ export interface CameraPose {
   rotation: { x: number; y: number };
 }
 
+/**
+ * Euler rotation in radians with an optional Three.js rotation order.
+ * Structurally compatible with Vector3 so existing rotations remain valid.
+ *
+ * @example
+ * const rotation: Euler = { x: 0, y: 1.57, z: 0, order: 'XYZ' };
+ */
+export interface Euler extends Vector3 {
+  /** Rotation order (e.g., 'XYZ', 'YXZ'); defaults to 'XYZ' when omitted */
+  order?: string;
+}
+
+/**
+ * Properties a scene or treat carried that this build does not recognize.
+ * Kept by the deserializer and written back unchanged by the serializer so
+ * that older builds do not delete data added by newer ones.
+ */
+export type ExtensionFields = Record<string, unknown>;
+
 /**
  * Application mode - determines available interactions.
  * - 'explore': Navigation and message reading only
@@ -63,6 +82,19 @@ export type AppMode = 'explore' | 'edit';
  */
 export type TreatType = 'geomarker' | 'bottle' | 'custom' | string;
 
+/**
+ * Optional metadata attached to a treat.
+ * The treat message lives on TreatData.message; legacy `metadata.text`
+ * values are moved there by the v1 -> v2 migration.
+ */
+export interface TreatMetadata {
+  /** Vibe code for custom behaviors (advanced feature) */
+  behaviorCode?: string;
+  /** Unique ID for inter-object communication */
+  objectId?: string;
+  /** Unrecognized metadata properties preserved across load/save */
+  extensions?: ExtensionFields;
+}
 
 /**
  * Data required to create a new treat.
@@ -87,7 +119,11 @@ export interface TreatData {
   /** Position in world space */
   position: Vector3;
   /** Rotation as Euler angles (x, y, z) in radians */
-  rotation: Vector3;
+  rotation: Euler;
+  /** Scale of the treat (default: { x: 1, y: 1, z: 1 }) */
+  scale?: Vector3;
+  /** Additional metadata */
+  metadata?: TreatMetadata;
 }
 
 /**
@@ -113,6 +149,50 @@ export interface Treat extends TreatData {
   createdAt?: string;
   /** ISO 8601 timestamp when the treat was last updated */
   updatedAt?: string;
+  /** Unrecognized properties preserved across load/save */
+  extensions?: ExtensionFields;
+}
+
+// ============================================================================
+// Waypoint Types
+// ============================================================================
+
+/**
+ * Action triggered when a waypoint is reached.
+ */
+export interface WaypointAction {
+  /** Type of action */
+  type: 'audio' | 'text' | 'activate';
+  /** Action payload (URL, text content, or treat ID) */
+  payload: string;
+}
+
+/**
+ * A navigation waypoint in the world.
+ */
+export interface Waypoint {
+  /** Unique identifier */
+  id: string;
+  /** Position in world space */
+  position: Vector3;
+  /** ID of the path this waypoint belongs to */
+  pathId?: string;
+  /** Order within the path */
+  order?: number;
+  /** Action to trigger when reached */
+  triggerAction?: WaypointAction;
+}
+
+/**
+ * A path connecting multiple waypoints.
+ */
+export interface WaypointPath {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Ordered list of waypoint IDs */
+  waypointIds: string[];
 }
 
 // ============================================================================
@@ -123,9 +203,12 @@ export interface Treat extends TreatData {
  * Complete scene state for persistence and sharing.
  * Contains all data needed to reconstruct a scene.
  *
+ * Version 2 unifies the core, skeleton and viewer.html scene shapes.
+ * Older documents are upgraded by migrateScene() when deserialized.
+ *
  * @example
  * const state: SceneState = {
- *   version: 1,
+ *   version: 2,
  *   worldUrl: 'https://example.com/world.spz',
  *   worldFlipY: true,
  *   treats: [],
@@ -134,18 +217,65 @@ export interface Treat extends TreatData {
  * };
  */
 export interface SceneState {
-  /** Schema version for migrations (current: 1) */
+  /** Schema version for migrations (current: 2) */
   version: number;
   /** URL of the SPZ splat world file */
   worldUrl: string;
+  /** Display name of the world */
+  worldName?: string;
   /** Whether to flip the world on Y axis (default: true for most SPZ files) */
   worldFlipY?: boolean;
+  /** Camera position the scene opens at */
+  startPosition?: Vector3;
+  /** Camera rotation the scene opens at: x = pitch, y = yaw (in radians) */
+  startRotation?: { x: number; y: number };
+  /** Thumbnail image URL for galleries and link previews */
+  thumbnailUrl?: string;
   /** All treats placed in the scene */
   treats: Treat[];
+  /** All navigation waypoints */
+  waypoints?: Waypoint[];
+  /** All waypoint paths */
+  paths?: WaypointPath[];
   /** ISO 8601 timestamp when the scene was created */
   createdAt: string;
   /** ISO 8601 timestamp when the scene was last updated */
   updatedAt: string;
+  /**
+   * ISO 8601 time after which viewers refuse to show the scene and
+   * maintenance may purge it (see isSceneExpired); absent for scenes that
+   * don't expire
+   */
+  expiresAt?: string;
+  /** Publisher signature over the scene content (see signScene) */
+  signature?: SceneSignature;
+  /**
+   * SHA-256 of the scene's secret edit token (see hashEditToken). Storage
+   * clients refuse to overwrite the scene without the matching token.
+   */
+  editTokenHash?: string;
+  /** Unrecognized top-level properties preserved across load/save */
+  extensions?: ExtensionFields;
+}
+
+/**
+ * Detached signature over a scene's canonical form (canonicalizeScene).
+ * Lets viewers tell official scenes from copies rewritten in the bucket.
+ *
+ * @example
+ * const signature: SceneSignature = {
+ *   alg: 'Ed25519',
+ *   keyId: 'acme-2025',
+ *   value: 'q83vEjRWeJA...'
+ * };
+ */
+export interface SceneSignature {
+  /** Signature algorithm; only 'Ed25519' can be verified */
+  alg: 'Ed25519' | string;
+  /** Identifies the public key that verifies the signature */
+  keyId: string;
+  /** Base64-encoded signature bytes */
+  value: string;
 }
 
 /**
@@ -166,13 +296,56 @@ export interface ShareableScene {
   shareUrl: string;
   /** S3 object key where the scene is stored */
   s3Key: string;
+  /** SHA-256 of the saved scene's canonical form (see hashScene) */
+  hash?: string;
+  /** Secret token required to save over the scene; keep it out of view links */
+  editToken?: string;
+  /** shareUrl with the edit token in the fragment, for people allowed to edit */
+  editUrl?: string;
 }
 
-
 // ============================================================================
 // Configuration Types
 // ============================================================================
 
+/**
+ * Encoding used when storing scenes.
+ * - 'json': Human-readable JSON (application/json)
+ * - 'binary': Compact binary encoding for large scenes (see encodeSceneBinary)
+ */
+export type SceneFormat = 'json' | 'binary';
+
+/**
+ * Where scenes are stored.
+ * - 's3': S3 bucket with Cognito anonymous credentials (shared scenes)
+ * - 'memory': In-process map, for tests
+ * - 'indexeddb': Browser IndexedDB, for local drafts
+ * - 'filesystem': Node filesystem directory, for tooling
+ */
+export type StorageBackend = 's3' | 'memory' | 'indexeddb' | 'filesystem';
+
+/**
+ * Settings shared by every storage backend.
+ */
+export interface BaseStorageConfig {
+  /** Base URL of the Editor application */
+  appUrl: string;
+  /** Base URL of the Viewer application (optional, defaults to appUrl) */
+  viewerUrl?: string;
+  /**
+   * Encoding to load scenes in (default: 'json'). Scenes are always stored
+   * as JSON under `scenes/<id>.json`, which every client reads; 'binary'
+   * also keeps a compact copy as `scenes/<id>.bin` and loads that while it
+   * is current, falling back to the JSON after saves by JSON-only clients.
+   */
+  sceneFormat?: SceneFormat;
+  /**
+   * Public base URL of the store, used for uploaded asset URLs (S3 defaults
+   * to the bucket's URL; other backends return bare keys without it)
+   */
+  assetBaseUrl?: string;
+}
+
 /**
  * AWS S3 and Cognito configuration for scene storage.
  *
@@ -184,19 +357,56 @@ export interface ShareableScene {
  *   appUrl: 'https://editor.worldnotes.app'
  * };
  */
-export interface StorageConfig {
+export interface StorageConfig extends BaseStorageConfig {
+  /** Storage backend (default: 's3') */
+  backend?: 's3';
   /** AWS region (e.g., 'us-east-1') */
   region: string;
   /** Cognito Identity Pool ID for anonymous access */
   identityPoolId: string;
   /** S3 bucket name for scene storage */
   bucketName: string;
-  /** Base URL of the Editor application */
-  appUrl: string;
-  /** Base URL of the Viewer application (optional, defaults to appUrl) */
-  viewerUrl?: string;
 }
 
+/**
+ * In-memory scene storage. Scenes last as long as the client instance.
+ */
+export interface MemoryStorageConfig extends BaseStorageConfig {
+  backend: 'memory';
+}
+
+/**
+ * Browser IndexedDB scene storage for local drafts.
+ */
+export interface IndexedDBStorageConfig extends BaseStorageConfig {
+  backend: 'indexeddb';
+  /** Database name (default: 'worldnotes') */
+  databaseName?: string;
+}
+
+/**
+ * Node filesystem scene storage for tooling and scripts.
+ */
+export interface FileSystemStorageConfig extends BaseStorageConfig {
+  backend: 'filesystem';
+  /** Directory that scene keys are resolved against */
+  directory: string;
+}
+
+/**
+ * Configuration for any storage backend, selected by `backend`.
+ *
+ * @example
+ * const storage: StorageClientConfig = import.meta.env.DEV
+ *   ? { backend: 'indexeddb', appUrl: 'http://localhost:5173' }
+ *   : { region: 'us-east-1', identityPoolId, bucketName, appUrl };
+ */
+export type StorageClientConfig =
+  | StorageConfig
+  | MemoryStorageConfig
+  | IndexedDBStorageConfig
+  | FileSystemStorageConfig;
+
 /**
  * Configuration for initializing a WorldNotes world.
  *
@@ -223,12 +433,97 @@ export interface WorldNotesConfig {
   flipY?: boolean;
   /** Initial camera pose when loading the world */
   initialPose?: CameraPose;
-  /** S3/Cognito configuration for scene persistence */
-  storage?: StorageConfig;
+  /** Scene persistence backend and its configuration */
+  storage?: StorageClientConfig;
   /** Enable editing features (default: false for viewer) */
   editMode?: boolean;
+  /**
+   * Callbacks registered before the world starts loading, so they also
+   * receive worldLoadProgress, worldLoaded and load errors
+   */
+  on?: WorldEventListeners;
 }
 
+// ============================================================================
+// World Events
+// ============================================================================
+
+/**
+ * Events a world emits, with the payload passed to their callbacks.
+ * Subscribe with WorldHandle.on().
+ */
+export interface WorldEventMap {
+  /** A treat was added (addTreat() or loadSceneState()) */
+  treatAdded: { treat: Treat };
+  /** A treat's properties changed */
+  treatUpdated: {
+    /** The treat after the update */
+    treat: Treat;
+    /** The treat before the update */
+    previous: Treat;
+    /** Properties whose value changed */
+    changed: (keyof TreatData)[];
+  };
+  /** A treat was removed (removeTreat() or loadSceneState()) */
+  treatRemoved: { treat: Treat };
+  /**
+   * Treats were added, updated or removed: once per change, or once per
+   * transaction() with its net changes. Emitted after the events for the
+   * single treats, so a list of treats can refresh once per change.
+   */
+  treatsChanged: {
+    added: Treat[];
+    updated: WorldEventMap['treatUpdated'][];
+    removed: Treat[];
+  };
+  /** The selected treat changed; null when nothing is selected */
+  selectionChanged: { treatId: string | null; previousTreatId: string | null };
+  /** The camera moved or turned; emitted at most every 100 ms while it moves */
+  cameraMoved: { pose: CameraPose };
+  /** Part of the splat world was downloaded */
+  worldLoadProgress: {
+    /** Bytes downloaded */
+    loaded: number;
+    /** Total bytes, or null if the server didn't say */
+    total: number | null;
+  };
+  /** The splat world finished loading and is being shown */
+  worldLoaded: { worldUrl: string };
+  /** Something failed without stopping the world (or, while loading, stopped it) */
+  error: {
+    error: unknown;
+    /** Treat whose model failed to load, if any */
+    treatId?: string;
+  };
+  /** A treat was clicked */
+  treatClicked: { treatId: string };
+  /** The camera entered the message zone of a treat */
+  messageZoneEntered: { treatId: string };
+  /** The application mode changed */
+  modeChanged: { mode: AppMode };
+}
+
+/**
+ * Name of a world event.
+ */
+export type WorldEvent = keyof WorldEventMap;
+
+/**
+ * Callback for a world event.
+ */
+export type WorldEventCallback<E extends WorldEvent> = (payload: WorldEventMap[E]) => void;
+
+/**
+ * Callbacks for any of the world events, by event name.
+ *
+ * @example
+ * const on: WorldEventListeners = {
+ *   worldLoadProgress: ({ loaded, total }) => showProgress(loaded, total),
+ *   error: ({ error }) => console.error(error),
+ * };
+ */
+export type WorldEventListeners = { [E in WorldEvent]?: WorldEventCallback<E> };
+
 // ============================================================================
 // World Handle Interface
 // ============================================================================
@@ -291,6 +586,14 @@ export interface WorldHandle {
    */
   removeTreat(treatId: string): void;
 
+  /**
+   * Put a treat back exactly as given, keeping its ID and timestamps: adds
+   * it if no treat has the ID, otherwise replaces that treat. For undoing
+   * edits, e.g. with createEditHistory().
+   * @param treat - Treat as previously returned by the world
+   */
+  restoreTreat(treat: Treat): void;
+
   /**
    * Get all treats in the scene.
    * @returns Array of all treats
@@ -304,6 +607,26 @@ export interface WorldHandle {
    */
   getTreat(treatId: string): Treat | null;
 
+  /**
+   * Apply several treat changes as one unit. Events for the changes are
+   * held back until `fn` returns, then emitted for the net changes (a treat
+   * added and removed again is not reported), followed by one treatsChanged.
+   * If `fn` throws, every change it made is rolled back, no events are
+   * emitted and the error is rethrown. Transactions may be nested; only the
+   * outermost one emits.
+   * @param fn - Makes the changes; must be synchronous
+   * @returns What `fn` returned
+   * @throws Whatever `fn` threw, or Error if `fn` returned a promise
+   *
+   * @example
+   * world.transaction(() => {
+   *   for (const annotation of annotations) {
+   *     world.addTreat(toTreatData(annotation));
+   *   }
+   * });
+   */
+  transaction<T>(fn: () => T): T;
+
   // -------------------------------------------------------------------------
   // Camera Control
   // -------------------------------------------------------------------------
@@ -320,6 +643,36 @@ export interface WorldHandle {
    */
   getCameraPose(): CameraPose;
 
+  // -------------------------------------------------------------------------
+  // Selection
+  // -------------------------------------------------------------------------
+
+  /**
+   * Select a treat, or clear the selection with null.
+   * @param treatId - ID of the treat to select
+   * @throws Error if no treat has the ID
+   */
+  setSelection(treatId: string | null): void;
+
+  /**
+   * Get the selected treat.
+   * @returns ID of the selected treat, or null if nothing is selected
+   */
+  getSelection(): string | null;
+
+  // -------------------------------------------------------------------------
+  // Raycasting
+  // -------------------------------------------------------------------------
+
+  /**
+   * Find where a screen point's ray meets the splat world, e.g. to place a
+   * treat where the user clicked.
+   * @param clientX - Horizontal viewport coordinate (as MouseEvent.clientX)
+   * @param clientY - Vertical viewport coordinate (as MouseEvent.clientY)
+   * @returns The nearest hit, or null if the ray misses the world
+   */
+  raycast(clientX: number, clientY: number): RaycastHit | null;
+
   // -------------------------------------------------------------------------
   // Scene State
   // -------------------------------------------------------------------------
@@ -332,7 +685,8 @@ export interface WorldHandle {
 
   /**
    * Load treats from a scene state.
-   * Replaces all current treats with those from the state.
+   * Replaces all current treats with those from the state, and moves the
+   * camera to the state's start pose if it has one.
    * @param state - Scene state to load
    */
   loadSceneState(state: SceneState): void;
@@ -341,6 +695,19 @@ export interface WorldHandle {
   // Events
   // -------------------------------------------------------------------------
 
+  /**
+   * Register a callback for a world event.
+   * @param event - Name of the event
+   * @param callback - Function called with the event's payload
+   * @returns Unsubscribe function
+   *
+   * @example
+   * world.on('treatUpdated', ({ treat, changed }) => {
+   *   if (changed.includes('message')) refreshPanel(treat);
+   * });
+   */
+  on<E extends WorldEvent>(event: E, callback: WorldEventCallback<E>): () => void;
+
   /**
    * Register a callback for treat click events.
    * @param callback - Function called with treat ID when clicked
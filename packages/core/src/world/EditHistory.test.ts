@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createEditHistory } from './EditHistory';
+import { createHeadlessWorld } from './HeadlessWorld';
+import type { SceneState, TreatData } from '../types';
+
+const bottle: TreatData = {
+  type: 'bottle',
+  glbUrl: 'https://example.com/bottle.glb',
+  message: 'Hello',
+  position: { x: 1, y: 0, z: -2 },
+  rotation: { x: 0, y: 0.5, z: 0 },
+};
+
+function setup(depth?: number) {
+  const world = createHeadlessWorld({ worldUrl: 'https://example.com/world.spz' });
+  const history = createEditHistory(world, { depth });
+  return { world, history };
+}
+
+describe('createEditHistory', () => {
+  it('should undo and redo each kind of edit', () => {
+    const { world, history } = setup();
+    const id = history.record('place', () => world.addTreat(bottle));
+    const placed = world.getTreats();
+    history.record('move', () => world.updateTreat(id, { position: { x: 5, y: 0, z: 0 } }));
+    history.record('rotate', () => world.updateTreat(id, { rotation: { x: 0, y: 2, z: 0 } }));
+    history.record('scale', () => world.updateTreat(id, { scale: { x: 2, y: 2, z: 2 } }));
+    history.record('message', () => world.updateTreat(id, { message: 'Bye' }));
+    history.record('duplicate', () => world.addTreat(world.getTreat(id)!));
+    const edited = world.getTreats();
+    history.record('delete', () => world.removeTreat(id));
+
+    for (let i = 0; i < 6; i++) {
+      history.undo();
+    }
+    expect(world.getTreats()).toEqual(placed);
+
+    for (let i = 0; i < 5; i++) {
+      history.redo();
+    }
+    expect(world.getTreats()).toEqual(edited);
+  });
+
+  it('should bring back deleted treats with their ID', () => {
+    const { world, history } = setup();
+    const id = world.addTreat(bottle);
+    const treat = world.getTreat(id);
+
+    history.record('delete', () => world.removeTreat(id));
+    history.undo();
+
+    expect(world.getTreat(id)).toEqual(treat);
+  });
+
+  it('should undo an edit of several treats in one step', () => {
+    const { world, history } = setup();
+    const treatsChanged = vi.fn();
+    world.on('treatsChanged', treatsChanged);
+
+    history.record('duplicate', () => {
+      world.addTreat(bottle);
+      world.addTreat(bottle);
+    });
+    history.undo();
+
+    expect(world.getTreats()).toEqual([]);
+    expect(treatsChanged).toHaveBeenCalledTimes(2);
+    expect(history.getEntries()).toMatchObject({ undo: [], redo: [{ type: 'duplicate' }] });
+  });
+
+  it('should keep only the latest edits up to its depth', () => {
+    const { world, history } = setup(2);
+
+    for (let i = 0; i < 3; i++) {
+      history.record('place', () => world.addTreat(bottle));
+    }
+    while (history.undo());
+
+    expect(world.getTreats()).toHaveLength(1);
+    expect(() => createEditHistory(world, { depth: 0 })).toThrow('positive integer');
+  });
+
+  it('should clear the redo stack when an edit is recorded', () => {
+    const { world, history } = setup();
+    const id = history.record('place', () => world.addTreat(bottle));
+    history.record('message', () => world.updateTreat(id, { message: 'Bye' }));
+    history.undo();
+
+    history.record('move', () => world.updateTreat(id, { position: { x: 0, y: 0, z: 0 } }));
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.getEntries().undo.map((entry) => entry.type)).toEqual(['place', 'move']);
+  });
+
+  it('should record nothing for edits that fail or change nothing', () => {
+    const { world, history } = setup();
+    const id = world.addTreat(bottle);
+
+    expect(() =>
+      history.record('move', () => {
+        world.updateTreat(id, { position: { x: 9, y: 9, z: 9 } });
+        throw new Error('Drag cancelled');
+      })
+    ).toThrow('Drag cancelled');
+    history.record('message', () => world.updateTreat(id, { message: 'Hello' }));
+
+    expect(history.canUndo()).toBe(false);
+    expect(world.getTreat(id)!.position).toEqual(bottle.position);
+  });
+
+  it('should clear itself when the world is changed without it', () => {
+    const { world, history } = setup();
+    const changed = vi.fn();
+    history.onChange(changed);
+    history.record('place', () => world.addTreat(bottle));
+    const state: SceneState = {
+      version: 2,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    };
+
+    world.loadSceneState(state);
+
+    expect(history.canUndo()).toBe(false);
+    expect(changed).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * EditHistory - Undo and redo for treat edits in a world.
+ *
+ * Each edit is made through record(), which runs it as one
+ * world.transaction() and keeps the treats it changed, before and after.
+ * undo() puts the treats back as they were before the latest edit and
+ * redo() puts them back as they were after it, so an edit touching many
+ * treats (a duplicated group, a bulk delete) is undone in one step.
+ *
+ * @module @worldnotes/core/world/EditHistory
+ */
+
+import type { Treat, WorldHandle } from '../types';
+import { clone } from '../persistence/SceneDiff';
+import { createEventBus } from './EventBus';
+
+/** Edits kept for undo when no depth is given (placement spec, Requirement 7.3) */
+export const DEFAULT_HISTORY_DEPTH = 20;
+
+/**
+ * Kind of edit, for labelling entries in a history list.
+ * - 'place': Treats added
+ * - 'move', 'rotate', 'scale': A treat's transform changed
+ * - 'message': A treat's message changed
+ * - 'delete': Treats removed
+ * - 'duplicate': Copies of treats added
+ */
+export type EditType = 'place' | 'move' | 'rotate' | 'scale' | 'message' | 'delete' | 'duplicate';
+
+/**
+ * One treat changed by an edit.
+ */
+export interface TreatChange {
+  treatId: string;
+  /** The treat before the edit, or null if the edit added it */
+  before: Treat | null;
+  /** The treat after the edit, or null if the edit removed it */
+  after: Treat | null;
+}
+
+/**
+ * An edit in the history.
+ */
+export interface EditEntry {
+  type: EditType;
+  /** When the edit was made (ms since the epoch) */
+  timestamp: number;
+  /** Net changes of the edit, one per treat */
+  changes: TreatChange[];
+}
+
+/**
+ * Options for createEditHistory().
+ */
+export interface EditHistoryOptions {
+  /** Number of edits that can be undone; older ones are dropped (default: 20) */
+  depth?: number;
+}
+
+/**
+ * Undo and redo stacks for the edits made to a world.
+ */
+export interface EditHistory {
+  /**
+   * Make an edit and add it to the history, clearing the redo stack. `fn`
+   * runs as one world.transaction(), so if it throws nothing is changed or
+   * recorded; an edit that changes nothing isn't recorded either. Calls
+   * within `fn` join the edit being recorded.
+   * @param type - Kind of edit
+   * @param fn - Makes the edit through the world; must be synchronous
+   * @returns What `fn` returned
+   */
+  record<T>(type: EditType, fn: () => T): T;
+
+  /**
+   * Undo the latest edit.
+   * @returns Whether there was an edit to undo
+   */
+  undo(): boolean;
+
+  /**
+   * Redo the latest undone edit.
+   * @returns Whether there was an edit to redo
+   */
+  redo(): boolean;
+
+  canUndo(): boolean;
+  canRedo(): boolean;
+
+  /**
+   * Get the edits for a history list.
+   * @returns `undo`: edits that can be undone, oldest first; `redo`: undone
+   *   edits, the next to redo first
+   */
+  getEntries(): { undo: EditEntry[]; redo: EditEntry[] };
+
+  /**
+   * Register a callback for changes to the history (an edit recorded,
+   * undone or redone, or the history cleared).
+   * @returns Unsubscribe function
+   */
+  onChange(callback: () => void): () => void;
+
+  /** Forget every edit */
+  clear(): void;
+
+  /** Stop following the world; the history can't be used afterwards */
+  dispose(): void;
+}
+
+/**
+ * Follow a world's edits for undo and redo.
+ *
+ * Changes made to the world without record() (loadSceneState(), a
+ * collaborator's edits) can't be undone and would be overwritten by undoing
+ * edits made before them, so they clear the history. For the same reason
+ * record() must not be called within a world.transaction().
+ *
+ * @param world - World to edit
+ * @param options - History depth
+ * @returns The history, empty
+ * @throws Error if the depth isn't a positive integer
+ *
+ * @example
+ * const history = createEditHistory(world, { depth: 50 });
+ * history.record('move', () => world.updateTreat(id, { position: hit.position }));
+ * history.record('delete', () => selected.forEach((treatId) => world.removeTreat(treatId)));
+ * history.undo();
+ */
+export function createEditHistory(
+  world: WorldHandle,
+  options: EditHistoryOptions = {}
+): EditHistory {
+  const { depth = DEFAULT_HISTORY_DEPTH } = options;
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new Error(`History depth must be a positive integer, got ${depth}`);
+  }
+  const done: EditEntry[] = [];
+  const undone: EditEntry[] = [];
+  const events = createEventBus<{ changed: void }>();
+  // Changes of the edit being recorded, once its transaction commits
+  let recording: TreatChange[] | null = null;
+  // Whether the world is being changed by undo() or redo()
+  let applying = false;
+
+  function clear(): void {
+    if (done.length === 0 && undone.length === 0) {
+      return;
+    }
+    done.length = 0;
+    undone.length = 0;
+    events.emit('changed', undefined);
+  }
+
+  const unsubscribe = world.on('treatsChanged', (changes) => {
+    if (applying) {
+      return;
+    }
+    if (!recording) {
+      clear();
+      return;
+    }
+    // Other callbacks get the same payload
+    const { added, updated, removed } = clone(changes);
+    recording.push(
+      ...removed.map((treat) => ({ treatId: treat.id, before: treat, after: null })),
+      ...updated.map(({ treat, previous }) => ({
+        treatId: treat.id,
+        before: previous,
+        after: treat,
+      })),
+      ...added.map((treat) => ({ treatId: treat.id, before: null, after: treat }))
+    );
+  });
+
+  /** Put every treat of an entry in its state before or after the edit */
+  function apply(entry: EditEntry, side: 'before' | 'after'): void {
+    applying = true;
+    try {
+      world.transaction(() => {
+        for (const change of entry.changes) {
+          const treat = change[side];
+          if (treat) {
+            world.restoreTreat(treat);
+          } else {
+            world.removeTreat(change.treatId);
+          }
+        }
+      });
+    } finally {
+      applying = false;
+    }
+  }
+
+  return {
+    record<T>(type: EditType, fn: () => T): T {
+      if (recording) {
+        return fn();
+      }
+      const changes: TreatChange[] = [];
+      recording = changes;
+      try {
+        return world.transaction(fn);
+      } finally {
+        recording = null;
+        if (changes.length > 0) {
+          done.push({ type, timestamp: Date.now(), changes });
+          if (done.length > depth) {
+            done.shift();
+          }
+          undone.length = 0;
+          events.emit('changed', undefined);
+        }
+      }
+    },
+
+    undo(): boolean {
+      const entry = done.at(-1);
+      if (!entry) {
+        return false;
+      }
+      apply(entry, 'before');
+      undone.push(done.pop()!);
+      events.emit('changed', undefined);
+      return true;
+    },
+
+    redo(): boolean {
+      const entry = undone.at(-1);
+      if (!entry) {
+        return false;
+      }
+      apply(entry, 'after');
+      done.push(undone.pop()!);
+      events.emit('changed', undefined);
+      return true;
+    },
+
+    canUndo: () => done.length > 0,
+    canRedo: () => undone.length > 0,
+
+    getEntries: () => ({ undo: [...done], redo: [...undone].reverse() }),
+
+    onChange: (callback) => events.on('changed', callback),
+
+    clear,
+
+    dispose(): void {
+      unsubscribe();
+      events.clear();
+      done.length = 0;
+      undone.length = 0;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * EventBus - Typed callbacks behind WorldHandle.on() and the on*() methods.
+ *
+ * @module @worldnotes/core/world/EventBus
+ */
+
+/**
+ * Callbacks by event name, for events with one payload each.
+ *
+ * @internal Shared by the world implementations
+ */
+export interface EventBus<Events> {
+  /**
+   * Register a callback for an event.
+   * @returns Unsubscribe function
+   */
+  on<E extends keyof Events>(event: E, callback: (payload: Events[E]) => void): () => void;
+  /** Call every callback of an event; one that throws doesn't stop the others */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void;
+  /** Remove every callback */
+  clear(): void;
+}
+
+/**
+ * Create an event bus with no callbacks.
+ *
+ * @internal Shared by the world implementations and EditHistory
+ */
+export function createEventBus<Events>(): EventBus<Events> {
+  const callbacks = new Map<keyof Events, Set<(payload: never) => void>>();
+  return {
+    on(event, callback) {
+      let set = callbacks.get(event);
+      if (!set) {
+        set = new Set();
+        callbacks.set(event, set);
+      }
+      set.add(callback);
+      return () => {
+        set.delete(callback);
+      };
+    },
+    emit(event, payload) {
+      for (const callback of callbacks.get(event) ?? []) {
+        try {
+          (callback as (payload: unknown) => void)(payload);
+        } catch (error) {
+          console.error(`WorldHandle: Error in ${String(event)} callback:`, error);
+        }
+      }
+    },
+    clear() {
+      callbacks.clear();
+    },
+  };
+}
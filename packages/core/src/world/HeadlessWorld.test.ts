@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHeadlessWorld, createShapeRaycaster } from './HeadlessWorld';
+import type { TreatData } from '../types';
+
+const WORLD_URL = 'https://example.com/world.spz';
+
+const bottle: TreatData = {
+  type: 'bottle',
+  glbUrl: 'https://example.com/bottle.glb',
+  position: { x: 0, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0 },
+};
+
+const floor = { type: 'plane', point: { x: 0, y: 0, z: 0 }, normal: { x: 0, y: 1, z: 0 } } as const;
+
+describe('createShapeRaycaster', () => {
+  it('should hit a plane from either side', () => {
+    const raycast = createShapeRaycaster([floor]);
+
+    expect(raycast({ x: 1, y: 2, z: 0 }, { x: 0, y: -1, z: 0 })).toEqual({
+      position: { x: 1, y: 0, z: 0 },
+      normal: { x: 0, y: 1, z: 0 },
+      distance: 2,
+    });
+    expect(raycast({ x: 0, y: -3, z: 0 }, { x: 0, y: 1, z: 0 })).toMatchObject({
+      normal: { x: 0, y: -1, z: 0 },
+      distance: 3,
+    });
+  });
+
+  it('should miss planes behind or parallel to the ray', () => {
+    const raycast = createShapeRaycaster([floor]);
+
+    expect(raycast({ x: 0, y: 2, z: 0 }, { x: 0, y: 1, z: 0 })).toBeNull();
+    expect(raycast({ x: 0, y: 2, z: 0 }, { x: 1, y: 0, z: 0 })).toBeNull();
+  });
+
+  it('should hit the near face of a box', () => {
+    const raycast = createShapeRaycaster([
+      { type: 'box', min: { x: -1, y: 0, z: -4 }, max: { x: 1, y: 1, z: -3 } },
+    ]);
+
+    expect(raycast({ x: 0, y: 0.5, z: 0 }, { x: 0, y: 0, z: -1 })).toEqual({
+      position: { x: 0, y: 0.5, z: -3 },
+      normal: { x: 0, y: 0, z: 1 },
+      distance: 3,
+    });
+    expect(raycast({ x: 5, y: 0.5, z: 0 }, { x: 0, y: 0, z: -1 })).toBeNull();
+  });
+
+  it('should hit the far face from inside a box', () => {
+    const raycast = createShapeRaycaster([
+      { type: 'box', min: { x: -5, y: 0, z: -5 }, max: { x: 5, y: 3, z: 5 } },
+    ]);
+
+    expect(raycast({ x: 0, y: 1, z: 0 }, { x: 1, y: 0, z: 0 })).toMatchObject({
+      position: { x: 5, y: 1, z: 0 },
+      normal: { x: -1, y: 0, z: 0 },
+    });
+  });
+
+  it('should report the nearest of several shapes', () => {
+    const raycast = createShapeRaycaster([
+      floor,
+      { type: 'box', min: { x: -1, y: 0, z: -1 }, max: { x: 1, y: 1, z: 1 } },
+    ]);
+
+    expect(raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 })).toMatchObject({
+      position: { x: 0, y: 1, z: 0 },
+      distance: 4,
+    });
+  });
+});
+
+describe('createHeadlessWorld', () => {
+  it('should miss every ray without a raycaster', () => {
+    const world = createHeadlessWorld({ worldUrl: WORLD_URL });
+
+    expect(world.raycast(400, 300)).toBeNull();
+  });
+
+  it('should cast rays through the viewport from the camera', () => {
+    const raycaster = vi.fn(createShapeRaycaster([floor]));
+    const world = createHeadlessWorld({
+      worldUrl: WORLD_URL,
+      viewport: { width: 200, height: 100 },
+      raycaster,
+      // Looking straight down from 2 units up
+      initialPose: { position: { x: 3, y: 2, z: 0 }, rotation: { x: -Math.PI / 2, y: 0 } },
+    });
+
+    const hit = world.raycast(100, 50);
+
+    expect(raycaster).toHaveBeenCalledWith({ x: 3, y: 2, z: 0 }, expect.any(Object));
+    expect(hit!.position.x).toBeCloseTo(3);
+    expect(hit!.position.z).toBeCloseTo(0);
+    expect(hit!.distance).toBeCloseTo(2);
+  });
+
+  it('should turn rays with the camera yaw', () => {
+    const world = createHeadlessWorld({
+      worldUrl: WORLD_URL,
+      raycaster: createShapeRaycaster([
+        { type: 'plane', point: { x: -4, y: 0, z: 0 }, normal: { x: 1, y: 0, z: 0 } },
+      ]),
+      // Facing -X
+      initialPose: { position: { x: 0, y: 1, z: 0 }, rotation: { x: 0, y: Math.PI / 2 } },
+    });
+
+    const hit = world.raycast(400, 300);
+
+    expect(hit!.position.x).toBeCloseTo(-4);
+    expect(hit!.position.y).toBeCloseTo(1);
+    expect(hit!.position.z).toBeCloseTo(0);
+  });
+
+  it('should report clicks on treats', () => {
+    const world = createHeadlessWorld({ worldUrl: WORLD_URL });
+    const clicked = vi.fn();
+    world.onTreatClicked(clicked);
+    const id = world.addTreat(bottle);
+
+    world.clickTreat(id);
+
+    expect(clicked).toHaveBeenCalledWith(id);
+    expect(() => world.clickTreat('missing')).toThrow('Treat missing not found');
+  });
+
+  it('should report a message zone again only after leaving it', () => {
+    const world = createHeadlessWorld({ worldUrl: WORLD_URL });
+    const entered = vi.fn();
+    world.onMessageZoneEntered(entered);
+    const id = world.addTreat({ ...bottle, message: 'Hi' });
+    const away = { position: { x: 10, y: 0, z: 0 }, rotation: { x: 0, y: 0 } };
+    const near = { position: { x: 1, y: 0, z: 0 }, rotation: { x: 0, y: 0 } };
+
+    world.setCameraPose(near);
+    world.setCameraPose(near);
+    world.setCameraPose(away);
+    world.setCameraPose(near);
+
+    expect(entered.mock.calls).toEqual([[id], [id]]);
+  });
+
+  it('should throttle camera moves, reporting the latest pose', () => {
+    vi.useFakeTimers();
+    const world = createHeadlessWorld({ worldUrl: WORLD_URL });
+    const cameraMoved = vi.fn();
+    world.on('cameraMoved', cameraMoved);
+    const at = (x: number) => ({ position: { x, y: 1.6, z: 0 }, rotation: { x: 0, y: 0 } });
+
+    world.setCameraPose(at(1));
+    world.setCameraPose(at(2));
+    world.setCameraPose(at(3));
+    world.setCameraPose(at(3));
+    expect(cameraMoved.mock.calls).toEqual([[{ pose: at(1) }]]);
+
+    vi.advanceTimersByTime(100);
+    expect(cameraMoved.mock.calls).toEqual([[{ pose: at(1) }], [{ pose: at(3) }]]);
+
+    world.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should select clicked treats in edit mode only', () => {
+    const world = createHeadlessWorld({ worldUrl: WORLD_URL, editMode: true });
+    const id = world.addTreat(bottle);
+
+    world.clickTreat(id);
+    expect(world.getSelection()).toBeNull();
+
+    world.setMode!('edit');
+    world.clickTreat(id);
+    expect(world.getSelection()).toBe(id);
+  });
+
+  it('should keep callbacks running when one throws', () => {
+    const world = createHeadlessWorld({ worldUrl: WORLD_URL });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const clicked = vi.fn();
+    world.onTreatClicked(() => {
+      throw new Error('boom');
+    });
+    world.onTreatClicked(clicked);
+    const id = world.addTreat(bottle);
+
+    world.clickTreat(id);
+
+    expect(clicked).toHaveBeenCalledWith(id);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * HeadlessWorld - A WorldHandle without rendering, for tests.
+ *
+ * createHeadlessWorld() keeps the same treats, camera pose, scene state and
+ * events as initWorld() but draws nothing and needs no WebGL, so app logic
+ * written against WorldHandle can be unit-tested in Node. The splat world
+ * is not loaded; raycast() is answered by a pluggable HeadlessRaycaster,
+ * e.g. one built from planes and boxes with createShapeRaycaster().
+ *
+ * @module @worldnotes/core/world/HeadlessWorld
+ */
+
+import type {
+  AppMode,
+  CameraPose,
+  RaycastHit,
+  SceneState,
+  Treat,
+  TreatData,
+  Vector3,
+  WorldHandle,
+  WorldNotesConfig,
+} from '../types';
+import { CAMERA_FOV, CAMERA_MOVED_INTERVAL, DEFAULT_CAMERA_POSE, WorldModel } from './WorldModel';
+import { clone, isEqual } from '../persistence/SceneDiff';
+
+/**
+ * Finds where a ray meets the pretend world.
+ *
+ * @param origin - Ray origin (the camera position)
+ * @param direction - Unit ray direction
+ * @returns The nearest hit, or null if the ray misses
+ */
+export type HeadlessRaycaster = (origin: Vector3, direction: Vector3) => RaycastHit | null;
+
+/**
+ * Simple geometry for createShapeRaycaster().
+ * - 'plane': Infinite plane through `point` facing `normal`
+ * - 'box': Axis-aligned box between `min` and `max`
+ */
+export type RaycastShape =
+  | { type: 'plane'; point: Vector3; normal: Vector3 }
+  | { type: 'box'; min: Vector3; max: Vector3 };
+
+/**
+ * Configuration for createHeadlessWorld(). The world is never loaded, so
+ * `worldUrl` and `flipY` only end up in the scene state.
+ *
+ * @example
+ * const config: HeadlessWorldConfig = {
+ *   worldUrl: 'https://example.com/world.spz',
+ *   editMode: true,
+ *   raycaster: createShapeRaycaster([
+ *     { type: 'plane', point: { x: 0, y: 0, z: 0 }, normal: { x: 0, y: 1, z: 0 } },
+ *   ]),
+ * };
+ */
+export interface HeadlessWorldConfig extends Omit<WorldNotesConfig, 'container'> {
+  /** Size of the pretend canvas raycast() coordinates refer to (default: 800 x 600) */
+  viewport?: { width: number; height: number };
+  /** Answers raycast() (default: every ray misses) */
+  raycaster?: HeadlessRaycaster;
+}
+
+/**
+ * WorldHandle of a headless world, with a way to stand in for user input.
+ */
+export interface HeadlessWorld extends WorldHandle {
+  /**
+   * Report a click on a treat, as initWorld() does when its model is
+   * clicked (selecting it in edit mode).
+   * @param treatId - ID of the clicked treat
+   * @throws Error if no treat has the ID
+   */
+  clickTreat(treatId: string): void;
+}
+
+/** Ray direction components below this count as parallel to a face */
+const EPSILON = 1e-9;
+
+function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function normalize(v: Vector3): Vector3 {
+  const length = Math.sqrt(dot(v, v));
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
+function pointAlong(origin: Vector3, direction: Vector3, distance: number): Vector3 {
+  return {
+    x: origin.x + direction.x * distance,
+    y: origin.y + direction.y * distance,
+    z: origin.z + direction.z * distance,
+  };
+}
+
+function intersectPlane(
+  origin: Vector3,
+  direction: Vector3,
+  plane: Extract<RaycastShape, { type: 'plane' }>
+): RaycastHit | null {
+  const normal = normalize(plane.normal);
+  const denominator = dot(normal, direction);
+  if (Math.abs(denominator) < EPSILON) {
+    return null;
+  }
+  const toPlane = {
+    x: plane.point.x - origin.x,
+    y: plane.point.y - origin.y,
+    z: plane.point.z - origin.z,
+  };
+  const distance = dot(normal, toPlane) / denominator;
+  if (distance < 0) {
+    return null;
+  }
+  // Report the side of the plane the ray came from (0 - n keeps zeros from becoming -0)
+  const facing = denominator > 0 ? { x: 0 - normal.x, y: 0 - normal.y, z: 0 - normal.z } : normal;
+  return { position: pointAlong(origin, direction, distance), normal: facing, distance };
+}
+
+function intersectBox(
+  origin: Vector3,
+  direction: Vector3,
+  box: Extract<RaycastShape, { type: 'box' }>
+): RaycastHit | null {
+  let near = -Infinity;
+  let far = Infinity;
+  let nearNormal: Vector3 = { x: 0, y: 1, z: 0 };
+  let farNormal: Vector3 = { x: 0, y: 1, z: 0 };
+  for (const axis of ['x', 'y', 'z'] as const) {
+    if (Math.abs(direction[axis]) < EPSILON) {
+      if (origin[axis] < box.min[axis] || origin[axis] > box.max[axis]) {
+        return null;
+      }
+      continue;
+    }
+    const toMin = (box.min[axis] - origin[axis]) / direction[axis];
+    const toMax = (box.max[axis] - origin[axis]) / direction[axis];
+    const enter = Math.min(toMin, toMax);
+    const exit = Math.max(toMin, toMax);
+    // Normals of both the entry and exit faces point back toward the ray origin
+    const sign = direction[axis] > 0 ? 1 : -1;
+    if (enter > near) {
+      near = enter;
+      nearNormal = { x: 0, y: 0, z: 0, [axis]: -sign };
+    }
+    if (exit < far) {
+      far = exit;
+      farNormal = { x: 0, y: 0, z: 0, [axis]: -sign };
+    }
+  }
+  if (near > far || far < 0) {
+    return null;
+  }
+  // From inside the box the ray hits the face it leaves through
+  const [distance, normal] = near >= 0 ? [near, nearNormal] : [far, farNormal];
+  return { position: pointAlong(origin, direction, distance), normal, distance };
+}
+
+/**
+ * Build a raycaster that hits planes and axis-aligned boxes, for standing
+ * in for splat geometry (a floor, walls, a table) in tests.
+ *
+ * @param shapes - Geometry of the pretend world
+ * @returns Raycaster reporting the nearest hit
+ *
+ * @example
+ * const raycaster = createShapeRaycaster([
+ *   { type: 'plane', point: { x: 0, y: 0, z: 0 }, normal: { x: 0, y: 1, z: 0 } },
+ *   { type: 'box', min: { x: -1, y: 0, z: -4 }, max: { x: 1, y: 1, z: -3 } },
+ * ]);
+ */
+export function createShapeRaycaster(shapes: RaycastShape[]): HeadlessRaycaster {
+  return (origin, direction) => {
+    let nearest: RaycastHit | null = null;
+    for (const shape of shapes) {
+      const hit =
+        shape.type === 'plane'
+          ? intersectPlane(origin, direction, shape)
+          : intersectBox(origin, direction, shape);
+      if (hit && (!nearest || hit.distance < nearest.distance)) {
+        nearest = hit;
+      }
+    }
+    return nearest;
+  };
+}
+
+/**
+ * Create a world that keeps treats, camera and events in memory without
+ * rendering. Behaves like initWorld() except that nothing is loaded or
+ * drawn: worldLoaded is emitted at once (to `config.on`), message zones and
+ * camera moves are checked whenever the camera or treats change rather
+ * than every frame, and clicks come from clickTreat().
+ *
+ * @param config - World URL and options
+ * @returns Handle for the world
+ *
+ * @example
+ * const world = createHeadlessWorld({ worldUrl: 'https://example.com/world.spz' });
+ * const entered = vi.fn();
+ * world.onMessageZoneEntered(entered);
+ * const id = world.addTreat({ ...bottle, position: { x: 0, y: 0, z: 0 } });
+ * world.setCameraPose({ position: { x: 0, y: 1, z: 1 }, rotation: { x: 0, y: 0 } });
+ * expect(entered).toHaveBeenCalledWith(id);
+ */
+export function createHeadlessWorld(config: HeadlessWorldConfig): HeadlessWorld {
+  const {
+    worldUrl,
+    flipY = true,
+    editMode = false,
+    viewport = { width: 800, height: 600 },
+    raycaster = () => null,
+  } = config;
+  const model = new WorldModel(worldUrl, flipY, config.on);
+  let pose: CameraPose = clone(config.initialPose ?? DEFAULT_CAMERA_POSE);
+  let cameraReportedAt = -Infinity;
+  let cameraReport: ReturnType<typeof setTimeout> | null = null;
+
+  function emitCameraMoved(): void {
+    cameraReportedAt = Date.now();
+    model.events.emit('cameraMoved', { pose: clone(pose) });
+  }
+
+  // Report at once, or once the interval has passed with the latest pose
+  function reportCameraMoved(): void {
+    if (cameraReport) {
+      return;
+    }
+    const wait = cameraReportedAt + CAMERA_MOVED_INTERVAL - Date.now();
+    if (wait <= 0) {
+      emitCameraMoved();
+    } else {
+      cameraReport = setTimeout(() => {
+        cameraReport = null;
+        emitCameraMoved();
+      }, wait);
+    }
+  }
+
+  function moveCamera(next: CameraPose): void {
+    if (isEqual(next, pose)) {
+      return;
+    }
+    pose = clone(next);
+    reportCameraMoved();
+  }
+
+  /** Direction of the camera ray through a viewport point */
+  function rayDirection(clientX: number, clientY: number): Vector3 {
+    const tanHalfFov = Math.tan((CAMERA_FOV * Math.PI) / 360);
+    const x =
+      ((clientX / viewport.width) * 2 - 1) * tanHalfFov * (viewport.width / viewport.height);
+    const y = (-(clientY / viewport.height) * 2 + 1) * tanHalfFov;
+    // Camera looks down -Z; pitch about X, then yaw about Y (Euler order 'YXZ')
+    const { x: pitch, y: yaw } = pose.rotation;
+    const pitchedY = y * Math.cos(pitch) + Math.sin(pitch);
+    const pitchedZ = y * Math.sin(pitch) - Math.cos(pitch);
+    return normalize({
+      x: x * Math.cos(yaw) + pitchedZ * Math.sin(yaw),
+      y: pitchedY,
+      z: -x * Math.sin(yaw) + pitchedZ * Math.cos(yaw),
+    });
+  }
+
+  const world: HeadlessWorld = {
+    addTreat(treatData: TreatData): string {
+      const treat = model.addTreat(treatData);
+      model.updateMessageZones(pose.position);
+      return treat.id;
+    },
+
+    updateTreat(treatId: string, patch: Partial<TreatData>): void {
+      model.updateTreat(treatId, patch);
+      model.updateMessageZones(pose.position);
+    },
+
+    removeTreat(treatId: string): void {
+      model.removeTreat(treatId);
+    },
+
+    restoreTreat(treat: Treat): void {
+      model.restoreTreat(treat);
+      model.updateMessageZones(pose.position);
+    },
+
+    getTreats: () => model.getTreats(),
+    getTreat: (treatId: string) => model.getTreat(treatId),
+
+    transaction<T>(fn: () => T): T {
+      const result = model.transaction(fn);
+      model.updateMessageZones(pose.position);
+      return result;
+    },
+
+    setCameraPose(next: CameraPose): void {
+      moveCamera(next);
+      model.updateMessageZones(pose.position);
+    },
+
+    getCameraPose: () => clone(pose),
+
+    raycast(clientX: number, clientY: number): RaycastHit | null {
+      return raycaster({ ...pose.position }, rayDirection(clientX, clientY));
+    },
+
+    setSelection: (treatId: string | null) => model.setSelection(treatId),
+    getSelection: () => model.getSelection(),
+
+    getSceneState: () => model.getSceneState(pose),
+
+    loadSceneState(state: SceneState): void {
+      model.loadSceneState(state);
+      if (state.startPosition) {
+        moveCamera({
+          position: state.startPosition,
+          rotation: state.startRotation ?? { x: 0, y: 0 },
+        });
+      }
+      model.updateMessageZones(pose.position);
+    },
+
+    on: (event, callback) => model.events.on(event, callback),
+    onTreatClicked: (callback) =>
+      model.events.on('treatClicked', ({ treatId }) => callback(treatId)),
+    onMessageZoneEntered: (callback) =>
+      model.events.on('messageZoneEntered', ({ treatId }) => callback(treatId)),
+    onModeChange: (callback) => model.events.on('modeChanged', ({ mode }) => callback(mode)),
+
+    clickTreat(treatId: string): void {
+      if (!model.getTreat(treatId)) {
+        throw new Error(`Treat ${treatId} not found`);
+      }
+      if (model.getMode() === 'edit') {
+        model.setSelection(treatId);
+      }
+      model.events.emit('treatClicked', { treatId });
+    },
+
+    dispose(): void {
+      if (cameraReport) {
+        clearTimeout(cameraReport);
+      }
+      model.events.clear();
+    },
+  };
+
+  if (editMode) {
+    world.setMode = (mode: AppMode) => model.setMode(mode);
+    world.getMode = () => model.getMode();
+  }
+
+  model.events.emit('worldLoaded', { worldUrl });
+
+  return world;
+}
@@ -0,0 +1,275 @@
+/**
+ * Contract tests shared by every WorldHandle implementation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHeadlessWorld } from './HeadlessWorld';
+import type { CameraPose, SceneState, TreatData, WorldEventListeners, WorldHandle } from '../types';
+
+const WORLD_URL = 'https://example.com/world.spz';
+
+const bottle: TreatData = {
+  type: 'bottle',
+  glbUrl: 'https://example.com/bottle.glb',
+  message: 'Hello',
+  position: { x: 1, y: 0, z: -2 },
+  rotation: { x: 0, y: 0.5, z: 0 },
+};
+
+const pose: CameraPose = { position: { x: 2, y: 1.6, z: 4 }, rotation: { x: -0.2, y: 0.8 } };
+
+function expectPoseClose(actual: CameraPose, expected: CameraPose): void {
+  for (const axis of ['x', 'y', 'z'] as const) {
+    expect(actual.position[axis]).toBeCloseTo(expected.position[axis]);
+  }
+  expect(actual.rotation.x).toBeCloseTo(expected.rotation.x);
+  expect(actual.rotation.y).toBeCloseTo(expected.rotation.y);
+}
+
+interface WorldFactory {
+  name: string;
+  skip?: boolean;
+  create: (options: { editMode?: boolean; on?: WorldEventListeners }) => Promise<WorldHandle>;
+}
+
+const worlds: WorldFactory[] = [
+  {
+    name: 'createHeadlessWorld',
+    create: async (options) => createHeadlessWorld({ worldUrl: WORLD_URL, ...options }),
+  },
+  {
+    name: 'initWorld',
+    // Needs WebGL and a splat world to load, e.g. in a browser test runner
+    skip: typeof WebGL2RenderingContext === 'undefined' || !import.meta.env.VITE_TEST_WORLD_URL,
+    create: async (options) => {
+      const { initWorld } = await import('./initWorld');
+      const container = document.createElement('div');
+      container.style.width = '640px';
+      container.style.height = '480px';
+      document.body.appendChild(container);
+      return initWorld({ container, worldUrl: import.meta.env.VITE_TEST_WORLD_URL, ...options });
+    },
+  },
+];
+
+for (const factory of worlds) {
+  describe.skipIf(factory.skip)(factory.name, () => {
+    let world: WorldHandle;
+
+    beforeEach(async () => {
+      world = await factory.create({});
+    });
+
+    afterEach(() => {
+      world.dispose();
+    });
+
+    it('should add treats and return them by ID', () => {
+      const id = world.addTreat(bottle);
+
+      expect(world.getTreat(id)).toMatchObject({ id, ...bottle });
+      expect(world.getTreats().map((treat) => treat.id)).toEqual([id]);
+    });
+
+    it('should return null for missing treats', () => {
+      expect(world.getTreat('missing')).toBeNull();
+    });
+
+    it('should merge updates into a treat', () => {
+      const id = world.addTreat(bottle);
+
+      world.updateTreat(id, { position: { x: 0, y: 1, z: 0 }, message: 'Moved' });
+
+      expect(world.getTreat(id)).toMatchObject({
+        glbUrl: bottle.glbUrl,
+        message: 'Moved',
+        position: { x: 0, y: 1, z: 0 },
+      });
+    });
+
+    it('should throw when updating a missing treat', () => {
+      expect(() => world.updateTreat('missing', { message: 'hi' })).toThrow();
+    });
+
+    it('should remove treats and ignore missing ones', () => {
+      const id = world.addTreat(bottle);
+
+      world.removeTreat(id);
+      world.removeTreat(id);
+
+      expect(world.getTreats()).toEqual([]);
+    });
+
+    it('should restore removed and changed treats with their ID', () => {
+      const id = world.addTreat(bottle);
+      const treat = world.getTreat(id)!;
+      world.removeTreat(id);
+
+      world.restoreTreat(treat);
+      world.restoreTreat({ ...treat, message: 'Restored' });
+
+      expect(world.getTreats()).toEqual([{ ...treat, message: 'Restored' }]);
+    });
+
+    it('should not share state with returned treats', () => {
+      const id = world.addTreat(bottle);
+
+      world.getTreat(id)!.position.x = 99;
+
+      expect(world.getTreat(id)!.position.x).toBe(1);
+    });
+
+    it('should round-trip the camera pose', () => {
+      world.setCameraPose(pose);
+
+      expectPoseClose(world.getCameraPose(), pose);
+    });
+
+    it('should save treats and the camera pose in the scene state', () => {
+      const id = world.addTreat(bottle);
+      world.setCameraPose(pose);
+
+      const state = world.getSceneState();
+
+      expect(state.worldUrl).toBe(WORLD_URL);
+      expect(state.treats.map((treat) => treat.id)).toEqual([id]);
+      expectPoseClose({ position: state.startPosition!, rotation: state.startRotation! }, pose);
+    });
+
+    it('should replace treats and move the camera when loading a scene state', () => {
+      world.addTreat(bottle);
+      const state: SceneState = {
+        version: 2,
+        worldUrl: WORLD_URL,
+        startPosition: pose.position,
+        startRotation: pose.rotation,
+        treats: [{ ...bottle, id: 'treat-1' }],
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      };
+
+      world.loadSceneState(state);
+
+      expect(world.getTreats().map((treat) => treat.id)).toEqual(['treat-1']);
+      expectPoseClose(world.getCameraPose(), pose);
+    });
+
+    it('should report entering the message zone of a treat', async () => {
+      const entered = vi.fn();
+      world.onMessageZoneEntered(entered);
+      const id = world.addTreat(bottle);
+
+      world.setCameraPose({ position: { x: 1, y: 1, z: -1 }, rotation: { x: 0, y: 0 } });
+
+      await vi.waitFor(() => expect(entered).toHaveBeenCalledWith(id));
+    });
+
+    it('should stop calling callbacks once unsubscribed', async () => {
+      const entered = vi.fn();
+      const unsubscribe = world.onMessageZoneEntered(entered);
+      unsubscribe();
+      world.addTreat(bottle);
+
+      world.setCameraPose({ position: { x: 1, y: 1, z: -1 }, rotation: { x: 0, y: 0 } });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(entered).not.toHaveBeenCalled();
+    });
+
+    it('should emit treat events with copies of the treat', () => {
+      const events: string[] = [];
+      world.on('treatAdded', ({ treat }) => events.push(`added ${treat.message}`));
+      world.on('treatUpdated', ({ treat, changed }) =>
+        events.push(`updated ${treat.message} (${changed.join(', ')})`)
+      );
+      world.on('treatRemoved', ({ treat }) => {
+        events.push(`removed ${treat.message}`);
+        treat.message = 'mutated';
+      });
+
+      const id = world.addTreat(bottle);
+      world.updateTreat(id, { message: 'Moved', position: { x: 0, y: 0, z: 0 } });
+      world.removeTreat(id);
+
+      expect(events).toEqual(['added Hello', 'updated Moved (message, position)', 'removed Moved']);
+    });
+
+    it('should report a transaction with one treatsChanged event', () => {
+      const treatsChanged = vi.fn();
+      world.on('treatsChanged', treatsChanged);
+
+      const ids = world.transaction(() => [world.addTreat(bottle), world.addTreat(bottle)]);
+
+      expect(world.getTreats().map((treat) => treat.id)).toEqual(ids);
+      expect(treatsChanged).toHaveBeenCalledOnce();
+      expect(treatsChanged.mock.calls[0][0].added).toHaveLength(2);
+    });
+
+    it('should roll back a transaction that throws', () => {
+      const id = world.addTreat(bottle);
+      const treatsChanged = vi.fn();
+      world.on('treatsChanged', treatsChanged);
+
+      expect(() =>
+        world.transaction(() => {
+          world.updateTreat(id, { message: 'Changed' });
+          world.addTreat(bottle);
+          world.updateTreat('missing', {});
+        })
+      ).toThrow();
+
+      expect(world.getTreats()).toEqual([expect.objectContaining({ id, message: 'Hello' })]);
+      expect(treatsChanged).not.toHaveBeenCalled();
+    });
+
+    it('should select treats and report selection changes', () => {
+      const selectionChanged = vi.fn();
+      world.on('selectionChanged', selectionChanged);
+      const id = world.addTreat(bottle);
+
+      world.setSelection(id);
+      world.setSelection(id);
+
+      expect(world.getSelection()).toBe(id);
+      expect(selectionChanged).toHaveBeenCalledOnce();
+      expect(selectionChanged).toHaveBeenCalledWith({ treatId: id, previousTreatId: null });
+      expect(() => world.setSelection('missing')).toThrow();
+    });
+
+    it('should report camera moves', async () => {
+      const cameraMoved = vi.fn();
+      world.on('cameraMoved', cameraMoved);
+
+      world.setCameraPose(pose);
+
+      await vi.waitFor(() => expect(cameraMoved).toHaveBeenCalled());
+      expectPoseClose(cameraMoved.mock.calls.at(-1)![0].pose, pose);
+    });
+
+    it('should report the world loaded to listeners given at creation', async () => {
+      const worldLoaded = vi.fn();
+
+      const other = await factory.create({ on: { worldLoaded } });
+
+      expect(worldLoaded).toHaveBeenCalledWith({ worldUrl: expect.any(String) });
+      other.dispose();
+    });
+
+    it('should only offer mode control in edit mode', async () => {
+      expect(world.setMode).toBeUndefined();
+
+      const editor = await factory.create({ editMode: true });
+      const changed = vi.fn();
+      editor.onModeChange(changed);
+
+      expect(editor.getMode!()).toBe('explore');
+      editor.setMode!('edit');
+      editor.setMode!('edit');
+
+      expect(editor.getMode!()).toBe('edit');
+      expect(changed).toHaveBeenCalledTimes(1);
+      expect(changed).toHaveBeenCalledWith('edit');
+      editor.dispose();
+    });
+  });
+}
@@ -0,0 +1,299 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WorldModel } from './WorldModel';
+import { validateSceneState } from '../persistence/SceneValidator';
+import type { CameraPose, SceneState, Treat, TreatData } from '../types';
+
+const bottle: TreatData = {
+  type: 'bottle',
+  glbUrl: 'https://example.com/bottle.glb',
+  message: 'Hello!',
+  position: { x: 1, y: 0, z: -2 },
+  rotation: { x: 0, y: 1.57, z: 0 },
+};
+
+const pose: CameraPose = { position: { x: 0, y: 1.6, z: 5 }, rotation: { x: -0.1, y: 0.5 } };
+
+describe('WorldModel', () => {
+  it('adds treats with unique IDs and timestamps', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const first = model.addTreat(bottle);
+    const second = model.addTreat(bottle);
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.createdAt).toBeDefined();
+    expect(model.getTreats().map((treat) => treat.id)).toEqual([first.id, second.id]);
+  });
+
+  it('returns copies that do not change the world', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const { id } = model.addTreat(bottle);
+
+    model.getTreat(id)!.position.x = 99;
+    model.getTreats()[0].message = 'changed';
+
+    expect(model.getTreat(id)).toMatchObject({ message: 'Hello!', position: { x: 1 } });
+  });
+
+  it('merges patches and removes properties set to undefined', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const { id } = model.addTreat(bottle);
+
+    const updated = model.updateTreat(id, {
+      position: { x: 3, y: 1, z: 0 },
+      message: undefined,
+    });
+
+    expect(updated.position).toEqual({ x: 3, y: 1, z: 0 });
+    expect(updated).not.toHaveProperty('message');
+    expect(updated.glbUrl).toBe(bottle.glbUrl);
+  });
+
+  it('throws when updating a missing treat', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    expect(() => model.updateTreat('missing', { message: 'hi' })).toThrow(
+      'Treat missing not found'
+    );
+  });
+
+  it('returns null when removing a missing treat', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const { id } = model.addTreat(bottle);
+
+    expect(model.removeTreat(id)?.id).toBe(id);
+    expect(model.removeTreat(id)).toBeNull();
+    expect(model.getTreats()).toEqual([]);
+  });
+
+  it('truncates messages to the maximum length', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const { id } = model.addTreat({ ...bottle, message: 'x'.repeat(300) });
+
+    expect(model.getTreat(id)!.message).toHaveLength(280);
+  });
+
+  it('builds a valid scene state opening at the camera pose', () => {
+    const model = new WorldModel('https://example.com/world.spz', false);
+    model.addTreat(bottle);
+
+    const state = model.getSceneState(pose);
+
+    expect(state).toMatchObject({
+      version: 2,
+      worldUrl: 'https://example.com/world.spz',
+      worldFlipY: false,
+      startPosition: pose.position,
+      startRotation: pose.rotation,
+    });
+    expect(validateSceneState(state).valid).toBe(true);
+  });
+
+  it('loads a scene state, keeping its scene fields but not its world', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    model.addTreat(bottle);
+    const state: SceneState = {
+      version: 2,
+      worldUrl: 'https://example.com/other.spz',
+      worldName: 'Garden',
+      treats: [{ ...bottle, id: 'treat-1' }],
+      createdAt: '2025-12-05T10:00:00.000Z',
+      updatedAt: '2025-12-06T10:00:00.000Z',
+      signature: { alg: 'Ed25519', keyId: 'acme', value: 'abc' },
+      extensions: { theme: 'night' },
+    };
+
+    const loaded = model.loadSceneState(state);
+    const saved = model.getSceneState(pose);
+
+    expect(loaded.map((treat) => treat.id)).toEqual(['treat-1']);
+    expect(saved).toMatchObject({
+      worldUrl: 'https://example.com/world.spz',
+      worldName: 'Garden',
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt,
+      extensions: { theme: 'night' },
+    });
+    expect(saved).not.toHaveProperty('signature');
+    expect(saved.treats).toEqual(state.treats);
+  });
+
+  it('reports entering the message zones of treats with messages', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const entered = vi.fn();
+    model.events.on('messageZoneEntered', entered);
+    const near = model.addTreat(bottle);
+    model.addTreat({ ...bottle, message: undefined });
+    model.addTreat({ ...bottle, position: { x: 20, y: 0, z: 0 } });
+
+    model.updateMessageZones({ x: 1, y: 1, z: -1 });
+    model.updateMessageZones({ x: 1, y: 0, z: -1 });
+
+    expect(entered.mock.calls).toEqual([[{ treatId: near.id }]]);
+  });
+
+  it('emits the changed fields and the previous treat on update', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const updated = vi.fn();
+    model.events.on('treatUpdated', updated);
+    const { id } = model.addTreat(bottle);
+
+    model.updateTreat(id, { message: 'Bye', glbUrl: bottle.glbUrl });
+
+    expect(updated).toHaveBeenCalledTimes(1);
+    const [{ treat, previous, changed }] = updated.mock.calls[0];
+    expect(changed).toEqual(['message']);
+    expect(previous.message).toBe('Hello!');
+    expect(treat.message).toBe('Bye');
+  });
+
+  it('leaves treats and events alone for patches that change nothing', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const updated = vi.fn();
+    model.events.on('treatUpdated', updated);
+    const added = model.addTreat(bottle);
+
+    const result = model.updateTreat(added.id, { position: { ...bottle.position } });
+
+    expect(updated).not.toHaveBeenCalled();
+    expect(result.updatedAt).toBe(added.updatedAt);
+  });
+
+  it('clears the selection when the selected treat is removed', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const selectionChanged = vi.fn();
+    model.events.on('selectionChanged', selectionChanged);
+    const { id } = model.addTreat(bottle);
+
+    model.setSelection(id);
+    model.removeTreat(id);
+
+    expect(model.getSelection()).toBeNull();
+    expect(selectionChanged.mock.calls).toEqual([
+      [{ treatId: id, previousTreatId: null }],
+      [{ treatId: null, previousTreatId: id }],
+    ]);
+    expect(() => model.setSelection('missing')).toThrow('Treat missing not found');
+  });
+
+  it('clears the selection when leaving edit mode', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const { id } = model.addTreat(bottle);
+    model.setMode('edit');
+    model.setSelection(id);
+
+    model.setMode('explore');
+
+    expect(model.getSelection()).toBeNull();
+  });
+
+  it('emits removals and additions when loading a scene state', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const events: string[] = [];
+    model.events.on('treatRemoved', ({ treat }) => events.push(`removed ${treat.id}`));
+    model.events.on('treatAdded', ({ treat }) => events.push(`added ${treat.id}`));
+    const { id } = model.addTreat(bottle);
+    events.length = 0;
+
+    model.loadSceneState({
+      version: 2,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [{ ...bottle, id: 'treat-1' }],
+      createdAt: '2025-12-05T10:00:00.000Z',
+      updatedAt: '2025-12-05T10:00:00.000Z',
+    });
+
+    expect(events).toEqual([`removed ${id}`, 'added treat-1']);
+  });
+
+  it('emits the net changes of a transaction once it commits', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const kept = model.addTreat(bottle);
+    const events: string[] = [];
+    model.events.on('treatAdded', ({ treat }) => events.push(`added ${treat.message}`));
+    model.events.on('treatUpdated', ({ changed }) => events.push(`updated ${changed}`));
+    model.events.on('treatRemoved', ({ treat }) => events.push(`removed ${treat.id}`));
+    const treatsChanged = vi.fn();
+    model.events.on('treatsChanged', treatsChanged);
+
+    model.transaction(() => {
+      const added = model.addTreat(bottle);
+      model.updateTreat(added.id, { message: 'Final' });
+      const temporary = model.addTreat(bottle);
+      model.removeTreat(temporary.id);
+      model.updateTreat(kept.id, { message: 'Bye' });
+      model.updateTreat(kept.id, { message: 'Hello!' });
+      expect(events).toEqual([]);
+    });
+
+    expect(events).toEqual(['added Final']);
+    expect(treatsChanged).toHaveBeenCalledOnce();
+    const [{ added, updated, removed }] = treatsChanged.mock.calls[0];
+    expect(added.map((treat: Treat) => treat.message)).toEqual(['Final']);
+    expect(updated).toEqual([]);
+    expect(removed).toEqual([]);
+  });
+
+  it('rolls back every change of a transaction that throws', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const first = model.addTreat(bottle);
+    const second = model.addTreat({ ...bottle, message: 'Second' });
+    model.setSelection(first.id);
+    const before = model.getSceneState(pose);
+    const listener = vi.fn();
+    model.events.on('treatsChanged', listener);
+    model.events.on('selectionChanged', listener);
+
+    expect(() =>
+      model.transaction(() => {
+        model.removeTreat(first.id);
+        model.updateTreat(second.id, { position: { x: 9, y: 9, z: 9 } });
+        model.addTreat(bottle);
+        throw new Error('Import failed');
+      })
+    ).toThrow('Import failed');
+
+    expect(model.getSceneState(pose)).toEqual(before);
+    expect(model.getSelection()).toBe(first.id);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('keeps the changes of an outer transaction when a nested one rolls back', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+    const treatsChanged = vi.fn();
+    model.events.on('treatsChanged', treatsChanged);
+
+    model.transaction(() => {
+      model.addTreat(bottle);
+      try {
+        model.transaction(() => {
+          model.addTreat(bottle);
+          throw new Error('Duplicate failed');
+        });
+      } catch {
+        // Carry on without the duplicate
+      }
+    });
+
+    expect(model.getTreats()).toHaveLength(1);
+    expect(treatsChanged).toHaveBeenCalledOnce();
+  });
+
+  it('rejects asynchronous transactions, rolling them back', () => {
+    const model = new WorldModel('https://example.com/world.spz', true);
+
+    expect(() =>
+      model.transaction(async () => {
+        model.addTreat(bottle);
+      })
+    ).toThrow('must be synchronous');
+    expect(model.getTreats()).toEqual([]);
+  });
+
+  it('registers the listeners it is created with', () => {
+    const treatAdded = vi.fn();
+    const model = new WorldModel('https://example.com/world.spz', true, { treatAdded });
+
+    const treat = model.addTreat(bottle);
+
+    expect(treatAdded).toHaveBeenCalledWith({ treat });
+  });
+});
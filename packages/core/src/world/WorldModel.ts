@@ -0,0 +1,453 @@
+/**
+ * WorldModel - The treats and scene settings behind a WorldHandle.
+ *
+ * Keeps everything a world reports through WorldHandle apart from what is
+ * drawn: treats, selection, mode, the scene-level fields of the last loaded
+ * state and the time of the last change, and emits the world events for
+ * changes to them. Every change to the treats runs as a transaction, so
+ * treat events always describe net changes and a failed change leaves
+ * nothing behind. initWorld() keeps its three.js objects in step through
+ * syncTreat.
+ *
+ * @module @worldnotes/core/world/WorldModel
+ */
+
+import type {
+  AppMode,
+  CameraPose,
+  SceneState,
+  Treat,
+  TreatData,
+  Vector3,
+  WorldEvent,
+  WorldEventListeners,
+  WorldEventMap,
+} from '../types';
+import { CURRENT_VERSION } from '../persistence/SceneSerializer';
+import { MAX_MESSAGE_LENGTH } from '../persistence/SceneValidator';
+import { clone, isEqual, setOptional } from '../persistence/SceneDiff';
+import { createEventBus } from './EventBus';
+
+/** Vertical field of view of the world camera (degrees) */
+export const CAMERA_FOV = 75;
+
+/** Camera pose used when the config has no initialPose */
+export const DEFAULT_CAMERA_POSE: CameraPose = {
+  position: { x: 0, y: 1.6, z: 5 },
+  rotation: { x: 0, y: 0 },
+};
+
+/** Distance (world units) within which a treat's message can be read */
+export const MESSAGE_ZONE_RADIUS = 3;
+
+/** Shortest time (ms) between cameraMoved events */
+export const CAMERA_MOVED_INTERVAL = 100;
+
+/** Scene fields a world keeps but doesn't use for rendering */
+type SceneSettings = Omit<SceneState, 'treats' | 'startPosition' | 'startRotation' | 'updatedAt'>;
+
+/** Treat properties that aren't part of its TreatData */
+const TREAT_SYSTEM_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'extensions']);
+
+/**
+ * What an open transaction needs to roll back: the state when it began and
+ * the treats it has touched since, as they were before (null if new).
+ */
+interface Transaction {
+  order: string[];
+  originals: Map<string, Treat | null>;
+  settings: SceneSettings;
+  updatedAt: string;
+  selection: string | null;
+}
+
+/**
+ * Generate a treat ID in the viewer's `treat-<time>-<random>` form.
+ */
+function generateTreatId(): string {
+  return `treat-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Copy a treat's data, truncating the message to MAX_MESSAGE_LENGTH so the
+ * world's scene state always passes validation.
+ */
+function copyTreatData<T extends Partial<TreatData>>(data: T): T {
+  const copy = clone(data);
+  if (copy.message !== undefined && copy.message.length > MAX_MESSAGE_LENGTH) {
+    copy.message = copy.message.slice(0, MAX_MESSAGE_LENGTH);
+  }
+  return copy;
+}
+
+/**
+ * TreatData properties whose value differs between two versions of a treat.
+ */
+function changedFields(previous: Treat, treat: Treat): (keyof TreatData)[] {
+  const keys = new Set([...Object.keys(treat), ...Object.keys(previous)]);
+  return Array.from(keys).filter(
+    (key) =>
+      !TREAT_SYSTEM_FIELDS.has(key) &&
+      !isEqual(previous[key as keyof Treat], treat[key as keyof Treat])
+  ) as (keyof TreatData)[];
+}
+
+/**
+ * Treats and scene settings of one world, independent of rendering.
+ * Every treat returned or emitted is a copy, so callers can't change the
+ * world by mutating it.
+ *
+ * @internal Shared by the world implementations
+ */
+export class WorldModel {
+  /** World events; implementations emit the ones about rendering themselves */
+  readonly events = createEventBus<WorldEventMap>();
+  /**
+   * Called with each treat a transaction changed (null once removed) when
+   * it commits, before any events, so a renderer can follow the treats
+   */
+  syncTreat: ((treatId: string, treat: Treat | null) => void) | null = null;
+  private readonly treats = new Map<string, Treat>();
+  private settings: SceneSettings;
+  private updatedAt: string;
+  private selection: string | null = null;
+  private mode: AppMode = 'explore';
+  // Treats with a message whose zone the camera is in
+  private readonly messageZones = new Set<string>();
+  // Open transactions, outermost first
+  private readonly transactions: Transaction[] = [];
+
+  /**
+   * @param worldUrl - URL of the splat world being shown
+   * @param worldFlipY - Whether the world is flipped on Y
+   * @param listeners - Callbacks to register before anything is emitted
+   */
+  constructor(worldUrl: string, worldFlipY: boolean, listeners: WorldEventListeners = {}) {
+    const now = new Date().toISOString();
+    this.settings = { version: CURRENT_VERSION, worldUrl, worldFlipY, createdAt: now };
+    this.updatedAt = now;
+    for (const event of Object.keys(listeners) as WorldEvent[]) {
+      const callback = listeners[event];
+      if (callback) {
+        this.events.on(event, callback as (payload: WorldEventMap[WorldEvent]) => void);
+      }
+    }
+  }
+
+  /**
+   * Add a treat with a new ID.
+   * @returns The added treat
+   */
+  addTreat(treatData: TreatData): Treat {
+    return this.transaction(() => {
+      const now = new Date().toISOString();
+      const treat: Treat = {
+        ...copyTreatData(treatData),
+        id: generateTreatId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.touch(treat.id);
+      this.treats.set(treat.id, treat);
+      this.updatedAt = now;
+      return clone(treat);
+    });
+  }
+
+  /**
+   * Merge a patch into a treat. Properties present in the patch with an
+   * undefined value are removed. A patch that changes nothing leaves the
+   * treat, its updatedAt and the events alone.
+   * @returns The treat after the update
+   * @throws Error if no treat has the ID
+   */
+  updateTreat(treatId: string, patch: Partial<TreatData>): Treat {
+    return this.transaction(() => {
+      const treat = this.treats.get(treatId);
+      if (!treat) {
+        throw new Error(`Treat ${treatId} not found`);
+      }
+      const copy = copyTreatData(patch);
+      const changed = (Object.keys(patch) as (keyof TreatData)[]).filter(
+        (key) => !isEqual(treat[key], copy[key])
+      );
+      if (changed.length > 0) {
+        this.touch(treatId);
+        for (const key of changed) {
+          setOptional(treat as unknown as Record<string, unknown>, key, copy[key]);
+        }
+        treat.updatedAt = new Date().toISOString();
+        this.updatedAt = treat.updatedAt;
+      }
+      return clone(treat);
+    });
+  }
+
+  /**
+   * Remove a treat.
+   * @returns The removed treat, or null if no treat had the ID
+   */
+  removeTreat(treatId: string): Treat | null {
+    return this.transaction(() => {
+      const treat = this.treats.get(treatId);
+      if (!treat) {
+        return null;
+      }
+      if (this.selection === treatId) {
+        this.setSelection(null);
+      }
+      this.touch(treatId);
+      this.treats.delete(treatId);
+      this.messageZones.delete(treatId);
+      this.updatedAt = new Date().toISOString();
+      return treat;
+    });
+  }
+
+  /**
+   * Add or replace a treat, keeping its ID and timestamps.
+   */
+  restoreTreat(treat: Treat): void {
+    this.transaction(() => {
+      this.touch(treat.id);
+      this.treats.set(treat.id, copyTreatData(treat));
+      this.updatedAt = new Date().toISOString();
+    });
+  }
+
+  getTreat(treatId: string): Treat | null {
+    const treat = this.treats.get(treatId);
+    return treat ? clone(treat) : null;
+  }
+
+  getTreats(): Treat[] {
+    return Array.from(this.treats.values(), (treat) => clone(treat));
+  }
+
+  /**
+   * Apply changes as one unit. Treat and selection events are held back
+   * until the outermost transaction commits, then emitted for its net
+   * changes; if `fn` throws, the changes it made are rolled back instead.
+   * @returns What `fn` returned
+   * @throws Whatever `fn` threw, or Error if `fn` returned a promise
+   */
+  transaction<T>(fn: () => T): T {
+    const transaction: Transaction = {
+      order: Array.from(this.treats.keys()),
+      originals: new Map(),
+      settings: clone(this.settings),
+      updatedAt: this.updatedAt,
+      selection: this.selection,
+    };
+    this.transactions.push(transaction);
+    let result: T;
+    try {
+      result = fn();
+      if (result instanceof Promise) {
+        // Its changes would land after the transaction had committed
+        result.catch(() => undefined);
+        throw new Error('WorldHandle: transaction() callbacks must be synchronous');
+      }
+    } catch (error) {
+      this.transactions.pop();
+      this.rollBack(transaction);
+      throw error;
+    }
+    this.transactions.pop();
+    if (this.transactions.length === 0) {
+      this.commit(transaction);
+    }
+    return result;
+  }
+
+  /**
+   * Record a treat as it is before its first change in each open transaction.
+   */
+  private touch(treatId: string): void {
+    const treat = this.treats.get(treatId);
+    for (const transaction of this.transactions) {
+      if (!transaction.originals.has(treatId)) {
+        transaction.originals.set(treatId, treat ? clone(treat) : null);
+      }
+    }
+  }
+
+  private rollBack(transaction: Transaction): void {
+    // Rebuild the map so restored treats keep their place in getTreats()
+    const current = new Map(this.treats);
+    this.treats.clear();
+    for (const treatId of transaction.order) {
+      this.treats.set(treatId, transaction.originals.get(treatId) ?? current.get(treatId)!);
+    }
+    for (const treatId of this.messageZones) {
+      if (!this.treats.has(treatId)) {
+        this.messageZones.delete(treatId);
+      }
+    }
+    this.settings = transaction.settings;
+    this.updatedAt = transaction.updatedAt;
+    this.selection = transaction.selection;
+  }
+
+  private commit(transaction: Transaction): void {
+    const changes: WorldEventMap['treatsChanged'] = { added: [], updated: [], removed: [] };
+    const events: (() => void)[] = [];
+    for (const [treatId, previous] of transaction.originals) {
+      const current = this.treats.get(treatId);
+      const treat = current ? clone(current) : null;
+      if (previous && treat) {
+        const changed = changedFields(previous, treat);
+        if (changed.length === 0) {
+          continue;
+        }
+        const update = { treat, previous, changed };
+        changes.updated.push(update);
+        events.push(() => this.events.emit('treatUpdated', update));
+      } else if (treat) {
+        changes.added.push(treat);
+        events.push(() => this.events.emit('treatAdded', { treat }));
+      } else if (previous) {
+        changes.removed.push(previous);
+        events.push(() => this.events.emit('treatRemoved', { treat: previous }));
+      } else {
+        continue;
+      }
+      this.syncTreat?.(treatId, treat);
+    }
+    events.forEach((emit) => emit());
+    if (this.selection !== transaction.selection) {
+      this.events.emit('selectionChanged', {
+        treatId: this.selection,
+        previousTreatId: transaction.selection,
+      });
+    }
+    if (events.length > 0) {
+      this.events.emit('treatsChanged', clone(changes));
+    }
+  }
+
+  /**
+   * Select a treat, or clear the selection with null. Within a transaction,
+   * selectionChanged waits for it to commit.
+   * @throws Error if no treat has the ID
+   */
+  setSelection(treatId: string | null): void {
+    if (treatId !== null && !this.treats.has(treatId)) {
+      throw new Error(`Treat ${treatId} not found`);
+    }
+    if (treatId === this.selection) {
+      return;
+    }
+    const previousTreatId = this.selection;
+    this.selection = treatId;
+    if (this.transactions.length === 0) {
+      this.events.emit('selectionChanged', { treatId, previousTreatId });
+    }
+  }
+
+  getSelection(): string | null {
+    return this.selection;
+  }
+
+  /**
+   * Change the application mode. Leaving edit mode clears the selection.
+   */
+  setMode(mode: AppMode): void {
+    if (mode === this.mode) {
+      return;
+    }
+    if (mode !== 'edit') {
+      this.setSelection(null);
+    }
+    this.mode = mode;
+    this.events.emit('modeChanged', { mode });
+  }
+
+  getMode(): AppMode {
+    return this.mode;
+  }
+
+  /**
+   * Emit messageZoneEntered for each treat with a message whose zone the
+   * viewer has entered since the last call. Does nothing within a
+   * transaction.
+   * @param position - Viewer position in world space
+   */
+  updateMessageZones(position: Vector3): void {
+    // Zones follow committed treats only
+    if (this.transactions.length > 0) {
+      return;
+    }
+    const inside = new Set<string>();
+    for (const treat of this.treats.values()) {
+      if (!treat.message) {
+        continue;
+      }
+      const dx = treat.position.x - position.x;
+      const dy = treat.position.y - position.y;
+      const dz = treat.position.z - position.z;
+      if (Math.sqrt(dx * dx + dy * dy + dz * dz) < MESSAGE_ZONE_RADIUS) {
+        inside.add(treat.id);
+      }
+    }
+    for (const treatId of this.messageZones) {
+      if (!inside.has(treatId)) {
+        this.messageZones.delete(treatId);
+      }
+    }
+    for (const treatId of inside) {
+      if (!this.messageZones.has(treatId)) {
+        this.messageZones.add(treatId);
+        this.events.emit('messageZoneEntered', { treatId });
+      }
+    }
+  }
+
+  /**
+   * Build the scene state, opening at the given camera pose.
+   * @param pose - Current camera pose, saved as the scene's start pose
+   */
+  getSceneState(pose: CameraPose): SceneState {
+    return {
+      ...clone(this.settings),
+      startPosition: { ...pose.position },
+      startRotation: { ...pose.rotation },
+      treats: this.getTreats(),
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Replace all treats with those of a scene state, and keep its scene-level
+   * fields (name, expiry, extensions, ...) for getSceneState(). The world
+   * itself is not changed: worldUrl and worldFlipY stay those being shown.
+   * Emits treatRemoved for every previous treat and treatAdded for every
+   * loaded one (treatUpdated for a loaded treat with a previous treat's ID).
+   * @returns The loaded treats
+   */
+  loadSceneState(state: SceneState): Treat[] {
+    return this.transaction(() => {
+      const { treats, updatedAt, ...settings } = clone(state);
+      delete settings.startPosition;
+      delete settings.startRotation;
+      // The signature wouldn't match the scene once it is edited
+      delete settings.signature;
+      this.settings = {
+        ...settings,
+        worldUrl: this.settings.worldUrl,
+        worldFlipY: this.settings.worldFlipY,
+      };
+      this.setSelection(null);
+      for (const treatId of Array.from(this.treats.keys())) {
+        this.removeTreat(treatId);
+      }
+      for (const treat of treats) {
+        const copy = copyTreatData(treat);
+        this.touch(copy.id);
+        this.treats.set(copy.id, copy);
+      }
+      this.updatedAt = updatedAt;
+      return this.getTreats();
+    });
+  }
+}
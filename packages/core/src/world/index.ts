@@ -0,0 +1,22 @@
+/**
+ * World module - Rendering a world behind a WorldHandle
+ */
+
+export { initWorld } from './initWorld';
+export {
+  createHeadlessWorld,
+  createShapeRaycaster,
+  type HeadlessWorld,
+  type HeadlessWorldConfig,
+  type HeadlessRaycaster,
+  type RaycastShape,
+} from './HeadlessWorld';
+export {
+  createEditHistory,
+  DEFAULT_HISTORY_DEPTH,
+  type EditHistory,
+  type EditHistoryOptions,
+  type EditEntry,
+  type EditType,
+  type TreatChange,
+} from './EditHistory';
@@ -0,0 +1,538 @@
+/**
+ * initWorld - Render a splat world and its treats into a container.
+ *
+ * The rendering, treat, raycast and camera logic of the splat-and-treat
+ * viewer behind a WorldHandle, so apps can embed a world without copying
+ * it. Controls match the viewer: click the canvas to capture the mouse and
+ * look around (explore mode), WASD or arrows to move, E/Space and Q/Shift
+ * to go up and down. Saving is left to the app: pass getSceneState() to a
+ * StorageClient.
+ *
+ * Three.js and SparkJS are peer dependencies; like the apps' own 3D code
+ * they are expected to come from the page's importmap.
+ *
+ * @module @worldnotes/core/world/initWorld
+ */
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { SplatLoader, SplatMesh } from '@sparkjsdev/spark';
+import type {
+  AppMode,
+  CameraPose,
+  RaycastHit,
+  SceneState,
+  Treat,
+  TreatData,
+  WorldHandle,
+  WorldNotesConfig,
+} from '../types';
+import { CAMERA_FOV, CAMERA_MOVED_INTERVAL, DEFAULT_CAMERA_POSE, WorldModel } from './WorldModel';
+
+/** Movement speed (world units per second) */
+const MOVE_SPEED = 3;
+
+/** Mouse look sensitivity (radians per pixel) */
+const LOOK_SENSITIVITY = 0.002;
+
+/** Maximum camera pitch (radians) */
+const MAX_PITCH = Math.PI / 2;
+
+/** Outline color of the selected treat (the viewer's accent purple) */
+const SELECTION_COLOR = 0x8a2be2;
+
+/** Movement state with no keys held */
+const NO_MOVEMENT = {
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+};
+
+/** Movement keys (KeyboardEvent.code) and the direction each moves in */
+const KEY_DIRECTIONS: Record<string, keyof typeof NO_MOVEMENT> = {
+  KeyW: 'forward',
+  ArrowUp: 'forward',
+  KeyS: 'backward',
+  ArrowDown: 'backward',
+  KeyA: 'left',
+  ArrowLeft: 'left',
+  KeyD: 'right',
+  ArrowRight: 'right',
+  KeyE: 'up',
+  Space: 'up',
+  KeyQ: 'down',
+  ShiftLeft: 'down',
+  ShiftRight: 'down',
+};
+
+/**
+ * Whether a key event comes from a text field, where movement keys are text.
+ */
+function isTyping(event: KeyboardEvent): boolean {
+  const target = event.target as HTMLElement | null;
+  return (
+    !!target &&
+    (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+  );
+}
+
+/**
+ * Dispose the geometry and materials of a loaded model.
+ */
+function disposeModel(model: THREE.Object3D): void {
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material) => material.dispose());
+    }
+  });
+}
+
+/**
+ * Create a world in a container element: loads the splat world, then
+ * renders it until dispose() is called.
+ *
+ * Treats are added at once; their GLB models appear when loaded, and a
+ * model that fails to load is left out and reported with an error event.
+ * setMode() and getMode() are only provided when `editMode` is set; in
+ * edit mode, clicking a treat selects it and clicking elsewhere clears the
+ * selection, which is outlined.
+ *
+ * @param config - Container, world URL and options
+ * @returns Handle for the world, once worldLoaded has been emitted
+ * @throws Error if the splat world can't be loaded (the canvas is removed,
+ *   and the error is emitted to `config.on.error` first)
+ *
+ * @example
+ * const world = await initWorld({
+ *   container: document.getElementById('world')!,
+ *   worldUrl: 'https://example.com/world.spz',
+ *   on: { worldLoadProgress: ({ loaded, total }) => showProgress(loaded, total) },
+ * });
+ * world.loadSceneState(await storage.loadScene(sceneId));
+ * world.onMessageZoneEntered((id) => showMessage(world.getTreat(id)?.message));
+ */
+export async function initWorld(config: WorldNotesConfig): Promise<WorldHandle> {
+  const { container, worldUrl, flipY = true, editMode = false } = config;
+  const model = new WorldModel(worldUrl, flipY, config.on);
+
+  // Scene, camera and renderer, as set up by the viewer
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(0x1a1a2e);
+  const camera = new THREE.PerspectiveCamera(
+    CAMERA_FOV,
+    container.clientWidth / container.clientHeight || 1,
+    0.1,
+    1000
+  );
+  const renderer = new THREE.WebGLRenderer({
+    antialias: false,
+    // Better depth precision for splat + GLB mixing
+    logarithmicDepthBuffer: true,
+  });
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+  renderer.setSize(container.clientWidth, container.clientHeight);
+  container.appendChild(renderer.domElement);
+  const canvas = renderer.domElement;
+
+  scene.add(new THREE.AmbientLight(0xffffff, 0.5));
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
+  directionalLight.position.set(5, 10, 5);
+  scene.add(directionalLight);
+
+  let splatMesh: SplatMesh;
+  try {
+    const packedSplats = await new SplatLoader().loadAsync(worldUrl, (event) => {
+      model.events.emit('worldLoadProgress', {
+        loaded: event.loaded,
+        total: event.lengthComputable ? event.total : null,
+      });
+    });
+    splatMesh = new SplatMesh({ packedSplats });
+  } catch (error) {
+    model.events.emit('error', { error });
+    renderer.dispose();
+    canvas.remove();
+    throw error;
+  }
+  if (flipY) {
+    splatMesh.rotation.x = Math.PI;
+  }
+  splatMesh.renderOrder = 0;
+  scene.add(splatMesh);
+
+  // -------------------------------------------------------------------------
+  // Camera
+  // -------------------------------------------------------------------------
+
+  function getCameraPose(): CameraPose {
+    const euler = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ');
+    const { x, y, z } = camera.position;
+    return { position: { x, y, z }, rotation: { x: euler.x, y: euler.y } };
+  }
+
+  function setCameraPose(pose: CameraPose): void {
+    camera.position.set(pose.position.x, pose.position.y, pose.position.z);
+    camera.quaternion.setFromEuler(new THREE.Euler(pose.rotation.x, pose.rotation.y, 0, 'YXZ'));
+  }
+
+  setCameraPose(config.initialPose ?? DEFAULT_CAMERA_POSE);
+
+  // -------------------------------------------------------------------------
+  // Treats
+  // -------------------------------------------------------------------------
+
+  // Each treat is a group carrying its transform; the model is cloned into
+  // it once loaded, so transforms apply even while the model is loading
+  const gltfLoader = new GLTFLoader();
+  const models = new Map<string, Promise<THREE.Object3D>>();
+  const treatObjects = new Map<string, THREE.Group>();
+  let modelRequests = 0;
+
+  function loadModel(url: string): Promise<THREE.Object3D> {
+    let loaded = models.get(url);
+    if (!loaded) {
+      loaded = gltfLoader.loadAsync(url).then((gltf) => gltf.scene);
+      // Let a later treat retry a model that failed to load
+      loaded.catch(() => models.delete(url));
+      models.set(url, loaded);
+    }
+    return loaded;
+  }
+
+  function applyTransform(group: THREE.Group, treat: Treat): void {
+    const { position, rotation, scale = { x: 1, y: 1, z: 1 } } = treat;
+    group.position.set(position.x, position.y, position.z);
+    group.rotation.set(
+      rotation.x,
+      rotation.y,
+      rotation.z,
+      (rotation.order ?? 'XYZ') as THREE.EulerOrder
+    );
+    group.scale.set(scale.x, scale.y, scale.z);
+  }
+
+  function attachModel(group: THREE.Group, treat: Treat): void {
+    // Models are shared between treats, so they are only disposed with the world
+    group.clear();
+    const request = ++modelRequests;
+    group.userData.modelRequest = request;
+    group.userData.glbUrl = treat.glbUrl;
+    loadModel(treat.glbUrl)
+      .then((loaded) => {
+        // Skip models the treat no longer uses (removed or glbUrl changed)
+        if (treatObjects.get(treat.id) !== group || group.userData.modelRequest !== request) {
+          return;
+        }
+        const instance = loaded.clone();
+        // Render after the splat mesh for proper occlusion
+        instance.traverse((child) => {
+          child.renderOrder = 1;
+        });
+        group.add(instance);
+      })
+      .catch((error) => {
+        console.error(`WorldHandle: Failed to load treat model ${treat.glbUrl}:`, error);
+        model.events.emit('error', { error, treatId: treat.id });
+      });
+  }
+
+  function addTreatObject(treat: Treat): void {
+    const group = new THREE.Group();
+    group.userData.treatId = treat.id;
+    applyTransform(group, treat);
+    treatObjects.set(treat.id, group);
+    scene.add(group);
+    attachModel(group, treat);
+  }
+
+  function removeTreatObject(treatId: string): void {
+    const group = treatObjects.get(treatId);
+    if (group) {
+      scene.remove(group);
+      treatObjects.delete(treatId);
+    }
+  }
+
+  // Follow the model's treats as its transactions commit
+  model.syncTreat = (treatId, treat) => {
+    const group = treatObjects.get(treatId);
+    if (!treat) {
+      removeTreatObject(treatId);
+    } else if (!group) {
+      addTreatObject(treat);
+    } else {
+      applyTransform(group, treat);
+      if (group.userData.glbUrl !== treat.glbUrl) {
+        attachModel(group, treat);
+      }
+    }
+  };
+
+  const selectionOutline = new THREE.BoxHelper(new THREE.Object3D(), SELECTION_COLOR);
+  selectionOutline.visible = false;
+  scene.add(selectionOutline);
+
+  // Follows the selected treat's transform and its model once loaded
+  function updateSelectionOutline(): void {
+    const selection = model.getSelection();
+    const group = selection ? treatObjects.get(selection) : undefined;
+    selectionOutline.visible = !!group;
+    if (group) {
+      selectionOutline.setFromObject(group);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Raycasting
+  // -------------------------------------------------------------------------
+
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+
+  function setRayFromClient(clientX: number, clientY: number): void {
+    const rect = canvas.getBoundingClientRect();
+    pointer.set(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    raycaster.setFromCamera(pointer, camera);
+  }
+
+  function raycast(clientX: number, clientY: number): RaycastHit | null {
+    setRayFromClient(clientX, clientY);
+    const [hit] = raycaster.intersectObject(splatMesh, false);
+    if (!hit) {
+      return null;
+    }
+    // Splat hits carry no face, so the normal defaults to up
+    const normal = hit.face
+      ? hit.face.normal.clone().transformDirection(hit.object.matrixWorld)
+      : (hit.normal ?? new THREE.Vector3(0, 1, 0));
+    return {
+      position: { x: hit.point.x, y: hit.point.y, z: hit.point.z },
+      normal: { x: normal.x, y: normal.y, z: normal.z },
+      distance: hit.distance,
+    };
+  }
+
+  /** ID of the treat under a screen point, if any */
+  function treatAt(clientX: number, clientY: number): string | null {
+    setRayFromClient(clientX, clientY);
+    const [hit] = raycaster.intersectObjects(Array.from(treatObjects.values()), true);
+    let object: THREE.Object3D | null = hit ? hit.object : null;
+    while (object && object.userData.treatId === undefined) {
+      object = object.parent;
+    }
+    return object ? (object.userData.treatId as string) : null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Controls
+  // -------------------------------------------------------------------------
+
+  const movement = { ...NO_MOVEMENT };
+  const euler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+  function onKeyDown(event: KeyboardEvent): void {
+    const direction = KEY_DIRECTIONS[event.code];
+    if (direction && !isTyping(event)) {
+      movement[direction] = true;
+    }
+  }
+
+  function onKeyUp(event: KeyboardEvent): void {
+    const direction = KEY_DIRECTIONS[event.code];
+    if (direction && !isTyping(event)) {
+      movement[direction] = false;
+    }
+  }
+
+  // Keys released while the window is in the background never send keyup
+  function onBlur(): void {
+    Object.assign(movement, NO_MOVEMENT);
+  }
+
+  function onMouseMove(event: MouseEvent): void {
+    if (document.pointerLockElement !== canvas) {
+      return;
+    }
+    euler.setFromQuaternion(camera.quaternion);
+    euler.y -= event.movementX * LOOK_SENSITIVITY;
+    euler.x -= event.movementY * LOOK_SENSITIVITY;
+    euler.x = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, euler.x));
+    camera.quaternion.setFromEuler(euler);
+  }
+
+  function onClick(event: MouseEvent): void {
+    const treatId = treatAt(event.clientX, event.clientY);
+    if (model.getMode() === 'edit') {
+      model.setSelection(treatId);
+    } else if (!treatId) {
+      canvas.requestPointerLock();
+    }
+    if (treatId) {
+      model.events.emit('treatClicked', { treatId });
+    }
+  }
+
+  document.addEventListener('keydown', onKeyDown);
+  document.addEventListener('keyup', onKeyUp);
+  document.addEventListener('mousemove', onMouseMove);
+  window.addEventListener('blur', onBlur);
+  canvas.addEventListener('click', onClick);
+
+  const resizeObserver = new ResizeObserver(() => {
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    if (width > 0 && height > 0) {
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      renderer.setSize(width, height);
+    }
+  });
+  resizeObserver.observe(container);
+
+  // -------------------------------------------------------------------------
+  // Render loop
+  // -------------------------------------------------------------------------
+
+  // Pose last reported with cameraMoved, and when
+  const reportedPosition = camera.position.clone();
+  const reportedQuaternion = camera.quaternion.clone();
+  let reportedAt = 0;
+
+  function reportCameraMoved(time: number): void {
+    if (time - reportedAt < CAMERA_MOVED_INTERVAL) {
+      return;
+    }
+    if (camera.position.equals(reportedPosition) && camera.quaternion.equals(reportedQuaternion)) {
+      return;
+    }
+    reportedPosition.copy(camera.position);
+    reportedQuaternion.copy(camera.quaternion);
+    reportedAt = time;
+    model.events.emit('cameraMoved', { pose: getCameraPose() });
+  }
+
+  const clock = new THREE.Clock();
+  const direction = new THREE.Vector3();
+  renderer.setAnimationLoop((time) => {
+    const delta = clock.getDelta();
+
+    // Move on the horizontal plane, whichever way the camera is pitched
+    direction.set(
+      Number(movement.right) - Number(movement.left),
+      0,
+      Number(movement.backward) - Number(movement.forward)
+    );
+    if (direction.lengthSq() > 0) {
+      direction.applyQuaternion(camera.quaternion);
+      direction.y = 0;
+      direction.normalize();
+      camera.position.addScaledVector(direction, MOVE_SPEED * delta);
+    }
+    if (movement.up) camera.position.y += MOVE_SPEED * delta;
+    if (movement.down) camera.position.y -= MOVE_SPEED * delta;
+
+    model.updateMessageZones(camera.position);
+    reportCameraMoved(time);
+    updateSelectionOutline();
+    renderer.render(scene, camera);
+  });
+
+  // -------------------------------------------------------------------------
+  // Handle
+  // -------------------------------------------------------------------------
+
+  const world: WorldHandle = {
+    addTreat: (treatData: TreatData) => model.addTreat(treatData).id,
+
+    updateTreat(treatId: string, patch: Partial<TreatData>): void {
+      model.updateTreat(treatId, patch);
+    },
+
+    removeTreat(treatId: string): void {
+      model.removeTreat(treatId);
+    },
+
+    restoreTreat: (treat: Treat) => model.restoreTreat(treat),
+
+    getTreats: () => model.getTreats(),
+    getTreat: (treatId: string) => model.getTreat(treatId),
+    transaction: (fn) => model.transaction(fn),
+
+    setCameraPose,
+    getCameraPose,
+    raycast,
+
+    getSceneState: () => model.getSceneState(getCameraPose()),
+
+    setSelection: (treatId: string | null) => model.setSelection(treatId),
+    getSelection: () => model.getSelection(),
+
+    loadSceneState(state: SceneState): void {
+      model.loadSceneState(state);
+      if (state.startPosition) {
+        setCameraPose({
+          position: state.startPosition,
+          rotation: state.startRotation ?? { x: 0, y: 0 },
+        });
+      }
+    },
+
+    on: (event, callback) => model.events.on(event, callback),
+    onTreatClicked: (callback) =>
+      model.events.on('treatClicked', ({ treatId }) => callback(treatId)),
+    onMessageZoneEntered: (callback) =>
+      model.events.on('messageZoneEntered', ({ treatId }) => callback(treatId)),
+    onModeChange: (callback) => model.events.on('modeChanged', ({ mode }) => callback(mode)),
+
+    dispose(): void {
+      renderer.setAnimationLoop(null);
+      document.removeEventListener('keydown', onKeyDown);
+      document.removeEventListener('keyup', onKeyUp);
+      document.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('blur', onBlur);
+      canvas.removeEventListener('click', onClick);
+      resizeObserver.disconnect();
+      if (document.pointerLockElement === canvas) {
+        document.exitPointerLock();
+      }
+
+      for (const treatId of Array.from(treatObjects.keys())) {
+        removeTreatObject(treatId);
+      }
+      for (const loaded of models.values()) {
+        loaded.then(disposeModel, () => undefined);
+      }
+      models.clear();
+      splatMesh.dispose();
+      renderer.dispose();
+      canvas.remove();
+
+      selectionOutline.dispose();
+      model.events.clear();
+    },
+  };
+
+  if (editMode) {
+    world.setMode = (mode: AppMode) => {
+      // Edit mode needs the cursor for placing and selecting
+      if (mode === 'edit' && document.pointerLockElement === canvas) {
+        document.exitPointerLock();
+      }
+      model.setMode(mode);
+    };
+    world.getMode = () => model.getMode();
+  }
+
+  model.events.emit('worldLoaded', { worldUrl });
+  return world;
+}
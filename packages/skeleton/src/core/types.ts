@@ -35,6 +35,12 @@ export interface Euler {
   order?: string;
 }
 
+/**
+ * Properties a scene or treat carried that this build does not recognize.
+ * Preserved on load and written back unchanged on save.
+ */
+export type ExtensionFields = Record<string, unknown>;
+
 /**
  * Metadata attached to a treat
  */
@@ -45,6 +51,8 @@ export interface TreatMetadata {
   behaviorCode?: string;
   /** Unique ID for inter-object communication */
   objectId?: string;
+  /** Unrecognized metadata properties preserved across load/save */
+  extensions?: ExtensionFields;
 }
 
 /**
@@ -65,6 +73,8 @@ export interface Treat {
   scale: Vector3;
   /** Additional metadata */
   metadata: TreatMetadata;
+  /** Unrecognized properties preserved across load/save */
+  extensions?: ExtensionFields;
 }
 
 /**
@@ -169,6 +179,10 @@ export interface SceneState {
   createdAt: string;
   /** Last update timestamp */
   updatedAt: string;
+  /** SHA-256 of the scene's secret edit token; saving over the scene requires the token */
+  editTokenHash?: string;
+  /** Unrecognized top-level properties preserved across load/save */
+  extensions?: ExtensionFields;
 }
 
 /**
@@ -181,6 +195,12 @@ export interface ShareableScene {
   shareUrl: string;
   /** S3 object key */
   s3Key: string;
+  /** SHA-256 of the saved scene's canonical form */
+  hash?: string;
+  /** Secret token required to save over the scene; keep it out of view links */
+  editToken?: string;
+  /** shareUrl with the edit token in the fragment, for people allowed to edit */
+  editUrl?: string;
 }
 
 /**
@@ -13,6 +13,7 @@
  */
 
 import type {
+  ExtensionFields,
   SceneState,
   Treat,
   TreatType,
@@ -41,6 +42,62 @@ const VALID_TREAT_TYPES: TreatType[] = [
  */
 const VALID_ACTION_TYPES: WaypointAction['type'][] = ['audio', 'text', 'activate'];
 
+/**
+ * Treat properties this build understands (`message` is read from version 2
+ * documents); anything else is preserved in Treat.extensions
+ */
+const KNOWN_TREAT_KEYS = new Set([
+  'id',
+  'type',
+  'glbUrl',
+  'message',
+  'position',
+  'rotation',
+  'scale',
+  'metadata',
+]);
+
+/**
+ * Treat metadata properties this build understands; anything else is
+ * preserved in TreatMetadata.extensions
+ */
+const KNOWN_METADATA_KEYS = new Set(['text', 'behaviorCode', 'objectId']);
+
+/**
+ * Scene properties this build understands; anything else is preserved in
+ * SceneState.extensions
+ */
+const KNOWN_SCENE_KEYS = new Set([
+  'version',
+  'worldUrl',
+  'worldFlipY',
+  'treats',
+  'waypoints',
+  'paths',
+  'createdAt',
+  'updatedAt',
+  'editTokenHash',
+]);
+
+/**
+ * Collect properties not in `known` into an extension bag.
+ * Returns undefined if there are none.
+ */
+function collectExtensions(
+  data: Record<string, unknown>,
+  known: Set<string>
+): ExtensionFields | undefined {
+  const unknownKeys = Object.keys(data).filter((key) => !known.has(key));
+  if (unknownKeys.length === 0) {
+    return undefined;
+  }
+  const extensions: ExtensionFields = {};
+  for (const key of unknownKeys) {
+    extensions[key] = data[key];
+  }
+  return extensions;
+}
+
 /**
  * Deserialize a plain object to Vector3
  */
@@ -74,6 +131,10 @@ function deserializeTreatType(type: string): TreatType {
   if (VALID_TREAT_TYPES.includes(type as TreatType)) {
     return type as TreatType;
   }
+  // Version 2 documents (@worldnotes/core) call message bottles 'bottle'
+  if (type === 'bottle') {
+    return 'message-bottle';
+  }
   // Default to 'custom' for unknown types
   return 'custom';
 }
@@ -82,7 +143,7 @@ function deserializeTreatType(type: string): TreatType {
  * Deserialize treat metadata
  */
 function deserializeTreatMetadata(
-  data: { text?: string; behaviorCode?: string; objectId?: string } | undefined
+  data: SerializedSceneState['treats'][0]['metadata'] | undefined
 ): TreatMetadata {
   if (!data) {
     return {};
@@ -97,6 +158,10 @@ function deserializeTreatMetadata(
   if (data.objectId !== undefined) {
     result.objectId = String(data.objectId);
   }
+  const extensions = collectExtensions(data, KNOWN_METADATA_KEYS);
+  if (extensions !== undefined) {
+    result.extensions = extensions;
+  }
   return result;
 }
 
@@ -104,15 +169,30 @@ function deserializeTreatMetadata(
  * Deserialize a plain object to Treat
  */
 export function deserializeTreat(data: SerializedSceneState['treats'][0]): Treat {
-  return {
+  const metadata = deserializeTreatMetadata(data.metadata);
+  // Version 2 documents keep the message on the treat instead of metadata.text
+  if (metadata.text === undefined && data.message !== undefined) {
+    metadata.text = String(data.message);
+  }
+
+  const result: Treat = {
     id: String(data.id),
     type: deserializeTreatType(data.type),
     glbUrl: String(data.glbUrl),
     position: deserializeVector3(data.position),
     rotation: deserializeEuler(data.rotation),
-    scale: deserializeVector3(data.scale),
-    metadata: deserializeTreatMetadata(data.metadata),
+    // Version 2 documents may omit scale for unscaled treats
+    scale: data.scale ? deserializeVector3(data.scale) : { x: 1, y: 1, z: 1 },
+    metadata,
   };
+
+  // Keep properties written by newer builds so they survive a re-save
+  const extensions = collectExtensions(data, KNOWN_TREAT_KEYS);
+  if (extensions !== undefined) {
+    result.extensions = extensions;
+  }
+
+  return result;
 }
 
 /**
@@ -190,7 +270,7 @@ export function fromObject(data: SerializedSceneState): SceneState {
     throw new Error('SceneState missing required field: worldUrl');
   }
 
-  return {
+  const result: SceneState = {
     version: Number(data.version) || 1,
     worldUrl: String(data.worldUrl),
     worldFlipY: data.worldFlipY !== undefined ? Boolean(data.worldFlipY) : undefined,
@@ -200,4 +280,15 @@ export function fromObject(data: SerializedSceneState): SceneState {
     createdAt: data.createdAt ? String(data.createdAt) : new Date().toISOString(),
     updatedAt: data.updatedAt ? String(data.updatedAt) : new Date().toISOString(),
   };
+  if (data.editTokenHash !== undefined) {
+    result.editTokenHash = String(data.editTokenHash);
+  }
+
+  // Keep properties written by newer builds so they survive a re-save
+  const extensions = collectExtensions(data, KNOWN_SCENE_KEYS);
+  if (extensions !== undefined) {
+    result.extensions = extensions;
+  }
+
+  return result;
 }
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for SceneHash
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalizeScene, hashScene } from './SceneHash';
+import type { SceneState, Treat } from '../core/types';
+
+function makeTreat(id: string, x = 0): Treat {
+  return {
+    id,
+    type: 'message-bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    position: { x, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: { x: 1, y: 1, z: 1 },
+    metadata: { text: 'Hi' },
+  };
+}
+
+function makeScene(treats: Treat[], updatedAt = '2025-01-01T00:00:00Z'): SceneState {
+  return {
+    version: 1,
+    worldUrl: 'https://example.com/world.spz',
+    treats,
+    waypoints: [],
+    paths: [],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt,
+  };
+}
+
+describe('SceneHash', () => {
+  it('should ignore treat order, float noise and save times', async () => {
+    const a = makeScene([makeTreat('a', 0.1 + 0.2), makeTreat('b')]);
+    const b = makeScene([makeTreat('b'), makeTreat('a', 0.3)], '2025-06-01T00:00:00Z');
+
+    expect(canonicalizeScene(a)).toBe(canonicalizeScene(b));
+    expect(await hashScene(a)).toBe(await hashScene(b));
+  });
+
+  it('should change when content changes', async () => {
+    const a = makeScene([makeTreat('a')]);
+    const b = makeScene([makeTreat('a', 1)]);
+
+    expect(await hashScene(a)).not.toBe(await hashScene(b));
+    expect(await hashScene(a)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
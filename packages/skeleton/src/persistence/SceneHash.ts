@@ -0,0 +1,72 @@
+/**
+ * SceneHash - Canonical form and content hash of a scene.
+ *
+ * Mirrors canonicalizeScene()/hashScene() in @worldnotes/core: keys sorted,
+ * numbers rounded to 6 decimals, treats sorted by id and scene timestamps,
+ * edit token hash and signature left out, so identical content always
+ * hashes the same.
+ *
+ * @module persistence/SceneHash
+ */
+
+import type { SceneState } from '../core/types';
+import { toObject } from './SceneSerializer';
+
+/** Decimal places kept for numbers in the canonical form */
+const CANONICAL_DECIMALS = 6;
+
+/**
+ * Produce the canonical JSON string for a scene.
+ *
+ * @param state - Scene to canonicalize
+ * @returns Canonical JSON string
+ */
+export function canonicalizeScene(state: SceneState): string {
+  const { treats, ...fields } = toObject(state);
+  const document: Record<string, unknown> = { ...fields };
+  // Timestamps change on every save, not with the content
+  delete document.createdAt;
+  delete document.updatedAt;
+  // Who may edit the scene isn't part of its content
+  delete document.editTokenHash;
+  // A signature is computed over this form, so it can't be part of it
+  delete document.signature;
+  document.treats = [...treats].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return JSON.stringify(canonicalizeValue(document));
+}
+
+/**
+ * Compute the SHA-256 of a scene's canonical form using WebCrypto.
+ *
+ * @param state - Scene to hash
+ * @returns Lowercase hex SHA-256 digest
+ */
+export async function hashScene(state: SceneState): Promise<string> {
+  const data = new TextEncoder().encode(canonicalizeScene(state));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Recursively sort object keys, round numbers and drop undefined values.
+ */
+function canonicalizeValue(value: unknown): unknown {
+  if (typeof value === 'number') {
+    const rounded = Number(value.toFixed(CANONICAL_DECIMALS));
+    return Object.is(rounded, -0) ? 0 : rounded;
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalizeValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(record).sort()) {
+      if (record[key] !== undefined) {
+        result[key] = canonicalizeValue(record[key]);
+      }
+    }
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for SceneMerge
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeScenes } from './SceneMerge';
+import type { SceneState, Treat } from '../core/types';
+
+function makeTreat(id: string, text = ''): Treat {
+  return {
+    id,
+    type: 'message-bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    scale: { x: 1, y: 1, z: 1 },
+    metadata: { text },
+  };
+}
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: 1,
+    worldUrl: 'https://example.com/world.spz',
+    treats,
+    waypoints: [],
+    paths: [],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  };
+}
+
+describe('mergeScenes', () => {
+  it('should keep treats added by both collaborators', () => {
+    const base = makeScene([makeTreat('a')]);
+    const ours = makeScene([makeTreat('a'), makeTreat('b')]);
+    const theirs = makeScene([makeTreat('a'), makeTreat('c')]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats.map((t) => t.id)).toEqual(['a', 'b', 'c']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should take a remote move alongside a local message edit', () => {
+    const moved = { ...makeTreat('a'), position: { x: 3, y: 0, z: 0 } };
+    const { merged, conflicts } = mergeScenes(
+      makeScene([makeTreat('a')]),
+      makeScene([makeTreat('a', 'Hello')]),
+      makeScene([moved])
+    );
+
+    expect(merged.treats[0].position).toEqual({ x: 3, y: 0, z: 0 });
+    expect(merged.treats[0].metadata.text).toBe('Hello');
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should report conflicting edits and keep ours', () => {
+    const { merged, conflicts } = mergeScenes(
+      makeScene([makeTreat('a', 'Hi')]),
+      makeScene([makeTreat('a', 'Ours')]),
+      makeScene([makeTreat('a', 'Theirs')])
+    );
+
+    expect(merged.treats[0].metadata.text).toBe('Ours');
+    expect(conflicts).toEqual([
+      {
+        treatId: 'a',
+        field: 'metadata',
+        base: { text: 'Hi' },
+        ours: { text: 'Ours' },
+        theirs: { text: 'Theirs' },
+      },
+    ]);
+  });
+
+  it('should drop treats removed remotely unless edited locally', () => {
+    const base = makeScene([makeTreat('a'), makeTreat('b')]);
+    const ours = makeScene([makeTreat('a'), makeTreat('b', 'Edited')]);
+    const theirs = makeScene([]);
+
+    const { merged, conflicts } = mergeScenes(base, ours, theirs);
+
+    expect(merged.treats.map((t) => t.id)).toEqual(['b']);
+    expect(conflicts.map((c) => [c.treatId, c.field])).toEqual([['b', '*']]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * SceneMerge - Three-way merge of concurrent edits to the same scene.
+ *
+ * Mirrors mergeScenes() in @worldnotes/core for the skeleton's SceneState.
+ * Changes are combined per treat and per field; a field changed differently
+ * on both sides is reported as a conflict and resolved in favour of `ours`.
+ *
+ * @module persistence/SceneMerge
+ */
+
+import type { SceneState, Treat } from '../core/types';
+
+/** Tolerance for transform comparisons (world units / radians) */
+const TRANSFORM_TOLERANCE = 1e-6;
+
+/** Scene-level fields merged as world settings */
+const WORLD_SETTING_KEYS = ['worldUrl', 'worldFlipY', 'waypoints', 'paths', 'extensions'] as const;
+
+/** Treat fields compared as vectors within the tolerance */
+const TRANSFORM_KEYS = ['position', 'rotation', 'scale'];
+
+/**
+ * A field that was changed differently on both sides.
+ */
+export interface SceneMergeConflict {
+  /** Treat the conflict belongs to (absent for world settings) */
+  treatId?: string;
+  /** Conflicting field; '*' means removed on one side and modified on the other */
+  field: string;
+  /** Value in the common ancestor */
+  base: unknown;
+  /** Local value */
+  ours: unknown;
+  /** Remote value */
+  theirs: unknown;
+}
+
+/**
+ * Result of mergeScenes().
+ */
+export interface SceneMergeResult {
+  /** Merged scene */
+  merged: SceneState;
+  /** Fields that changed on both sides; empty for a clean merge */
+  conflicts: SceneMergeConflict[];
+}
+
+/**
+ * Three-way merge two edited copies of a scene.
+ *
+ * - Same field changed on both sides: `ours` wins, conflict reported.
+ * - Treat removed on one side and modified on the other: the modified treat
+ *   is kept, conflict reported with field '*'.
+ * - Treat removed on one side and untouched on the other: removed.
+ *
+ * @param base - Scene both sides started from
+ * @param ours - Local edits about to be saved
+ * @param theirs - Copy currently in storage
+ * @returns Merged scene and any conflicts
+ */
+export function mergeScenes(
+  base: SceneState,
+  ours: SceneState,
+  theirs: SceneState
+): SceneMergeResult {
+  const conflicts: SceneMergeConflict[] = [];
+  const merged: SceneState = { ...clone(ours), createdAt: base.createdAt, treats: [] };
+  const mergedRecord = merged as unknown as Record<string, unknown>;
+
+  for (const key of WORLD_SETTING_KEYS) {
+    const value = mergeField(key, base[key], ours[key], theirs[key], conflicts);
+    if (value === undefined) {
+      delete mergedRecord[key];
+    } else {
+      mergedRecord[key] = clone(value);
+    }
+  }
+
+  const baseTreats = new Map(base.treats.map((treat) => [treat.id, treat]));
+  const ourTreats = new Map(ours.treats.map((treat) => [treat.id, treat]));
+  const theirTreats = new Map(theirs.treats.map((treat) => [treat.id, treat]));
+
+  for (const treat of ours.treats) {
+    const baseTreat = baseTreats.get(treat.id);
+    const theirTreat = theirTreats.get(treat.id);
+
+    if (baseTreat && !theirTreat) {
+      if (treatsEqual(baseTreat, treat)) {
+        continue;
+      }
+      conflicts.push({
+        treatId: treat.id,
+        field: '*',
+        base: clone(baseTreat),
+        ours: clone(treat),
+        theirs: undefined,
+      });
+      merged.treats.push(clone(treat));
+      continue;
+    }
+
+    merged.treats.push(
+      theirTreat ? mergeTreat(baseTreat, treat, theirTreat, conflicts) : clone(treat)
+    );
+  }
+
+  for (const treat of theirs.treats) {
+    if (ourTreats.has(treat.id)) {
+      continue;
+    }
+    const baseTreat = baseTreats.get(treat.id);
+    if (baseTreat) {
+      if (treatsEqual(baseTreat, treat)) {
+        continue;
+      }
+      conflicts.push({
+        treatId: treat.id,
+        field: '*',
+        base: clone(baseTreat),
+        ours: undefined,
+        theirs: clone(treat),
+      });
+    }
+    merged.treats.push(clone(treat));
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Merge one treat field by field.
+ */
+function mergeTreat(
+  base: Treat | undefined,
+  ours: Treat,
+  theirs: Treat,
+  conflicts: SceneMergeConflict[]
+): Treat {
+  const baseRecord = (base ?? {}) as unknown as Record<string, unknown>;
+  const ourRecord = ours as unknown as Record<string, unknown>;
+  const theirRecord = theirs as unknown as Record<string, unknown>;
+  const keys = new Set([
+    ...Object.keys(ourRecord),
+    ...Object.keys(theirRecord),
+    ...Object.keys(baseRecord),
+  ]);
+  const result: Record<string, unknown> = { id: ours.id };
+
+  for (const key of keys) {
+    if (key === 'id') {
+      continue;
+    }
+    const treatConflicts: SceneMergeConflict[] = [];
+    const value = mergeField(
+      key,
+      baseRecord[key],
+      ourRecord[key],
+      theirRecord[key],
+      treatConflicts
+    );
+    treatConflicts.forEach((conflict) => conflicts.push({ treatId: ours.id, ...conflict }));
+    if (value !== undefined) {
+      result[key] = clone(value);
+    }
+  }
+
+  return result as unknown as Treat;
+}
+
+/**
+ * Three-way merge a single value.
+ */
+function mergeField(
+  key: string,
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  conflicts: SceneMergeConflict[]
+): unknown {
+  if (fieldEqual(key, ours, theirs)) {
+    return ours;
+  }
+  if (fieldEqual(key, base, ours)) {
+    return theirs;
+  }
+  if (fieldEqual(key, base, theirs)) {
+    return ours;
+  }
+  conflicts.push({ field: key, base: clone(base), ours: clone(ours), theirs: clone(theirs) });
+  return ours;
+}
+
+function fieldEqual(key: string, a: unknown, b: unknown): boolean {
+  if (TRANSFORM_KEYS.includes(key) && isVector(a) && isVector(b)) {
+    return (
+      Math.abs(a.x - b.x) <= TRANSFORM_TOLERANCE &&
+      Math.abs(a.y - b.y) <= TRANSFORM_TOLERANCE &&
+      Math.abs(a.z - b.z) <= TRANSFORM_TOLERANCE &&
+      a.order === b.order
+    );
+  }
+  return isEqual(a, b);
+}
+
+function treatsEqual(a: Treat, b: Treat): boolean {
+  const aRecord = a as unknown as Record<string, unknown>;
+  const bRecord = b as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every((key) => fieldEqual(key, aRecord[key], bRecord[key]));
+}
+
+function isVector(value: unknown): value is { x: number; y: number; z: number; order?: string } {
+  return (
+    typeof value === 'object' && value !== null && 'x' in value && 'y' in value && 'z' in value
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord).filter((key) => aRecord[key] !== undefined);
+  const bKeys = Object.keys(bRecord).filter((key) => bRecord[key] !== undefined);
+  return (
+    Array.isArray(a) === Array.isArray(b) &&
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => isEqual(aRecord[key], bRecord[key]))
+  );
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
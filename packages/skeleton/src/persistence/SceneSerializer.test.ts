@@ -215,6 +215,50 @@ describe('SceneDeserializer', () => {
       const state = fromObject(data);
       expect(state.treats[0].type).toBe('custom');
     });
+
+    it('should read version 2 treats with message and no scale', () => {
+      const data = {
+        version: 2,
+        worldUrl: 'https://example.com/world.spz',
+        treats: [
+          {
+            id: 'treat-1',
+            type: 'custom',
+            glbUrl: 'https://example.com/model.glb',
+            message: 'Hello',
+            position: { x: 0, y: 0, z: 0 },
+            rotation: { x: 0, y: 0, z: 0 },
+          },
+        ],
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      } as unknown as Parameters<typeof fromObject>[0];
+
+      const state = fromObject(data);
+      expect(state.treats[0].metadata.text).toBe('Hello');
+      expect(state.treats[0].scale).toEqual({ x: 1, y: 1, z: 1 });
+      expect(state.waypoints).toEqual([]);
+    });
+
+    it('should read version 2 bottles as message bottles', () => {
+      const data = {
+        version: 2,
+        worldUrl: 'https://example.com/world.spz',
+        treats: [
+          {
+            id: 'treat-1',
+            type: 'bottle',
+            glbUrl: 'https://example.com/bottle.glb',
+            position: { x: 0, y: 0, z: 0 },
+            rotation: { x: 0, y: 0, z: 0 },
+          },
+        ],
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      } as unknown as Parameters<typeof fromObject>[0];
+
+      expect(fromObject(data).treats[0].type).toBe('message-bottle');
+    });
   });
 });
 
@@ -295,3 +339,61 @@ describe('Round-trip serialization', () => {
     expect(restored.worldFlipY).toBeUndefined();
   });
 });
+
+describe('Unknown field preservation', () => {
+  it('should round-trip unrecognized scene, treat and metadata properties', () => {
+    const json = JSON.stringify({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      ambientSound: 'https://example.com/wind.mp3',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'custom',
+          glbUrl: 'https://example.com/model.glb',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+          scale: { x: 1, y: 1, z: 1 },
+          metadata: { sensorId: 'psi-12' },
+          color: '#ff6600',
+        },
+      ],
+      waypoints: [],
+      paths: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    const state = fromJSON(json);
+    expect(state.extensions).toEqual({ ambientSound: 'https://example.com/wind.mp3' });
+    expect(state.treats[0].extensions).toEqual({ color: '#ff6600' });
+    expect(state.treats[0].metadata.extensions).toEqual({ sensorId: 'psi-12' });
+
+    expect(JSON.parse(toJSON(state))).toEqual(JSON.parse(json));
+  });
+
+  it('should write the message at the treat level for version 2 readers', () => {
+    const obj = toObject({
+      version: 1,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [
+        {
+          id: 'treat-1',
+          type: 'custom',
+          glbUrl: 'https://example.com/model.glb',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+          scale: { x: 1, y: 1, z: 1 },
+          metadata: { text: 'Hello' },
+        },
+      ],
+      waypoints: [],
+      paths: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    expect(obj.treats[0].message).toBe('Hello');
+    expect(obj.treats[0].metadata.text).toBe('Hello');
+  });
+});
@@ -41,11 +41,17 @@ export interface SerializedTreat {
   position: SerializedVector3;
   rotation: SerializedEuler;
   scale: SerializedVector3;
+  /** Treat message as written by version 2 documents (@worldnotes/core) */
+  message?: string;
   metadata: {
     text?: string;
     behaviorCode?: string;
     objectId?: string;
+    /** Properties from TreatMetadata.extensions, written back in metadata */
+    [extension: string]: unknown;
   };
+  /** Properties from Treat.extensions, written back at the top level */
+  [extension: string]: unknown;
 }
 
 /**
@@ -73,6 +79,9 @@ export interface SerializedSceneState {
   }>;
   createdAt: string;
   updatedAt: string;
+  editTokenHash?: string;
+  /** Properties from SceneState.extensions, written back at the top level */
+  [extension: string]: unknown;
 }
 
 /**
@@ -105,15 +114,23 @@ export function serializeEuler(euler: Euler): SerializedEuler {
  * Serialize a Treat to a plain object
  */
 export function serializeTreat(treat: Treat): SerializedTreat {
-  return {
+  const { extensions, ...metadata } = treat.metadata;
+  const result: SerializedTreat = {
+    // Unrecognized properties first so known fields always win
+    ...treat.extensions,
     id: treat.id,
     type: treat.type,
     glbUrl: treat.glbUrl,
     position: serializeVector3(treat.position),
     rotation: serializeEuler(treat.rotation),
     scale: serializeVector3(treat.scale),
-    metadata: { ...treat.metadata },
+    metadata: { ...extensions, ...metadata },
   };
+  // Version 2 readers (@worldnotes/core) look for the message on the treat
+  if (treat.metadata.text !== undefined) {
+    result.message = treat.metadata.text;
+  }
+  return result;
 }
 
 /**
@@ -155,6 +172,8 @@ export function serializeWaypointPath(path: WaypointPath): SerializedSceneState[
  */
 export function toJSON(state: SceneState): string {
   const serialized: SerializedSceneState = {
+    // Unrecognized properties first so known fields always win
+    ...state.extensions,
     version: state.version,
     worldUrl: state.worldUrl,
     worldFlipY: state.worldFlipY,
@@ -163,6 +182,7 @@ export function toJSON(state: SceneState): string {
     paths: state.paths.map(serializeWaypointPath),
     createdAt: state.createdAt,
     updatedAt: state.updatedAt,
+    editTokenHash: state.editTokenHash,
   };
   return JSON.stringify(serialized);
 }
@@ -176,6 +196,8 @@ export function toJSON(state: SceneState): string {
  */
 export function toObject(state: SceneState): SerializedSceneState {
   return {
+    // Unrecognized properties first so known fields always win
+    ...state.extensions,
     version: state.version,
     worldUrl: state.worldUrl,
     worldFlipY: state.worldFlipY,
@@ -184,5 +206,6 @@ export function toObject(state: SceneState): SerializedSceneState {
     paths: state.paths.map(serializeWaypointPath),
     createdAt: state.createdAt,
     updatedAt: state.updatedAt,
+    editTokenHash: state.editTokenHash,
   };
 }
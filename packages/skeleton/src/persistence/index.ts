@@ -27,3 +27,11 @@ export {
   deserializeWaypoint,
   deserializeWaypointPath,
 } from './SceneDeserializer';
+
+export {
+  mergeScenes,
+  type SceneMergeConflict,
+  type SceneMergeResult,
+} from './SceneMerge';
+
+export { canonicalizeScene, hashScene } from './SceneHash';
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for S3Emulator
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CopyObjectCommand,
+} from '@aws-sdk/client-s3';
+import { S3Emulator } from './S3Emulator';
+
+const Bucket = 'test-bucket';
+
+describe('S3Emulator', () => {
+  let client: S3Client;
+
+  beforeEach(() => {
+    client = new S3Emulator().createClient();
+  });
+
+  it('should store objects with an ETag that changes with the content', async () => {
+    const first = await client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'one' }));
+    const second = await client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'two' }));
+
+    const response = await client.send(new GetObjectCommand({ Bucket, Key: 'a' }));
+
+    expect(await response.Body?.transformToString()).toBe('two');
+    expect(response.ETag).toBe(second.ETag);
+    expect(second.ETag).not.toBe(first.ETag);
+  });
+
+  it('should throw NoSuchKey for missing and deleted objects', async () => {
+    await client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'one' }));
+    await client.send(new DeleteObjectCommand({ Bucket, Key: 'a' }));
+
+    await expect(client.send(new GetObjectCommand({ Bucket, Key: 'a' }))).rejects.toMatchObject({
+      name: 'NoSuchKey',
+    });
+  });
+
+  it('should enforce If-Match and If-None-Match on writes', async () => {
+    const { ETag } = await client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'one' }));
+
+    await expect(
+      client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'two', IfNoneMatch: '*' }))
+    ).rejects.toMatchObject({ name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } });
+    await expect(
+      client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'two', IfMatch: '"stale"' }))
+    ).rejects.toMatchObject({ name: 'PreconditionFailed' });
+    await expect(
+      client.send(new PutObjectCommand({ Bucket, Key: 'a', Body: 'two', IfMatch: ETag }))
+    ).resolves.toBeDefined();
+  });
+
+  it('should list keys by prefix a page at a time', async () => {
+    for (const Key of ['scenes/b.json', 'scenes/a.json', 'assets/x.glb', 'scenes/c.json']) {
+      await client.send(new PutObjectCommand({ Bucket, Key, Body: Key }));
+    }
+
+    const first = await client.send(
+      new ListObjectsV2Command({ Bucket, Prefix: 'scenes/', MaxKeys: 2 })
+    );
+    const second = await client.send(
+      new ListObjectsV2Command({
+        Bucket,
+        Prefix: 'scenes/',
+        ContinuationToken: first.NextContinuationToken,
+      })
+    );
+
+    expect(first.Contents?.map((object) => object.Key)).toEqual(['scenes/a.json', 'scenes/b.json']);
+    expect(first.IsTruncated).toBe(true);
+    expect(second.Contents?.map((object) => object.Key)).toEqual(['scenes/c.json']);
+    expect(second.IsTruncated).toBe(false);
+  });
+
+  it('should reject commands it does not implement', async () => {
+    await expect(
+      client.send(new CopyObjectCommand({ Bucket, Key: 'b', CopySource: `${Bucket}/a` }))
+    ).rejects.toThrow('S3Emulator does not support CopyObjectCommand');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * S3Emulator - In-process stand-in for S3.
+ *
+ * Answers the commands StorageService sends (PutObject, GetObject,
+ * HeadObject, DeleteObject and ListObjectsV2) from memory, with the parts of
+ * S3's behaviour the service relies on: ETags that change with content,
+ * If-Match / If-None-Match on writes, and the NoSuchKey, NotFound and
+ * PreconditionFailed errors. Lets StorageService be tested without AWS.
+ *
+ * @module services/S3Emulator
+ */
+
+import {
+  S3Client,
+  S3ServiceException,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+
+/** Keys returned per ListObjectsV2 page unless MaxKeys is given */
+const DEFAULT_MAX_KEYS = 1000;
+
+/**
+ * An object as stored by the emulator
+ */
+export interface EmulatedObject {
+  body: Uint8Array;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  /** Quoted, as S3 returns it */
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * In-memory S3 for tests.
+ *
+ * Example usage:
+ * ```typescript
+ * const s3 = new S3Emulator();
+ * const storage = new StorageService(config, s3.createClient());
+ * const { sceneId } = await storage.saveScene(state);
+ * expect(s3.getObject('test-bucket', `scenes/${sceneId}.json`)).toBeDefined();
+ * ```
+ */
+export class S3Emulator {
+  private buckets = new Map<string, Map<string, EmulatedObject>>();
+  /** Names of the commands received, oldest first (e.g. 'PutObjectCommand') */
+  readonly commands: string[] = [];
+
+  /**
+   * An S3Client whose send() is answered by this emulator. Commands it
+   * doesn't implement are rejected.
+   */
+  createClient(): S3Client {
+    return { send: (command: unknown) => this.send(command) } as unknown as S3Client;
+  }
+
+  /**
+   * Read a stored object directly, bypassing commands.
+   */
+  getObject(bucket: string, key: string): EmulatedObject | undefined {
+    return this.buckets.get(bucket)?.get(key);
+  }
+
+  /**
+   * Keys stored in a bucket, sorted.
+   */
+  listKeys(bucket: string): string[] {
+    return [...(this.buckets.get(bucket)?.keys() ?? [])].sort();
+  }
+
+  /**
+   * Handle one command as S3 would.
+   */
+  async send(command: unknown): Promise<unknown> {
+    this.commands.push((command as object).constructor.name);
+
+    if (command instanceof PutObjectCommand) {
+      const { Bucket, Key, Body, ContentType, Metadata, IfMatch, IfNoneMatch } = command.input;
+      const objects = this.bucket(Bucket!);
+      const existing = objects.get(Key!);
+      if (IfNoneMatch === '*' && existing) {
+        throw preconditionFailed();
+      }
+      if (IfMatch !== undefined) {
+        if (!existing) {
+          throw noSuchKey();
+        }
+        if (existing.etag !== IfMatch) {
+          throw preconditionFailed();
+        }
+      }
+
+      const body = await toBytes(Body);
+      const object: EmulatedObject = {
+        body,
+        etag: await computeETag(body),
+        lastModified: new Date(),
+      };
+      if (ContentType !== undefined) {
+        object.contentType = ContentType;
+      }
+      if (Metadata !== undefined) {
+        object.metadata = { ...Metadata };
+      }
+      objects.set(Key!, object);
+      return { ETag: object.etag, $metadata: { httpStatusCode: 200 } };
+    }
+
+    if (command instanceof GetObjectCommand) {
+      const object = this.bucket(command.input.Bucket!).get(command.input.Key!);
+      if (!object) {
+        throw noSuchKey();
+      }
+      const body = object.body.slice();
+      return {
+        Body: {
+          transformToByteArray: async () => body.slice(),
+          transformToString: async () => new TextDecoder().decode(body),
+        },
+        ContentType: object.contentType,
+        ContentLength: body.byteLength,
+        ETag: object.etag,
+        LastModified: object.lastModified,
+        Metadata: object.metadata && { ...object.metadata },
+        $metadata: { httpStatusCode: 200 },
+      };
+    }
+
+    if (command instanceof HeadObjectCommand) {
+      const object = this.bucket(command.input.Bucket!).get(command.input.Key!);
+      if (!object) {
+        // HEAD responses have no body to carry an error code
+        throw new NotFound({ message: 'Not Found', $metadata: { httpStatusCode: 404 } });
+      }
+      return {
+        ContentType: object.contentType,
+        ContentLength: object.body.byteLength,
+        ETag: object.etag,
+        LastModified: object.lastModified,
+        Metadata: object.metadata && { ...object.metadata },
+        $metadata: { httpStatusCode: 200 },
+      };
+    }
+
+    if (command instanceof DeleteObjectCommand) {
+      this.bucket(command.input.Bucket!).delete(command.input.Key!);
+      return { $metadata: { httpStatusCode: 204 } };
+    }
+
+    if (command instanceof ListObjectsV2Command) {
+      const {
+        Bucket,
+        Prefix = '',
+        MaxKeys = DEFAULT_MAX_KEYS,
+        ContinuationToken,
+        StartAfter,
+      } = command.input;
+      const objects = this.bucket(Bucket!);
+      const after = ContinuationToken ?? StartAfter ?? '';
+      const keys = this.listKeys(Bucket!).filter((key) => key.startsWith(Prefix) && key > after);
+      const page = keys.slice(0, MaxKeys);
+      const truncated = keys.length > page.length;
+      return {
+        Contents: page.map((key) => {
+          const object = objects.get(key)!;
+          return {
+            Key: key,
+            ETag: object.etag,
+            Size: object.body.byteLength,
+            LastModified: object.lastModified,
+          };
+        }),
+        KeyCount: page.length,
+        IsTruncated: truncated,
+        NextContinuationToken: truncated ? page[page.length - 1] : undefined,
+        $metadata: { httpStatusCode: 200 },
+      };
+    }
+
+    throw new Error(`S3Emulator does not support ${(command as object).constructor.name}`);
+  }
+
+  /**
+   * Objects in a bucket; buckets are created on first use.
+   */
+  private bucket(name: string): Map<string, EmulatedObject> {
+    let objects = this.buckets.get(name);
+    if (!objects) {
+      objects = new Map();
+      this.buckets.set(name, objects);
+    }
+    return objects;
+  }
+}
+
+/**
+ * Copy a PutObject body into bytes. Strings, byte arrays and Blobs are
+ * supported; streams aren't.
+ */
+async function toBytes(body: unknown): Promise<Uint8Array> {
+  if (typeof body === 'string') {
+    return new TextEncoder().encode(body);
+  }
+  if (body instanceof Uint8Array) {
+    return body.slice();
+  }
+  if (body instanceof Blob) {
+    return new Uint8Array(await body.arrayBuffer());
+  }
+  throw new Error('S3Emulator only accepts string, Uint8Array or Blob bodies');
+}
+
+/**
+ * Quoted ETag for a body. Real S3 uses MD5; any digest that changes with the
+ * content behaves the same for conditional writes.
+ */
+async function computeETag(body: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', body as BufferSource);
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'));
+  return `"${hex.join('').slice(0, 32)}"`;
+}
+
+/**
+ * Error S3 returns for GET on a missing key, and for If-Match writes to one
+ */
+function noSuchKey(): NoSuchKey {
+  return new NoSuchKey({
+    message: 'The specified key does not exist.',
+    $metadata: { httpStatusCode: 404 },
+  });
+}
+
+/**
+ * Error S3 returns when an If-Match / If-None-Match condition doesn't hold
+ */
+function preconditionFailed(): S3ServiceException {
+  return new S3ServiceException({
+    name: 'PreconditionFailed',
+    $fault: 'client',
+    message: 'At least one of the pre-conditions you specified did not hold',
+    $metadata: { httpStatusCode: 412 },
+  });
+}
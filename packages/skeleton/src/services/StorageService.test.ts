@@ -0,0 +1,340 @@
+/**
+ * Unit tests for StorageService, run against S3Emulator
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  StorageService,
+  SceneConflictError,
+  SceneEditDeniedError,
+  SceneRemovedError,
+  InvalidAssetError,
+  isSceneExpired,
+} from './StorageService';
+import { S3Emulator } from './S3Emulator';
+import { canonicalizeScene } from '../persistence/SceneHash';
+import { S3StorageClient } from '@worldnotes/core/services';
+import type { SceneState as CoreSceneState } from '@worldnotes/core';
+import type { SceneState, Treat } from '../core/types';
+
+const BUCKET = 'test-bucket';
+
+const config = {
+  region: 'us-east-1',
+  identityPoolId: 'us-east-1:test',
+  bucketName: BUCKET,
+  appUrl: 'https://splatandtreat.example.com/',
+};
+
+function makeTreat(id: string, text = ''): Treat {
+  return {
+    id,
+    type: 'message-bottle',
+    glbUrl: 'https://example.com/bottle.glb',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    scale: { x: 1, y: 1, z: 1 },
+    metadata: { text },
+  };
+}
+
+function makeScene(treats: Treat[]): SceneState {
+  return {
+    version: 1,
+    worldUrl: 'https://example.com/world.spz',
+    treats,
+    waypoints: [],
+    paths: [],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  };
+}
+
+/**
+ * Smallest GLB header followed by a few bytes of padding.
+ */
+function makeGlb(): Uint8Array {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, bytes.byteLength, true);
+  return bytes;
+}
+
+describe('StorageService', () => {
+  let s3: S3Emulator;
+  let storage: StorageService;
+
+  beforeEach(() => {
+    s3 = new S3Emulator();
+    storage = new StorageService(config, s3.createClient());
+  });
+
+  it('should save a scene and load it back', async () => {
+    const { sceneId, s3Key, shareUrl } = await storage.saveScene(makeScene([makeTreat('a')]));
+
+    expect(s3Key).toBe(`scenes/${sceneId}.json`);
+    expect(s3.getObject(BUCKET, s3Key)?.contentType).toBe('application/json');
+    expect(shareUrl).toMatch(
+      new RegExp(`^https://splatandtreat\\.example\\.com\\?scene=${sceneId}&hash=`)
+    );
+
+    const loaded = await new StorageService(config, s3.createClient()).loadScene(sceneId);
+    expect(loaded?.treats.map((treat) => treat.id)).toEqual(['a']);
+  });
+
+  it('should return null for scenes that do not exist', async () => {
+    expect(await storage.loadScene('missing')).toBeNull();
+  });
+
+  it('should delete a scene with its revisions and index entry', async () => {
+    const { sceneId } = await storage.saveScene(makeScene([makeTreat('a')]));
+
+    await storage.deleteScene(sceneId);
+
+    expect(await storage.loadScene(sceneId)).toBeNull();
+    expect(s3.listKeys(BUCKET).filter((key) => key.includes(sceneId))).toEqual([]);
+    expect((await storage.listScenes()).scenes).toEqual([]);
+  });
+
+  it('should not upload a scene that has not changed', async () => {
+    const scene = makeScene([makeTreat('a')]);
+    const { sceneId } = await storage.saveScene(scene);
+    const puts = s3.commands.filter((name) => name === 'PutObjectCommand').length;
+
+    const result = await storage.saveScene(scene, sceneId);
+
+    expect(result.unchanged).toBe(true);
+    expect(s3.commands.filter((name) => name === 'PutObjectCommand')).toHaveLength(puts);
+  });
+
+  it('should merge with a collaborator who saved in the meantime', async () => {
+    const { sceneId, editToken } = await storage.saveScene(makeScene([makeTreat('a')]));
+    const collaborator = new StorageService(config, s3.createClient());
+    await collaborator.loadScene(sceneId);
+
+    await collaborator.saveScene(makeScene([makeTreat('a'), makeTreat('b')]), sceneId, {
+      editToken,
+    });
+    const { state } = await storage.saveScene(makeScene([makeTreat('a'), makeTreat('c')]), sceneId);
+
+    expect(state.treats.map((treat) => treat.id).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not overwrite a save that lands while saving a scene it has not loaded', async () => {
+    const { sceneId, editToken } = await storage.saveScene(makeScene([makeTreat('a')]));
+    const client = s3.createClient();
+    let raced = false;
+    const racingClient = {
+      send: async (command: { input: { Key?: string } }) => {
+        const isScenePut =
+          command.constructor.name === 'PutObjectCommand' &&
+          command.input.Key === `scenes/${sceneId}.json`;
+        if (isScenePut && !raced) {
+          raced = true;
+          await storage.saveScene(makeScene([makeTreat('b')]), sceneId, { editToken });
+        }
+        return client.send(command as never);
+      },
+    } as unknown as typeof client;
+
+    const saving = new StorageService(config, racingClient).saveScene(makeScene([]), sceneId, {
+      editToken,
+    });
+
+    await expect(saving).rejects.toThrow(SceneConflictError);
+    expect((await storage.loadScene(sceneId))?.treats.map((treat) => treat.id)).toEqual(['b']);
+  });
+
+  it('should make core clients notice saves made since they loaded the scene', async () => {
+    const { sceneId, editToken } = await storage.saveScene(makeScene([makeTreat('a')]));
+    const core = new S3StorageClient(config, s3.createClient());
+    const loaded = await core.loadScene(sceneId);
+    await storage.saveScene(makeScene([makeTreat('a'), makeTreat('b')]), sceneId, { editToken });
+
+    await expect(
+      core.saveScene({ ...loaded!, treats: [] }, sceneId, { editToken })
+    ).rejects.toMatchObject({
+      name: 'SceneConflictError',
+      remote: { treats: [{ id: 'a' }, { id: 'b' }] },
+    });
+  });
+
+  it('should refuse saves without the edit token', async () => {
+    const { sceneId } = await storage.saveScene(makeScene([makeTreat('a')]));
+    const viewer = new StorageService(config, s3.createClient());
+    await viewer.loadScene(sceneId);
+
+    await expect(viewer.saveScene(makeScene([]), sceneId)).rejects.toThrow(SceneEditDeniedError);
+  });
+
+  it('should upload a thumbnail next to the scene and reference it', async () => {
+    const thumbnail = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+    const { sceneId, state } = await storage.saveScene(makeScene([]), undefined, { thumbnail });
+
+    expect(s3.getObject(BUCKET, `scenes/${sceneId}.jpg`)?.contentType).toBe('image/jpeg');
+    expect(state.extensions?.thumbnailUrl).toBe(
+      `https://${BUCKET}.s3.us-east-1.amazonaws.com/scenes/${sceneId}.jpg`
+    );
+    expect((await storage.listScenes()).scenes[0].thumbnailUrl).toBe(
+      state.extensions?.thumbnailUrl
+    );
+  });
+
+  it('should sign a scene as it is saved, even if its content is unchanged', async () => {
+    const scene = makeScene([makeTreat('a')]);
+    const { sceneId, editToken } = await storage.saveScene(scene);
+    const { privateKey, publicKey } = (await crypto.subtle.generateKey('Ed25519', true, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+
+    const { unchanged } = await storage.saveScene(scene, sceneId, {
+      editToken,
+      signingKey: { privateKey, keyId: 'acme' },
+    });
+
+    expect(unchanged).toBe(false);
+    const stored = JSON.parse(
+      new TextDecoder().decode(s3.getObject(BUCKET, `scenes/${sceneId}.json`)!.body)
+    );
+    expect(stored.signature).toMatchObject({ alg: 'Ed25519', keyId: 'acme' });
+    const loaded = await new StorageService(config, s3.createClient()).loadScene(sceneId);
+    expect(
+      await crypto.subtle.verify(
+        'Ed25519',
+        publicKey,
+        Uint8Array.from(atob(stored.signature.value), (char) => char.charCodeAt(0)),
+        new TextEncoder().encode(canonicalizeScene(loaded!))
+      )
+    ).toBe(true);
+  });
+
+  it('should leave a tombstone when a scene is removed', async () => {
+    const { sceneId } = await storage.saveScene(makeScene([makeTreat('a')]), undefined, {
+      thumbnail: new Uint8Array([0xff, 0xd8]),
+    });
+
+    await storage.removeScene(sceneId);
+    await storage.removeScene(sceneId);
+
+    await expect(
+      new StorageService(config, s3.createClient()).loadScene(sceneId)
+    ).rejects.toMatchObject({ name: 'SceneRemovedError', sceneId, reason: 'removed' });
+    expect(s3.getObject(BUCKET, `scenes/${sceneId}.jpg`)?.contentType).toBe(
+      'application/vnd.worldnotes.tombstone+json'
+    );
+    expect(s3.commands).not.toContain('DeleteObjectCommand');
+    expect((await storage.listScenes()).scenes).toEqual([]);
+  });
+
+  it('should share scenes with core clients that keep binary copies', async () => {
+    const core = new S3StorageClient({ ...config, sceneFormat: 'binary' }, s3.createClient());
+    const { sceneId, editToken } = await core.saveScene({
+      version: 2,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [
+        {
+          id: 'a',
+          type: 'bottle',
+          glbUrl: 'https://example.com/bottle.glb',
+          message: 'Hello',
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0 },
+        },
+      ],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+    expect(s3.getObject(BUCKET, `scenes/${sceneId}.bin`)?.contentType).toBe(
+      'application/vnd.worldnotes.scene+binary'
+    );
+
+    const loaded = await storage.loadScene(sceneId);
+    expect(loaded?.treats.map((treat) => [treat.type, treat.metadata.text])).toEqual([
+      ['message-bottle', 'Hello'],
+    ]);
+
+    await storage.saveScene({ ...loaded!, treats: [] }, sceneId, { editToken });
+    expect((await core.loadScene(sceneId))?.treats).toEqual([]);
+
+    await storage.removeScene(sceneId);
+    await expect(core.loadScene(sceneId)).rejects.toMatchObject({ name: 'SceneRemovedError' });
+    expect(s3.getObject(BUCKET, `scenes/${sceneId}.bin`)?.contentType).toBe(
+      'application/vnd.worldnotes.tombstone+json'
+    );
+  });
+
+  it('should keep the edit token in tombstones for other clients to check', async () => {
+    const { sceneId, editToken } = await storage.saveScene(makeScene([makeTreat('a')]));
+    await storage.removeScene(sceneId);
+    const core = new S3StorageClient(config, s3.createClient());
+    const state: CoreSceneState = {
+      version: 2,
+      worldUrl: 'https://example.com/world.spz',
+      treats: [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+    };
+
+    await expect(core.saveScene(state, sceneId)).rejects.toThrow(SceneEditDeniedError);
+    await expect(core.saveScene(state, sceneId, { editToken })).resolves.toMatchObject({
+      sceneId,
+    });
+  });
+
+  it('should bring a removed scene back when its editor saves over it', async () => {
+    const { sceneId, editToken } = await storage.saveScene(makeScene([makeTreat('a')]));
+    await storage.removeScene(sceneId);
+    const other = new StorageService(config, s3.createClient());
+
+    await expect(other.saveScene(makeScene([]), sceneId)).rejects.toThrow(SceneEditDeniedError);
+    await other.saveScene(makeScene([makeTreat('b')]), sceneId, { editToken });
+
+    expect((await storage.loadScene(sceneId))?.treats.map((treat) => treat.id)).toEqual(['b']);
+    expect((await storage.listScenes()).scenes.map((summary) => summary.sceneId)).toEqual([
+      sceneId,
+    ]);
+  });
+
+  it('should refuse to remove a scene without the edit token', async () => {
+    const { sceneId } = await storage.saveScene(makeScene([makeTreat('a')]));
+    const viewer = new StorageService(config, s3.createClient());
+
+    await expect(viewer.removeScene(sceneId)).rejects.toThrow(SceneEditDeniedError);
+    await expect(viewer.loadScene(sceneId)).resolves.not.toBeNull();
+    await expect(storage.saveScene(makeScene([]), sceneId)).resolves.toBeDefined();
+  });
+
+  it('should report removed scenes as errors rather than missing', async () => {
+    const { sceneId, editToken } = await storage.saveScene(makeScene([]));
+    await new StorageService(config, s3.createClient()).removeScene(sceneId, { editToken });
+
+    await expect(storage.loadScene(sceneId)).rejects.toThrow(SceneRemovedError);
+  });
+
+  it('should hide expired scenes from the listing', async () => {
+    const expired = makeScene([]);
+    expired.extensions = { expiresAt: '2000-01-01T00:00:00Z' };
+    const { sceneId } = await storage.saveScene(expired);
+    const current = await storage.saveScene(makeScene([]));
+
+    expect((await storage.listScenes()).scenes.map((summary) => summary.sceneId)).toEqual([
+      current.sceneId,
+    ]);
+    expect(isSceneExpired((await storage.loadScene(sceneId))!)).toBe(true);
+    expect(isSceneExpired(makeScene([]))).toBe(false);
+  });
+
+  it('should upload a model once per content hash', async () => {
+    const first = await storage.uploadAsset(makeGlb());
+    const second = await storage.uploadAsset(makeGlb());
+
+    expect(first.url).toBe(`https://${BUCKET}.s3.us-east-1.amazonaws.com/${first.key}`);
+    expect(second).toEqual({ ...first, existed: true });
+    expect(s3.listKeys(BUCKET)).toEqual([first.key]);
+    await expect(storage.uploadAsset(new Uint8Array(16))).rejects.toThrow(InvalidAssetError);
+  });
+});
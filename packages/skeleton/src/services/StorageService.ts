@@ -7,11 +7,74 @@
  * @module services/StorageService
  */
 
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  type PutObjectCommandInput,
+  type S3ClientConfig,
+} from '@aws-sdk/client-s3';
 import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
+import {
+  GLB_CONTENT_TYPE,
+  SceneEditDeniedError,
+  SceneRemovedError,
+  THUMBNAIL_CONTENT_TYPE,
+  TOMBSTONE_CONTENT_TYPE,
+  addRevision,
+  canEditScene,
+  createEditToken,
+  createTombstone,
+  getEditUrl,
+  hashAsset,
+  isSceneExpired as isCoreSceneExpired,
+  isPreconditionFailure,
+  hashEditToken,
+  pageSceneSummaries,
+  parseRevisionIndex,
+  parseTombstone,
+  readSceneSummaries,
+  replaceSceneSummary,
+  summarizeScene,
+  validateGlb,
+  type ListScenesOptions,
+  type RevisionIndex,
+  type SceneListPage,
+  type SceneRevision,
+  type SceneSummary,
+  type SceneTombstone,
+  type UploadAssetOptions,
+  type UploadedAsset,
+} from '@worldnotes/core/services';
+import {
+  isSameSignature,
+  signCanonicalScene,
+  type SceneSigningKey,
+} from '@worldnotes/core/persistence';
+import type { SceneSignature } from '@worldnotes/core';
 import type { SceneState, ShareableScene } from '../core/types';
 import { toJSON } from '../persistence/SceneSerializer';
 import { fromJSON } from '../persistence/SceneDeserializer';
+import { mergeScenes, type SceneMergeConflict } from '../persistence/SceneMerge';
+import { canonicalizeScene, hashScene } from '../persistence/SceneHash';
+
+export {
+  InvalidAssetError,
+  MAX_GLB_BYTES,
+  SceneEditDeniedError,
+  SceneRemovedError,
+  type ListScenesOptions,
+  type SceneListPage,
+  type SceneRevision,
+  type SceneSummary,
+  type UploadAssetOptions,
+  type UploadedAsset,
+} from '@worldnotes/core/services';
+
+/** Number of hash characters included in share links */
+const SHARE_HASH_LENGTH = 16;
 
 /**
  * Configuration for StorageService
@@ -21,10 +84,149 @@ export interface StorageServiceConfig {
   region: string;
   /** Cognito Identity Pool ID */
   identityPoolId: string;
+  /** Credentials or credential provider to use instead of the Cognito identity pool */
+  credentials?: S3ClientConfig['credentials'];
   /** S3 bucket name */
   bucketName: string;
   /** Base URL for shareable links (e.g., 'https://splatandtreat.com') */
   appUrl: string;
+  /** Public base URL for uploaded models (defaults to the bucket's URL) */
+  assetBaseUrl?: string;
+}
+
+/**
+ * Result of StorageService.saveScene()
+ */
+export interface SaveSceneResult extends ShareableScene {
+  /** The state that was written; includes remote changes when a merge happened */
+  state: SceneState;
+  /** Fields that a collaborator changed differently since the scene was loaded */
+  conflicts: SceneMergeConflict[];
+  /** True when the content matched the stored scene and nothing was uploaded */
+  unchanged: boolean;
+}
+
+/**
+ * Options for StorageService.saveScene()
+ */
+export interface SaveSceneOptions {
+  /**
+   * Write even if the scene changed since it was loaded, replacing the
+   * remote copy (default: false). The edit token is still checked.
+   */
+  overwrite?: boolean;
+  /**
+   * Edit token of the scene being saved over. Defaults to the token this
+   * service last saved the scene with; new scenes get a fresh one.
+   */
+  editToken?: string;
+  /**
+   * JPEG of the scene's view. Uploaded as `scenes/<id>.jpg` once the scene
+   * is saved, and referenced from the scene's `thumbnailUrl` extension.
+   */
+  thumbnail?: Uint8Array | Blob;
+  /**
+   * Sign the scene as it is saved, storing the signature in its `signature`
+   * extension. Without it, the scene's own signature, if any, is saved as
+   * given.
+   */
+  signingKey?: SceneSigningKey;
+}
+
+/**
+ * Thrown by StorageService.saveScene() when the stored scene changed after
+ * it was read, so writing would discard someone else's save.
+ *
+ * @example
+ * try {
+ *   await storage.saveScene(state, sceneId);
+ * } catch (error) {
+ *   if (error instanceof SceneConflictError) {
+ *     // Reload error.remote, retry with { overwrite: true }, or save as a copy
+ *   }
+ * }
+ */
+export class SceneConflictError extends Error {
+  /** Scene that was being saved */
+  readonly sceneId: string;
+  /** The scene as currently stored, or null if it was deleted */
+  readonly remote: SceneState | null;
+
+  constructor(sceneId: string, remote: SceneState | null) {
+    super(`Scene ${sceneId} was changed by someone else while saving`);
+    this.name = 'SceneConflictError';
+    this.sceneId = sceneId;
+    this.remote = remote;
+  }
+}
+
+/**
+ * Whether a scene's `expiresAt` extension has passed. Scenes without one,
+ * or with one that isn't a valid date, never expire. Skeleton scenes keep
+ * the field as an extension; the check itself is core's isSceneExpired().
+ *
+ * @param state - Scene, or scene summary, to check
+ * @param now - Current time (default: now)
+ * @returns Whether the scene should no longer be shown
+ */
+export function isSceneExpired(
+  state: Pick<SceneState, 'extensions'> & Pick<SceneSummary, 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = state.expiresAt ?? state.extensions?.expiresAt;
+  return typeof expiresAt === 'string' && isCoreSceneExpired({ expiresAt }, now);
+}
+
+/**
+ * A scene as fetched from S3 with the ETag of the object it came from
+ */
+interface FetchedScene {
+  state: SceneState;
+  etag?: string;
+}
+
+/**
+ * A removed scene's tombstone as fetched from S3, with its ETag
+ */
+interface FetchedTombstone {
+  tombstone: SceneTombstone;
+  etag?: string;
+}
+
+/**
+ * Scene index entry for a saved scene. worldName, thumbnailUrl and expiresAt
+ * are written by the viewer and kept here as extension fields.
+ */
+function summarizeSkeletonScene(sceneId: string, state: SceneState): SceneSummary {
+  const { worldName, thumbnailUrl, expiresAt } = state.extensions ?? {};
+  return summarizeScene(sceneId, {
+    worldUrl: state.worldUrl,
+    worldName: typeof worldName === 'string' ? worldName : undefined,
+    thumbnailUrl: typeof thumbnailUrl === 'string' ? thumbnailUrl : undefined,
+    expiresAt: typeof expiresAt === 'string' ? expiresAt : undefined,
+    updatedAt: state.updatedAt,
+    treats: state.treats,
+  });
+}
+
+/**
+ * Copy of a scene signed with `signingKey`. Skeleton scenes are v1
+ * documents, so the signature covers their own canonical form (see
+ * canonicalizeScene()), which is what viewer.html verifies.
+ */
+async function signSkeletonScene(
+  state: SceneState,
+  signingKey: SceneSigningKey
+): Promise<SceneState> {
+  const signature = await signCanonicalScene(canonicalizeScene(state), signingKey);
+  return { ...state, extensions: { ...state.extensions, signature } };
+}
+
+/**
+ * A scene's signature, kept as an extension field.
+ */
+function getSignature(state: SceneState | undefined): SceneSignature | undefined {
+  return state?.extensions?.signature as SceneSignature | undefined;
 }
 
 /**
@@ -66,21 +268,41 @@ export class StorageService {
   private s3Client: S3Client;
   private bucketName: string;
   private appUrl: string;
+  private assetBaseUrl: string;
+  /** Scenes as last loaded or saved, used as the merge base on the next save */
+  private baseScenes = new Map<string, SceneState>();
+  /** Content hashes of scenes as last loaded or saved, to skip unchanged uploads */
+  private sceneHashes = new Map<string, string>();
+  /** ETags of scenes as last loaded or saved, sent as If-Match on the next save */
+  private sceneETags = new Map<string, string>();
+  /** Edit tokens of scenes this service saved, reused on later saves */
+  private editTokens = new Map<string, string>();
 
-  constructor(config: StorageServiceConfig) {
+  /**
+   * @param config - S3 and Cognito configuration
+   * @param s3Client - Client to use instead of one built from `config`
+   *   (e.g. S3Emulator.createClient() in tests)
+   */
+  constructor(config: StorageServiceConfig, s3Client?: S3Client) {
     this.bucketName = config.bucketName;
     this.appUrl = config.appUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.assetBaseUrl = (
+      config.assetBaseUrl ?? `https://${config.bucketName}.s3.${config.region}.amazonaws.com`
+    ).replace(/\/$/, '');
 
-    this.s3Client = new S3Client({
-      region: config.region,
-      credentials: fromCognitoIdentityPool({
-        identityPoolId: config.identityPoolId,
-        clientConfig: { region: config.region },
-      }),
-    });
+    this.s3Client =
+      s3Client ??
+      new S3Client({
+        region: config.region,
+        credentials:
+          config.credentials ??
+          fromCognitoIdentityPool({
+            identityPoolId: config.identityPoolId,
+            clientConfig: { region: config.region },
+          }),
+      });
   }
 
-
   /**
    * Generate the S3 key for a scene
    */
@@ -89,64 +311,476 @@ export class StorageService {
   }
 
   /**
-   * Generate a shareable URL for a scene
+   * Generate the S3 key for an immutable revision of a scene
+   */
+  private getRevisionKey(sceneId: string, rev: string): string {
+    return `scenes/${sceneId}/revisions/${rev}.json`;
+  }
+
+  /**
+   * Generate the S3 key for a scene's revision index
+   */
+  private getRevisionIndexKey(sceneId: string): string {
+    return `scenes/${sceneId}/revisions/index.json`;
+  }
+
+  /**
+   * Generate the S3 key for the index of saved scenes
+   */
+  private getSceneIndexKey(): string {
+    return 'scenes/_index.json';
+  }
+
+  /**
+   * Generate the S3 key for a scene's thumbnail
    */
-  getShareUrl(sceneId: string): string {
-    return `${this.appUrl}?scene=${encodeURIComponent(sceneId)}`;
+  private getThumbnailKey(sceneId: string): string {
+    return `scenes/${sceneId}.jpg`;
+  }
+
+  /**
+   * Generate the S3 key for the binary copy of a scene that @worldnotes/core
+   * clients with sceneFormat 'binary' keep. They only load it while it
+   * matches the JSON scene, so saves here don't need to update it.
+   */
+  private getBinarySceneKey(sceneId: string): string {
+    return `scenes/${sceneId}.bin`;
+  }
+
+  /**
+   * Generate the S3 key for an uploaded model
+   */
+  private getAssetKey(sha256: string): string {
+    return `assets/${sha256}.glb`;
+  }
+
+  /**
+   * Generate a shareable URL for a scene.
+   * With a content hash, the link records which version was shared so the
+   * viewer can tell when the scene changed afterwards.
+   */
+  getShareUrl(sceneId: string, hash?: string): string {
+    const url = `${this.appUrl}?scene=${encodeURIComponent(sceneId)}`;
+    return hash ? `${url}&hash=${hash.slice(0, SHARE_HASH_LENGTH)}` : url;
+  }
+
+  /**
+   * Generate the edit link for a scene: the share URL with the edit token in
+   * the fragment, which browsers don't send to servers.
+   */
+  getEditUrl(shareUrl: string, editToken: string): string {
+    return getEditUrl(shareUrl, editToken);
   }
 
   /**
    * Save a scene state to S3 and return shareable information.
    *
+   * When updating a scene this service loaded or saved earlier, the remote
+   * copy is checked first. If someone else saved in the meantime, their
+   * changes are merged with `state` via mergeScenes() rather than
+   * overwritten; the merged state and any conflicts are returned.
+   *
+   * If the content hashes the same as the stored copy (see hashScene()) and
+   * has the same signature, nothing is uploaded and `updatedAt` is left alone.
+   *
+   * The write is conditional on the ETag the merge was based on, or of the
+   * stored copy the edit token was checked against (If-Match), or on the
+   * object not existing yet for new scenes (If-None-Match). If
+   * another save lands in between, SceneConflictError is thrown with the
+   * current remote state instead of overwriting it.
+   *
+   * Saving over a stored scene requires its edit token (`options.editToken`,
+   * or the one this service last saved it with). The result includes the
+   * token and an edit link; the share URL itself stays view-only. Scenes
+   * saved before edit tokens existed take a new token on their next save.
+   * This stops view links from being used to edit, but anyone with bucket
+   * credentials can still write objects directly.
+   *
+   * Saving over a removed scene brings it back. Its tombstone keeps the
+   * scene's edit token hash, so this also needs the scene's edit token.
+   *
+   * Every upload also writes an immutable revision under
+   * `scenes/<id>/revisions/` (see listRevisions()) and moves the scene to the
+   * top of the scene index (see listScenes()).
+   *
+   * With `options.signingKey`, the saved scene is signed (after any merge)
+   * and the signature stored in its `signature` extension.
+   *
+   * With `options.thumbnail`, the image is uploaded next to the scene after
+   * the save succeeds. Its URL is the same on every save, so a new thumbnail
+   * alone doesn't change the scene's content hash.
+   *
    * @param state - The SceneState to save
    * @param existingSceneId - Optional existing scene ID to update
-   * @returns ShareableScene with sceneId, shareUrl, and s3Key
+   * @param options - Save options
+   * @returns SaveSceneResult with sceneId, shareUrl, s3Key, hash, saved state and conflicts
+   * @throws SceneConflictError if the scene changed while saving
+   * @throws SceneEditDeniedError if the edit token doesn't match the stored
+   *   scene, or the removed scene's tombstone
    * @throws Error if save fails
    */
-  async saveScene(state: SceneState, existingSceneId?: string): Promise<ShareableScene> {
+  async saveScene(
+    state: SceneState,
+    existingSceneId?: string,
+    options: SaveSceneOptions = {}
+  ): Promise<SaveSceneResult> {
     const sceneId = existingSceneId || generateUUID();
     const s3Key = this.getS3Key(sceneId);
+    const editToken = options.editToken ?? this.editTokens.get(sceneId) ?? createEditToken();
+    if (options.thumbnail) {
+      const thumbnailUrl = `${this.assetBaseUrl}/${this.getThumbnailKey(sceneId)}`;
+      state = { ...state, extensions: { ...state.extensions, thumbnailUrl } };
+    }
+
+    if (options.signingKey) {
+      state = await signSkeletonScene(state, options.signingKey);
+    }
+
+    // The hash leaves out signatures, so a new signature is a change too
+    const contentHash = await hashScene(state);
+    if (
+      existingSceneId &&
+      this.sceneHashes.get(existingSceneId) === contentHash &&
+      isSameSignature(getSignature(this.baseScenes.get(existingSceneId)), getSignature(state))
+    ) {
+      const shareUrl = this.getShareUrl(sceneId, contentHash);
+      return {
+        sceneId,
+        shareUrl,
+        s3Key,
+        hash: contentHash,
+        editToken,
+        editUrl: this.getEditUrl(shareUrl, editToken),
+        state: this.baseScenes.get(sceneId) ?? state,
+        conflicts: [],
+        unchanged: true,
+      };
+    }
+
+    const stored = existingSceneId ? await this.fetchStored(sceneId) : null;
+    const remote = stored && 'state' in stored ? stored : null;
+    const removed = stored && 'tombstone' in stored ? stored : null;
+    const current = remote?.state ?? removed?.tombstone;
+    if (current && !(await canEditScene(current, editToken))) {
+      throw new SceneEditDeniedError(sceneId);
+    }
+
+    let stateToWrite = state;
+    let conflicts: SceneMergeConflict[] = [];
+    let expectedETag = removed
+      ? removed.etag
+      : existingSceneId
+        ? this.sceneETags.get(existingSceneId)
+        : undefined;
+    const base = existingSceneId ? this.baseScenes.get(existingSceneId) : undefined;
+    if (base && !options.overwrite) {
+      // ETags are missing when the bucket's CORS rules don't expose them
+      const changed =
+        remote &&
+        (remote.etag && expectedETag
+          ? remote.etag !== expectedETag
+          : remote.state.updatedAt !== base.updatedAt);
+      if (remote && changed) {
+        ({ merged: stateToWrite, conflicts } = mergeScenes(base, state, remote.state));
+        expectedETag = remote.etag;
+      }
+    }
+    if (!expectedETag) {
+      // Not loaded here (or loaded without an ETag): check against the copy fetched above
+      expectedETag = remote?.etag;
+    }
 
     // Update timestamps
-    const stateToSave: SceneState = {
-      ...state,
+    let stateToSave: SceneState = {
+      ...stateToWrite,
       updatedAt: new Date().toISOString(),
-      createdAt: existingSceneId ? state.createdAt : new Date().toISOString(),
+      createdAt: existingSceneId ? stateToWrite.createdAt : new Date().toISOString(),
+      editTokenHash: await hashEditToken(editToken),
     };
+    if (options.signingKey && stateToWrite !== state) {
+      // The merge changed the content that was signed
+      stateToSave = await signSkeletonScene(stateToSave, options.signingKey);
+    }
 
     const jsonBody = toJSON(stateToSave);
+    const hash = stateToWrite === state ? contentHash : await hashScene(stateToSave);
 
-    await this.s3Client.send(
-      new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: s3Key,
-        Body: jsonBody,
-        ContentType: 'application/json',
-      })
-    );
+    // Only write over the version we merged against or checked the edit token
+    // of; new scenes must not exist yet. Without ETags (CORS) the write is
+    // unconditional.
+    const condition: Pick<PutObjectCommandInput, 'IfMatch' | 'IfNoneMatch'> = {};
+    if (!options.overwrite) {
+      if (!existingSceneId) {
+        condition.IfNoneMatch = '*';
+      } else if (expectedETag) {
+        condition.IfMatch = expectedETag;
+      }
+    }
+
+    let etag: string | undefined;
+    try {
+      const response = await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: s3Key,
+          Body: jsonBody,
+          ContentType: 'application/json',
+          Metadata: { 'scene-hash': hash },
+          ...condition,
+        })
+      );
+      etag = response.ETag;
+    } catch (error: unknown) {
+      if (isPreconditionFailure(error)) {
+        const remote = await this.fetchScene(sceneId);
+        throw new SceneConflictError(sceneId, remote?.state ?? null);
+      }
+      throw error;
+    }
+
+    if (options.thumbnail) {
+      const image = options.thumbnail;
+      await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: this.getThumbnailKey(sceneId),
+          Body: image instanceof Uint8Array ? image : new Uint8Array(await image.arrayBuffer()),
+          ContentType: THUMBNAIL_CONTENT_TYPE,
+          // The URL stays the same across saves, so make caches revalidate
+          CacheControl: 'no-cache',
+        })
+      );
+    }
+
+    this.baseScenes.set(sceneId, stateToSave);
+    this.sceneHashes.set(sceneId, hash);
+    this.editTokens.set(sceneId, editToken);
+    if (etag) {
+      this.sceneETags.set(sceneId, etag);
+    }
+
+    await this.recordRevision(sceneId, stateToSave, jsonBody, hash);
+    await this.updateSceneIndex(sceneId, summarizeSkeletonScene(sceneId, stateToSave));
 
+    const shareUrl = this.getShareUrl(sceneId, hash);
     return {
       sceneId,
-      shareUrl: this.getShareUrl(sceneId),
+      shareUrl,
       s3Key,
+      hash,
+      editToken,
+      editUrl: this.getEditUrl(shareUrl, editToken),
+      state: stateToSave,
+      conflicts,
+      unchanged: false,
     };
   }
 
   /**
    * Load a scene state from S3 by scene ID.
    *
+   * Expired scenes load normally; check them with isSceneExpired().
+   *
    * @param sceneId - The scene ID to load
    * @returns SceneState or null if not found
+   * @throws SceneRemovedError if the scene was removed
    * @throws Error if load fails (other than not found)
    */
   async loadScene(sceneId: string): Promise<SceneState | null> {
-    const s3Key = this.getS3Key(sceneId);
+    const fetched = await this.fetchScene(sceneId);
+    if (!fetched) {
+      return null;
+    }
+
+    const { state, etag } = fetched;
+    this.baseScenes.set(sceneId, state);
+    this.sceneHashes.set(sceneId, await hashScene(state));
+    if (etag) {
+      this.sceneETags.set(sceneId, etag);
+    } else {
+      this.sceneETags.delete(sceneId);
+    }
+    return state;
+  }
+
+  /**
+   * Fetch a scene from S3 without recording it as a merge base.
+   *
+   * @throws SceneRemovedError if the scene was removed
+   */
+  private async fetchScene(sceneId: string): Promise<FetchedScene | null> {
+    const stored = await this.fetchStored(sceneId);
+    if (stored && 'tombstone' in stored) {
+      throw new SceneRemovedError(stored.tombstone);
+    }
+    return stored;
+  }
+
+  /**
+   * Fetch a scene, or the tombstone stored in place of a removed one.
+   */
+  private async fetchStored(sceneId: string): Promise<FetchedScene | FetchedTombstone | null> {
+    const object = await this.getObjectText(this.getS3Key(sceneId));
+    if (!object) {
+      return null;
+    }
+    const tombstone = parseTombstone(object.contentType, object.body);
+    if (tombstone) {
+      return { tombstone, etag: object.etag };
+    }
+    return { state: fromJSON(object.body), etag: object.etag };
+  }
+
+  /**
+   * List the saved revisions of a scene, newest first.
+   * Scenes saved before revisions were kept have none.
+   *
+   * @param sceneId - The scene ID
+   * @returns Revisions, newest first
+   */
+  async listRevisions(sceneId: string): Promise<SceneRevision[]> {
+    const { revisions } = await this.readRevisionIndex(sceneId);
+    return revisions.reverse();
+  }
+
+  /**
+   * Load one revision of a scene.
+   *
+   * @param sceneId - The scene ID
+   * @param rev - Revision id from listRevisions()
+   * @returns SceneState or null if the revision doesn't exist
+   */
+  async loadRevision(sceneId: string, rev: string): Promise<SceneState | null> {
+    const object = await this.getObjectText(this.getRevisionKey(sceneId, rev));
+    return object && fromJSON(object.body);
+  }
+
+  /**
+   * Make a revision the current version of a scene again.
+   * This replaces whatever is stored now, and is itself recorded as a new
+   * revision, so a restore can be undone the same way.
+   *
+   * @param sceneId - The scene ID
+   * @param rev - Revision id from listRevisions()
+   * @param options - editToken, if this service didn't save the scene
+   * @returns SaveSceneResult for the restored scene
+   * @throws SceneEditDeniedError if the edit token doesn't match
+   * @throws Error if the revision doesn't exist
+   */
+  async restoreRevision(
+    sceneId: string,
+    rev: string,
+    options: Pick<SaveSceneOptions, 'editToken'> = {}
+  ): Promise<SaveSceneResult> {
+    const revision = await this.loadRevision(sceneId, rev);
+    if (!revision) {
+      throw new Error(`Revision ${rev} of scene ${sceneId} not found`);
+    }
+    return this.saveScene(revision, sceneId, { ...options, overwrite: true });
+  }
+
+  /**
+   * List saved scenes, most recently saved first.
+   *
+   * Reads the scene index at `scenes/_index.json` rather than listing the
+   * bucket, so a page costs one request however many scenes there are. Only
+   * the 1000 most recently saved scenes are indexed. Expired scenes are left
+   * out.
+   *
+   * @param options - Page cursor, page size and world filter
+   * @returns One page of scene summaries and the cursor for the next
+   * @throws Error if the cursor is not one returned by listScenes()
+   */
+  async listScenes(options: ListScenesOptions = {}): Promise<SceneListPage> {
+    return pageSceneSummaries(await this.readSceneIndex(), options);
+  }
+
+  /**
+   * Replace a scene's entry in the scene index, or remove it when `summary`
+   * is null. Concurrent saves of different scenes can race here; the index
+   * is a listing aid, and the scenes themselves are unaffected.
+   */
+  private async updateSceneIndex(sceneId: string, summary: SceneSummary | null): Promise<void> {
+    const index = replaceSceneSummary(await this.readSceneIndex(), sceneId, summary);
+    if (!index) {
+      return;
+    }
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: this.getSceneIndexKey(),
+        Body: JSON.stringify(index),
+        ContentType: 'application/json',
+      })
+    );
+  }
+
+  /**
+   * Read the scene index, most recently saved first.
+   */
+  private async readSceneIndex(): Promise<SceneSummary[]> {
+    const object = await this.getObjectText(this.getSceneIndexKey());
+    if (!object) {
+      return [];
+    }
+    return readSceneSummaries(JSON.parse(object.body));
+  }
+
+  /**
+   * Write an immutable copy of a saved scene and add it to the revision index.
+   */
+  private async recordRevision(
+    sceneId: string,
+    state: SceneState,
+    body: string,
+    hash: string
+  ): Promise<void> {
+    const index = await this.readRevisionIndex(sceneId);
+    const { rev } = addRevision(index, {
+      updatedAt: state.updatedAt,
+      hash,
+      treatCount: state.treats.length,
+    });
+
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: this.getRevisionKey(sceneId, rev),
+        Body: body,
+        ContentType: 'application/json',
+        Metadata: { 'scene-hash': hash },
+      })
+    );
 
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: this.getRevisionIndexKey(sceneId),
+        Body: JSON.stringify(index),
+        ContentType: 'application/json',
+      })
+    );
+  }
+
+  /**
+   * Read a scene's revision index, oldest first.
+   */
+  private async readRevisionIndex(sceneId: string): Promise<RevisionIndex> {
+    const object = await this.getObjectText(this.getRevisionIndexKey(sceneId));
+    return parseRevisionIndex(object ? JSON.parse(object.body) : null);
+  }
+
+  /**
+   * Fetch an object as text, or null if it doesn't exist.
+   */
+  private async getObjectText(
+    key: string
+  ): Promise<{ body: string; etag?: string; contentType?: string } | null> {
     try {
       const response = await this.s3Client.send(
         new GetObjectCommand({
           Bucket: this.bucketName,
-          Key: s3Key,
+          Key: key,
         })
       );
 
@@ -155,8 +789,11 @@ export class StorageService {
       }
 
       // Convert stream to string
-      const bodyString = await response.Body.transformToString();
-      return fromJSON(bodyString);
+      return {
+        body: await response.Body.transformToString(),
+        etag: response.ETag,
+        contentType: response.ContentType,
+      };
     } catch (error: unknown) {
       // Check if it's a "not found" error
       if (error instanceof Error && error.name === 'NoSuchKey') {
@@ -166,6 +803,58 @@ export class StorageService {
     }
   }
 
+  /**
+   * Upload a GLB model under `assets/<sha256>.glb` for use as Treat.glbUrl.
+   * The file is checked before anything is sent, and content that is already
+   * in the bucket isn't uploaded again.
+   *
+   * @param data - File contents, e.g. a File from a file input or drop
+   * @param options - Size limit
+   * @returns Asset key, public URL and hash
+   * @throws InvalidAssetError if the file is too large or not a GLB
+   */
+  async uploadAsset(
+    data: Uint8Array | Blob,
+    options: UploadAssetOptions = {}
+  ): Promise<UploadedAsset> {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+    validateGlb(bytes, options.maxBytes);
+
+    const sha256 = await hashAsset(bytes);
+    const key = this.getAssetKey(sha256);
+    const existed = await this.objectExists(key);
+    if (!existed) {
+      await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: bytes,
+          ContentType: GLB_CONTENT_TYPE,
+          Metadata: { sha256 },
+        })
+      );
+    }
+    return { key, url: `${this.assetBaseUrl}/${key}`, sha256, size: bytes.byteLength, existed };
+  }
+
+  /**
+   * Check whether an object exists without downloading it.
+   */
+  private async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.s3Client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return true;
+    } catch (error: unknown) {
+      // HEAD responses have no body, so a missing key surfaces as NotFound, or
+      // as Forbidden for callers without s3:ListBucket. Treating the latter as
+      // missing at worst rewrites an asset with identical content.
+      if (error instanceof Error && (error.name === 'NotFound' || error.name === 'Forbidden')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Update an existing scene in S3.
    *
@@ -178,22 +867,92 @@ export class StorageService {
   }
 
   /**
-   * Delete a scene from S3.
-   * Note: This requires additional IAM permissions (s3:DeleteObject).
+   * Soft-delete a scene: store a tombstone in place of the scene, its
+   * thumbnail and any binary copy so its links report that it was removed,
+   * and drop it from the scene index. Nothing is deleted, so the Cognito
+   * role's s3:PutObject is enough; revisions, the thumbnail and the binary
+   * copy are deleted when the purge script runs. Removing a missing or already removed scene does nothing.
    *
-   * @param sceneId - The scene ID to delete
-   * @throws Error if delete fails
+   * @param sceneId - The scene ID to remove
+   * @param options - editToken, if this service didn't save the scene
+   * @throws SceneEditDeniedError if the edit token doesn't match
+   * @throws Error if removal fails
    */
-  async deleteScene(sceneId: string): Promise<void> {
-    const { DeleteObjectCommand } = await import('@aws-sdk/client-s3');
-    const s3Key = this.getS3Key(sceneId);
+  async removeScene(
+    sceneId: string,
+    options: Pick<SaveSceneOptions, 'editToken'> = {}
+  ): Promise<void> {
+    let remote: FetchedScene | null;
+    try {
+      remote = await this.fetchScene(sceneId);
+    } catch (error: unknown) {
+      if (error instanceof SceneRemovedError) {
+        return;
+      }
+      throw error;
+    }
+    if (!remote) {
+      return;
+    }
+    const editToken = options.editToken ?? this.editTokens.get(sceneId);
+    if (!(await canEditScene(remote.state, editToken))) {
+      throw new SceneEditDeniedError(sceneId);
+    }
 
+    const tombstone = JSON.stringify(createTombstone(sceneId, remote.state, 'removed'));
     await this.s3Client.send(
-      new DeleteObjectCommand({
+      new PutObjectCommand({
         Bucket: this.bucketName,
-        Key: s3Key,
+        Key: this.getS3Key(sceneId),
+        Body: tombstone,
+        ContentType: TOMBSTONE_CONTENT_TYPE,
       })
     );
+    for (const key of [this.getThumbnailKey(sceneId), this.getBinarySceneKey(sceneId)]) {
+      if (await this.objectExists(key)) {
+        await this.s3Client.send(
+          new PutObjectCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            Body: tombstone,
+            ContentType: TOMBSTONE_CONTENT_TYPE,
+          })
+        );
+      }
+    }
+    this.baseScenes.delete(sceneId);
+    this.sceneHashes.delete(sceneId);
+    this.sceneETags.delete(sceneId);
+    await this.updateSceneIndex(sceneId, null);
+  }
+
+  /**
+   * Delete a scene with its revisions, thumbnail and binary copy from S3 and
+   * drop it from the scene index.
+   * Note: This requires additional IAM permissions (s3:DeleteObject).
+   *
+   * @param sceneId - The scene ID to delete
+   * @throws Error if delete fails
+   */
+  async deleteScene(sceneId: string): Promise<void> {
+    const { revisions } = await this.readRevisionIndex(sceneId);
+    const keys = [
+      this.getS3Key(sceneId),
+      this.getBinarySceneKey(sceneId),
+      this.getThumbnailKey(sceneId),
+      ...revisions.map(({ rev }) => this.getRevisionKey(sceneId, rev)),
+      this.getRevisionIndexKey(sceneId),
+    ];
+
+    for (const key of keys) {
+      await this.s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+        })
+      );
+    }
+    await this.updateSceneIndex(sceneId, null);
   }
 }
 
@@ -7,5 +7,19 @@
 export {
   StorageService,
   createStorageServiceFromEnv,
+  SceneConflictError,
+  SceneEditDeniedError,
+  SceneRemovedError,
+  InvalidAssetError,
+  isSceneExpired,
+  MAX_GLB_BYTES,
   type StorageServiceConfig,
+  type SaveSceneResult,
+  type SaveSceneOptions,
+  type SceneRevision,
+  type SceneSummary,
+  type ListScenesOptions,
+  type SceneListPage,
+  type UploadAssetOptions,
+  type UploadedAsset,
 } from './StorageService';
@@ -1,6 +1,14 @@
 import { defineConfig } from 'vitest/config';
+import path from 'path';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Test against the core sources rather than its build output
+      '@worldnotes/core/persistence': path.resolve(__dirname, '../core/src/persistence/index.ts'),
+      '@worldnotes/core/services': path.resolve(__dirname, '../core/src/services/index.ts'),
+    },
+  },
   test: {
     globals: true,
     environment: 'node',